@@ -0,0 +1,224 @@
+/**
+ * CapEx project ledger — the line items behind a school's buildout.
+ *
+ * Used for the per-type drill-down under "CapEx Model vs Actual — Per Seat by
+ * Type" and for a single school in the detail drawer. Approved items are
+ * reconciled against the reported buildout and replace it once the ledger is
+ * marked complete (or runs past it); pending items show as exposure until approved.
+ */
+
+import React from 'react';
+import type { SchoolData } from '../data/facilitiesCapexData';
+import {
+  capexCategoryLabels,
+  capexLineAmount,
+  capexStatusLabels,
+  newCapexLineItem,
+  reconcileCapexLedger,
+  summarizeCapexLedger,
+  type CapexApprovalStatus,
+  type CapexCategory,
+  type CapexLineItem,
+} from '../data/capexProjects';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+const statusStyles: Record<CapexApprovalStatus, string> = {
+  pending: 'text-amber-300',
+  approved: 'text-green-300',
+  rejected: 'text-slate-500',
+};
+
+export const CapexLedger: React.FC<{
+  schools: SchoolData[];
+  items: CapexLineItem[];
+  completeSchoolIds: string[];
+  onChangeItems: (items: CapexLineItem[]) => void;
+  onChangeComplete: (schoolIds: string[]) => void;
+  onSelectSchool?: (school: SchoolData) => void;
+}> = ({ schools, items, completeSchoolIds, onChangeItems, onChangeComplete, onSelectSchool }) => {
+  const schoolIds = new Set(schools.map(s => s.id));
+  const scoped = items.filter(i => schoolIds.has(i.schoolId));
+  const summary = summarizeCapexLedger(scoped);
+  const categories = (Object.keys(capexCategoryLabels) as CapexCategory[]).filter(c => summary.byCategory[c].total > 0);
+  const listed = schools.length === 1 ? schools : schools.filter(s => scoped.some(i => i.schoolId === s.id));
+  const model = listed.reduce((sum, s) => sum + s.budget.capexBudget, 0);
+  const reconcile = (school: SchoolData) => reconcileCapexLedger(school, items, completeSchoolIds.includes(school.id));
+  const unallocated = listed.reduce((sum, s) => sum + reconcile(s).unallocated, 0);
+
+  const update = (id: string, patch: Partial<CapexLineItem>) =>
+    onChangeItems(items.map(i => (i.id === id ? { ...i, ...patch } : i)));
+  const add = (schoolId: string) => onChangeItems([...items, newCapexLineItem(schoolId)]);
+  const setComplete = (schoolId: string, complete: boolean) =>
+    onChangeComplete(complete ? [...completeSchoolIds, schoolId] : completeSchoolIds.filter(id => id !== schoolId));
+
+  return (
+    <div className="space-y-4">
+      {/* Rollup by category */}
+      {summary.approved.total > 0 ? (
+        <div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="py-1.5 text-left text-slate-400 font-medium">Category</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Committed</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Spent</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Buildout</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(c => {
+                const t = summary.byCategory[c];
+                return (
+                  <tr key={c} className="border-b border-slate-700/30">
+                    <td className="py-1 text-slate-200">{capexCategoryLabels[c]}</td>
+                    <td className="py-1 text-right text-slate-300">{formatCurrency(t.committed)}</td>
+                    <td className={`py-1 text-right ${t.spent > t.committed ? 'text-red-400' : 'text-slate-300'}`}>{formatCurrency(t.spent)}</td>
+                    <td className="py-1 text-right text-white">{formatCurrency(t.total)}</td>
+                    <td className="py-1 text-right text-slate-400">{((t.total / summary.approved.total) * 100).toFixed(0)}%</td>
+                  </tr>
+                );
+              })}
+              <tr className="font-semibold">
+                <td className="py-1.5 text-white">Approved ledger</td>
+                <td className="py-1.5 text-right text-slate-200">{formatCurrency(summary.approved.committed)}</td>
+                <td className="py-1.5 text-right text-slate-200">{formatCurrency(summary.approved.spent)}</td>
+                <td className="py-1.5 text-right text-white">{formatCurrency(summary.approved.total)}</td>
+                <td></td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-400 mt-1">
+            {model > 0 && (
+              <span>
+                vs model {formatCurrency(model)}:{' '}
+                <span className={summary.approved.total > model ? 'text-red-400' : 'text-green-400'}>
+                  {summary.approved.total > model ? '+' : ''}{formatCurrency(summary.approved.total - model)}
+                </span>
+              </span>
+            )}
+            {summary.overrunCount > 0 && <span className="text-red-400">{summary.overrunCount} over commitment by {formatCurrency(summary.overrunAmount)}</span>}
+            {summary.pendingCommitted > 0 && <span className="text-amber-400">{formatCurrency(summary.pendingCommitted)} pending approval</span>}
+            {unallocated > 0 && <span className="text-amber-400">{formatCurrency(unallocated)} of reported buildout unallocated</span>}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          No approved line items{summary.pendingCommitted > 0 ? ` (${formatCurrency(summary.pendingCommitted)} pending)` : ''} — the buildout is the reported figure until the ledger is complete or runs past it.
+        </p>
+      )}
+
+      {/* Line items by school */}
+      {listed.map(school => {
+        const schoolItems = scoped.filter(i => i.schoolId === school.id);
+        const rec = reconcile(school);
+        return (
+          <div key={school.id}>
+            {schools.length > 1 && (
+              <div className="flex items-center justify-between mb-1">
+                <button onClick={() => onSelectSchool?.(school)} className="text-xs font-semibold text-slate-100 hover:text-blue-300">{school.displayName}</button>
+                <span className="text-[11px] text-slate-400">
+                  Model {formatCurrency(school.budget.capexBudget)} | Buildout {formatCurrency(school.budget.capexBuildout)}
+                  {!rec.fromLedger && ' (reported)'}
+                </span>
+              </div>
+            )}
+            {schoolItems.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-slate-700/50">
+                      <th className="py-1 text-left text-slate-400 font-medium">Category</th>
+                      <th className="py-1 text-left text-slate-400 font-medium">Item</th>
+                      <th className="py-1 text-left text-slate-400 font-medium">Vendor</th>
+                      <th className="py-1 text-right text-slate-400 font-medium">Committed</th>
+                      <th className="py-1 text-right text-slate-400 font-medium">Spent</th>
+                      <th className="py-1 text-left text-slate-400 font-medium">Status</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schoolItems.map(item => (
+                      <tr key={item.id} className="border-b border-slate-700/30">
+                        <td className="py-1 pr-1">
+                          <select value={item.category} onChange={(e) => update(item.id, { category: e.target.value as CapexCategory })} className={inputClass}>
+                            {(Object.keys(capexCategoryLabels) as CapexCategory[]).map(c => (<option key={c} value={c}>{capexCategoryLabels[c]}</option>))}
+                          </select>
+                        </td>
+                        <td className="py-1 pr-1">
+                          <input value={item.description} placeholder="Description" onChange={(e) => update(item.id, { description: e.target.value })} className={`${inputClass} w-full min-w-[7rem]`} />
+                        </td>
+                        <td className="py-1 pr-1">
+                          <input value={item.vendor} placeholder="Vendor" onChange={(e) => update(item.id, { vendor: e.target.value })} className={`${inputClass} w-full min-w-[5rem]`} />
+                        </td>
+                        <td className="py-1 pr-1 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step={1000}
+                            value={item.committed}
+                            onChange={(e) => update(item.id, { committed: Math.max(0, Number(e.target.value) || 0) })}
+                            className={`${inputClass} w-20 text-right`}
+                          />
+                        </td>
+                        <td className="py-1 pr-1 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step={1000}
+                            value={item.spent}
+                            onChange={(e) => update(item.id, { spent: Math.max(0, Number(e.target.value) || 0) })}
+                            className={`${inputClass} w-20 text-right ${item.spent > item.committed ? 'text-red-300' : ''}`}
+                            title={item.spent > item.committed ? `Over commitment — counts as ${formatCurrency(capexLineAmount(item))}` : undefined}
+                          />
+                        </td>
+                        <td className="py-1 pr-1">
+                          <select value={item.status} onChange={(e) => update(item.id, { status: e.target.value as CapexApprovalStatus })} className={`${inputClass} ${statusStyles[item.status]}`}>
+                            {(Object.keys(capexStatusLabels) as CapexApprovalStatus[]).map(s => (<option key={s} value={s}>{capexStatusLabels[s]}</option>))}
+                          </select>
+                        </td>
+                        <td className="py-1 text-right">
+                          <button onClick={() => onChangeItems(items.filter(i => i.id !== item.id))} className="text-slate-500 hover:text-red-400" title="Delete">x</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {schoolItems.length > 0 && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-[11px] text-slate-400">
+                {!rec.fromLedger && (
+                  <span>
+                    {formatCurrency(rec.ledger)} approved of the reported {formatCurrency(school.budget.capexBuildout)} —{' '}
+                    <span className="text-amber-400">{formatCurrency(rec.unallocated)} unallocated</span>
+                  </span>
+                )}
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={completeSchoolIds.includes(school.id)}
+                    onChange={(e) => setComplete(school.id, e.target.checked)}
+                  />
+                  Ledger complete — replaces the reported buildout
+                </label>
+              </div>
+            )}
+            {schools.length === 1 && (
+              <button onClick={() => add(school.id)} className="mt-2 text-xs text-blue-400 hover:text-blue-300 font-medium">+ Add line item</button>
+            )}
+          </div>
+        );
+      })}
+
+      {schools.length > 1 && (
+        <select value="" onChange={(e) => e.target.value && add(e.target.value)} className={inputClass}>
+          <option value="">+ Add line item for…</option>
+          {schools.map(s => (<option key={s.id} value={s.id}>{s.displayName}</option>))}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+/**
+ * Cash Flow tab — 24-month portfolio cash forecast for the filtered schools.
+ *
+ * Tuition collections against rent, operating costs and capex draws, with the
+ * cumulative position and the trough month. Assumptions are saved in the browser.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend, ResponsiveContainer,
+} from 'recharts';
+import type { SchoolData, StaffingModel } from '../data/facilitiesCapexData';
+import type { CapexLineItem } from '../data/capexProjects';
+import {
+  defaultCashFlowAssumptions,
+  forecastCashFlow,
+  FORECAST_MONTHS,
+  type CashFlowAssumptions,
+  type TuitionPaymentPlan,
+} from '../data/cashFlowForecast';
+import type { LeaseRecord } from '../data/leaseSchedule';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatMonth = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+};
+
+const MonthSelect: React.FC<{ label: string; value: number; onChange: (v: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={inputClass}>
+      {monthNames.map((name, i) => (<option key={name} value={i + 1}>{name}</option>))}
+    </select>
+  </label>
+);
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; max?: number; onChange: (v: number) => void }> = ({ label, value, step = 1, max, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <input
+      type="number"
+      min={0}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className={`${inputClass} w-20`}
+    />
+  </label>
+);
+
+export const CashFlowTab: React.FC<{
+  schools: SchoolData[];
+  leaseRecords: LeaseRecord[];
+  capexLedger: CapexLineItem[];
+  staffingModel: StaffingModel;
+  assumptions: CashFlowAssumptions;
+  onChangeAssumptions: (assumptions: CashFlowAssumptions) => void;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, leaseRecords, capexLedger, staffingModel, assumptions, onChangeAssumptions, onSelectSchool }) => {
+  const forecast = useMemo(
+    () => forecastCashFlow(schools, leaseRecords, capexLedger, assumptions, staffingModel),
+    [schools, leaseRecords, capexLedger, assumptions, staffingModel],
+  );
+
+  const update = (patch: Partial<CashFlowAssumptions>) => onChangeAssumptions({ ...assumptions, ...patch });
+  const updatePlan = (patch: Partial<TuitionPaymentPlan>) => update({ paymentPlan: { ...assumptions.paymentPlan, ...patch } });
+  const toggleInstallment = (month: number) => {
+    const months = assumptions.paymentPlan.installmentMonths;
+    updatePlan({ installmentMonths: months.includes(month) ? months.filter(m => m !== month) : [...months, month] });
+  };
+
+  // Outflows plotted below zero so the bars read as cash in vs cash out
+  const chartData = forecast.months.map(m => ({
+    label: formatMonth(m.month),
+    tuition: m.tuition,
+    rent: -m.rent,
+    operating: -m.operating,
+    capex: -m.capex,
+    cumulative: m.cumulative,
+  }));
+  const cashOut = forecast.totals.rent + forecast.totals.operating + forecast.totals.capex;
+  const rows = forecast.bySchool
+    .map(flow => ({ flow, school: schools.find(s => s.id === flow.schoolId)! }))
+    .sort((a, b) => a.flow.net - b.flow.net);
+
+  if (schools.length === 0) {
+    return <div className="text-sm text-slate-400">No schools match the current filters.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-green-300 font-medium">Tuition Collected</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(forecast.totals.tuition)}</div>
+          <div className="text-[10px] text-green-400">next {FORECAST_MONTHS} months</div>
+        </div>
+        <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-amber-300 font-medium">Cash Out</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(cashOut)}</div>
+          <div className="text-[10px] text-amber-400">rent {formatCurrency(forecast.totals.rent)} | capex {formatCurrency(forecast.totals.capex)}</div>
+        </div>
+        <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-red-400 font-medium">Trough</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(forecast.troughCumulative)}</div>
+          <div className="text-[10px] text-red-400">{forecast.troughCumulative < 0 ? formatMonth(forecast.troughMonth) : 'never below today'}</div>
+        </div>
+        <div className={`${forecast.endingCumulative < 0 ? 'bg-red-900/30 border-red-700' : 'bg-blue-900/30 border-blue-700'} border rounded-lg p-3 text-center`}>
+          <div className="text-xs text-blue-300 font-medium">Cumulative at {formatMonth(forecast.months[forecast.months.length - 1].month)}</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(forecast.endingCumulative)}</div>
+        </div>
+      </div>
+
+      {/* Assumptions */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+          <h3 className="font-semibold">Cash Assumptions</h3>
+          <button onClick={() => onChangeAssumptions(defaultCashFlowAssumptions)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">Reset</button>
+        </div>
+        <div className="p-5 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <NumberField label="Deposit %" value={assumptions.paymentPlan.depositPct} step={5} max={100} onChange={(v) => updatePlan({ depositPct: Math.min(v, 100) })} />
+            <MonthSelect label="Deposit month" value={assumptions.paymentPlan.depositMonth} onChange={(v) => updatePlan({ depositMonth: v })} />
+            <NumberField label="Collection rate %" value={assumptions.collectionRatePct} max={100} onChange={(v) => update({ collectionRatePct: Math.min(v, 100) })} />
+            <MonthSelect label="School year starts" value={assumptions.schoolYearStartMonth} onChange={(v) => update({ schoolYearStartMonth: v })} />
+            <NumberField label="Capex draw months" value={assumptions.capexDrawMonths} onChange={(v) => update({ capexDrawMonths: Math.max(1, Math.round(v)) })} />
+          </div>
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Installment months (balance split evenly)</div>
+            <div className="flex flex-wrap gap-1">
+              {monthNames.map((name, i) => {
+                const on = assumptions.paymentPlan.installmentMonths.includes(i + 1);
+                return (
+                  <button
+                    key={name}
+                    onClick={() => toggleInstallment(i + 1)}
+                    className={`px-2 py-1 rounded text-xs border ${on ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            Pre-opening schools open at the next school-year start on their ramp curve and draw unspent buildout over the months before opening.
+            Operating schools draw approved ledger commitments not yet invoiced. Depreciation is non-cash and excluded.
+          </p>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white">
+          <h3 className="font-semibold">Monthly Cash Flow — Next {FORECAST_MONTHS} Months</h3>
+        </div>
+        <div className="p-5">
+          <ResponsiveContainer width="100%" height={340}>
+            <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+              <YAxis tickFormatter={(v) => `$${(v / 1000000).toFixed(1)}M`} tick={{ fontSize: 10, fill: '#94a3b8' }} width={60} />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <ReferenceLine y={0} stroke="#64748b" />
+              {forecast.troughCumulative < 0 && (
+                <ReferenceLine x={formatMonth(forecast.troughMonth)} stroke="#ef4444" strokeDasharray="4 3" label={{ value: 'Trough', fill: '#f87171', fontSize: 10 }} />
+              )}
+              <Bar dataKey="tuition" name="Tuition" stackId="cash" fill="#22c55e" />
+              <Bar dataKey="rent" name="Rent" stackId="cash" fill="#1e40af" />
+              <Bar dataKey="operating" name="Operating" stackId="cash" fill="#64748b" />
+              <Bar dataKey="capex" name="Capex" stackId="cash" fill="#dc2626" />
+              <Line type="monotone" dataKey="cumulative" name="Cumulative" stroke="#f59e0b" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* By school */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white">
+          <h3 className="font-semibold">By School — {FORECAST_MONTHS}-Month Totals</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50 text-slate-400">
+                <th className="px-4 py-2 text-left font-medium">School</th>
+                <th className="px-4 py-2 text-right font-medium">Tuition</th>
+                <th className="px-4 py-2 text-right font-medium">Rent</th>
+                <th className="px-4 py-2 text-right font-medium">Operating</th>
+                <th className="px-4 py-2 text-right font-medium">Capex</th>
+                <th className="px-4 py-2 text-right font-medium">Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ flow, school }) => (
+                <tr key={flow.schoolId} className="border-b border-slate-700/30 hover:bg-slate-700/40 cursor-pointer" onClick={() => onSelectSchool(school)}>
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-slate-200">{school.displayName}</div>
+                    {flow.openingMonth && <div className="text-[11px] text-slate-500">Opens {formatMonth(flow.openingMonth)}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-200">{formatCurrency(flow.tuition)}</td>
+                  <td className="px-4 py-2 text-right text-slate-300">{formatCurrency(flow.rent)}</td>
+                  <td className="px-4 py-2 text-right text-slate-300">{formatCurrency(flow.operating)}</td>
+                  <td className="px-4 py-2 text-right text-slate-300">{flow.capex > 0 ? formatCurrency(flow.capex) : '—'}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${flow.net < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(flow.net)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="px-4 py-2 text-white">Total</td>
+                <td className="px-4 py-2 text-right text-white">{formatCurrency(forecast.totals.tuition)}</td>
+                <td className="px-4 py-2 text-right text-white">{formatCurrency(forecast.totals.rent)}</td>
+                <td className="px-4 py-2 text-right text-white">{formatCurrency(forecast.totals.operating)}</td>
+                <td className="px-4 py-2 text-right text-white">{formatCurrency(forecast.totals.capex)}</td>
+                <td className={`px-4 py-2 text-right ${forecast.totals.net < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(forecast.totals.net)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+/**
+ * Close / consolidate simulator — the follow-up to an "At Risk" verdict.
+ *
+ * Pick schools to close, a closing month for each and, optionally, a share of
+ * their students to move to a receiving school. Shows what closing saves, what
+ * stays on the books (lease and depreciation), the revenue that leaves with the
+ * students, and the portfolio before/after. The plan is saved in the browser.
+ */
+
+import React, { useMemo } from 'react';
+import { defaultClosure, simulateClosures, type SchoolClosure } from '../data/closureSimulation';
+import {
+  formatPeriodLabel,
+  type ExpensePresetRef,
+  type SchoolData,
+  type TargetPolicy,
+} from '../data/facilitiesCapexData';
+import type { FixedAsset } from '../data/fixedAssets';
+import type { LeaseRecord } from '../data/leaseSchedule';
+import { formatCurrency, HealthBadge, PortfolioImpactTable } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+export const ClosureSimulator: React.FC<{
+  schools: SchoolData[];
+  closures: SchoolClosure[];
+  leaseRecords: LeaseRecord[];
+  assetRegister: FixedAsset[];
+  preset: ExpensePresetRef;
+  targetPolicy: TargetPolicy;
+  onChangeClosures: (closures: SchoolClosure[]) => void;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, closures, leaseRecords, assetRegister, preset, targetPolicy, onChangeClosures, onSelectSchool }) => {
+  const sim = useMemo(
+    () => simulateClosures(schools, closures, leaseRecords, assetRegister, preset, targetPolicy),
+    [schools, closures, leaseRecords, assetRegister, preset, targetPolicy],
+  );
+
+  const byId = new Map(schools.map(s => [s.id, s]));
+  const closedIds = new Set(closures.map(c => c.schoolId));
+  // At Risk schools first — they are the ones this is for
+  const candidates = schools
+    .filter(s => !closedIds.has(s.id))
+    .sort((a, b) => Number(b.healthScore === 'red') - Number(a.healthScore === 'red') || a.displayName.localeCompare(b.displayName));
+  const receivers = schools.filter(s => !closedIds.has(s.id));
+
+  const update = (schoolId: string, patch: Partial<SchoolClosure>) =>
+    onChangeClosures(closures.map(c => (c.schoolId === schoolId ? { ...c, ...patch } : c)));
+
+  const hidden = closures.length - sim.closed.length;
+
+  return (
+    <div className="table-card rounded-xl overflow-hidden">
+      <div className="px-5 py-4 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-white">Close / Consolidate Simulator</h2>
+          <p className="text-xs text-slate-300 mt-0.5">Close schools at a chosen month and move some of their students to a receiving school.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChangeClosures([...closures, defaultClosure(e.target.value)])}
+            className={inputClass}
+          >
+            <option value="">+ Close a school…</option>
+            {candidates.map(s => (
+              <option key={s.id} value={s.id}>{s.displayName}{s.healthScore === 'red' ? ` (${s.healthVerdict})` : ''}</option>
+            ))}
+          </select>
+          {closures.length > 0 && (
+            <button onClick={() => onChangeClosures([])} className="text-xs text-slate-400 hover:text-red-400">Clear</button>
+          )}
+        </div>
+      </div>
+
+      {sim.closed.length === 0 ? (
+        <div className="px-5 py-6 text-sm text-slate-400">
+          No closures planned{hidden > 0 ? ` in this view (${hidden} hidden by the current filters)` : ''} — pick a school above, or use "Simulate closure" on an At Risk school.
+        </div>
+      ) : (
+        <div className="p-5 space-y-6">
+          {hidden > 0 && (
+            <p className="text-xs text-amber-400">{hidden} planned {hidden === 1 ? 'closure is' : 'closures are'} outside the current filters and not included.</p>
+          )}
+
+          {/* Closures */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-700/50">
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">School</th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">Health</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Students</th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">Close</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Transfer %</th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">Receiving School</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Moving</th>
+                  <th className="px-2 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sim.closed.map(c => {
+                  const school = byId.get(c.schoolId)!;
+                  const closure = closures.find(x => x.schoolId === c.schoolId)!;
+                  return (
+                    <tr key={c.schoolId} className="border-b border-slate-700/30">
+                      <td className="px-2 py-1.5">
+                        <button onClick={() => onSelectSchool(school)} className="text-left text-slate-100 font-medium hover:text-blue-300">{c.displayName}</button>
+                      </td>
+                      <td className="px-2 py-1.5"><HealthBadge score={school.healthScore} verdict={school.healthVerdict} /></td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{c.enrollment}</td>
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="month"
+                          value={closure.closeMonth}
+                          onChange={(e) => e.target.value && update(c.schoolId, { closeMonth: e.target.value })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={closure.transferPct}
+                          onChange={(e) => update(c.schoolId, { transferPct: Math.min(Math.max(Number(e.target.value) || 0, 0), 100) })}
+                          className={`${inputClass} w-16 text-right`}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <select
+                          value={c.receivingSchoolId ?? ''}
+                          onChange={(e) => update(c.schoolId, { receivingSchoolId: e.target.value || null })}
+                          className={inputClass}
+                        >
+                          <option value="">— none —</option>
+                          {receivers.map(s => (
+                            <option key={s.id} value={s.id}>{s.displayName} ({Math.max(s.capacity - s.currentEnrollment, 0)} open seats)</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{c.transferredStudents}</td>
+                      <td className="px-2 py-1.5 text-right">
+                        <button onClick={() => onChangeClosures(closures.filter(x => x.schoolId !== c.schoolId))} className="text-slate-400 hover:text-red-400">Remove</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* KPIs */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-green-300 font-medium">Saved Controllable</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(sim.savedControllable)}</div>
+              <div className="text-[10px] text-green-400">per year</div>
+            </div>
+            <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-amber-300 font-medium">Remaining Sunk</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(sim.remainingSunkLease + sim.remainingSunkDepreciation)}</div>
+              <div className="text-[10px] text-amber-400">{formatCurrency(sim.remainingSunkLease)} lease + {formatCurrency(sim.remainingSunkDepreciation)} depr. / yr</div>
+            </div>
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-red-400 font-medium">Exit Obligation</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(sim.exitObligation)}</div>
+              <div className="text-[10px] text-red-400">lease owed after closing + capex write-off</div>
+            </div>
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-red-400 font-medium">Lost Revenue</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(sim.netLostRevenue)}</div>
+              <div className="text-[10px] text-red-400">{formatCurrency(sim.lostRevenue)} gross, {formatCurrency(sim.retainedRevenue)} retained</div>
+            </div>
+            <div className={`${sim.netAnnualImpact >= 0 ? 'bg-green-900/30 border-green-700' : 'bg-red-900/30 border-red-700'} border rounded-lg p-3 text-center`}>
+              <div className={`text-xs font-medium ${sim.netAnnualImpact >= 0 ? 'text-green-300' : 'text-red-400'}`}>Net Annual Impact</div>
+              <div className="text-lg font-bold text-white">{sim.netAnnualImpact >= 0 ? '+' : '-'}{formatCurrency(Math.abs(sim.netAnnualImpact))}</div>
+              <div className="text-[10px] text-slate-400">savings - added costs - lost revenue</div>
+            </div>
+          </div>
+
+          {/* Sunk costs per closed school */}
+          <div>
+            <h4 className="font-semibold text-white mb-2">What Stays on the Books</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-700/50">
+                    <th className="px-2 py-2 text-left text-slate-400 font-medium">School</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Saved / yr</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Lease / yr</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Depr. / yr</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Lease Owed After Close</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">CapEx Write-off</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Lost Revenue / yr</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sim.closed.map(c => (
+                    <tr key={c.schoolId} className="border-b border-slate-700/30">
+                      <td className="px-2 py-1.5 text-slate-200">
+                        {c.displayName}
+                        <div className="text-[10px] text-slate-500">closes {formatPeriodLabel(c.closeMonth)}</div>
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-green-400">{formatCurrency(c.savedControllable)}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(c.sunkLease)}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(c.sunkDepreciation)}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">
+                        {formatCurrency(c.exit.lease.total)}
+                        <div className="text-[10px] text-slate-500">
+                          {c.exit.lease.viaClause ? `termination clause, out ${formatPeriodLabel(c.exit.lease.exitMonth)}` : `through ${formatPeriodLabel(c.exit.lease.exitMonth)}`}
+                          {c.assumedLease && <span className="text-amber-400"> · assumed lease</span>}
+                        </div>
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(c.exit.unamortizedCapex)}</td>
+                      <td className="px-2 py-1.5 text-right text-red-400">
+                        {formatCurrency(c.lostRevenue)}
+                        {c.transferredStudents > 0 && <div className="text-[10px] text-slate-500">{c.transferredStudents} students move</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Receiving schools */}
+          {sim.receiving.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-white mb-2">Receiving Schools</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-slate-700/50">
+                      <th className="px-2 py-2 text-left text-slate-400 font-medium">School</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">Capacity</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">Before</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">Incoming</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">After</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">Added Costs / yr</th>
+                      <th className="px-2 py-2 text-right text-slate-400 font-medium">Revenue Retained / yr</th>
+                      <th className="px-2 py-2 text-left text-slate-400 font-medium">Health After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sim.receiving.map(r => (
+                      <tr key={r.schoolId} className={`border-b border-slate-700/30 ${r.seatsOver > 0 ? 'bg-red-900/20' : ''}`}>
+                        <td className="px-2 py-1.5 text-slate-200">{r.displayName}</td>
+                        <td className="px-2 py-1.5 text-right text-slate-300">{r.capacity}</td>
+                        <td className="px-2 py-1.5 text-right text-slate-300">{r.enrollmentBefore}</td>
+                        <td className="px-2 py-1.5 text-right text-blue-400">+{r.incomingStudents}</td>
+                        <td className={`px-2 py-1.5 text-right font-medium ${r.seatsOver > 0 ? 'text-red-400' : 'text-white'}`}>
+                          {r.enrollmentAfter}
+                          {r.seatsOver > 0 && <div className="text-[10px]">{r.seatsOver} over capacity</div>}
+                        </td>
+                        <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(r.addedCosts)}</td>
+                        <td className="px-2 py-1.5 text-right text-green-400">{formatCurrency(r.revenueGained)}</td>
+                        <td className="px-2 py-1.5"><HealthBadge score={r.rebuilt.healthScore} verdict={r.rebuilt.healthVerdict} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {sim.overCapacity && (
+                <p className="text-xs text-red-400 mt-2">&#9888; A receiving school exceeds its capacity — lower the transfer % or split the students across schools.</p>
+              )}
+            </div>
+          )}
+
+          {/* Portfolio before/after */}
+          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+            <h4 className="font-semibold text-white mb-3">Portfolio Impact</h4>
+            <PortfolioImpactTable before={sim.before} after={sim.after} afterLabel="After Closures" />
+            <p className="text-xs text-slate-500 mt-2">
+              Annual run-rate. Receiving schools' lines re-split at their new enrollment using the active expense preset; the closed schools' lease and depreciation leave the portfolio view but are still owed as shown above.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
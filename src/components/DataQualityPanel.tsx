@@ -0,0 +1,156 @@
+/**
+ * Data Quality panel — reconciliation results for the loaded raw data.
+ *
+ * Lists every school whose rows don't reconcile (line items vs totals,
+ * negative depreciation, model W + X vs Y) and by how much. Tolerances are
+ * adjustable so rounding noise can be separated from real errors.
+ */
+
+import React, { useState } from 'react';
+import {
+  discrepancyKindLabels,
+  type ReconciliationReport,
+  type ReconciliationTolerance,
+} from '../data/reconciliation';
+
+// Exact dollars — shared formatCurrency rounds to $K, which hides small reconciliation gaps
+const formatDollars = (value: number): string => {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(Math.round(value)).toLocaleString()}`;
+};
+
+export const DataQualityButton: React.FC<{
+  report: ReconciliationReport;
+  open: boolean;
+  onToggle: () => void;
+}> = ({ report, open, onToggle }) => {
+  const failing = report.failing.length;
+  return (
+    <button
+      onClick={onToggle}
+      className={`border rounded px-2 py-1.5 text-xs ${
+        failing === 0
+          ? 'border-slate-600 bg-slate-700 text-green-400 hover:bg-slate-600'
+          : report.errorCount > 0
+            ? 'border-red-700 bg-red-900/40 text-red-300 hover:bg-red-900/60'
+            : 'border-amber-700 bg-amber-900/40 text-amber-300 hover:bg-amber-900/60'
+      } ${open ? 'ring-1 ring-slate-400' : ''}`}
+      title="Reconcile raw rows: line items vs totals, depreciation, model W + X = Y"
+    >
+      {failing === 0 ? 'Data Quality ✓' : `Data Quality: ${failing} school${failing === 1 ? '' : 's'} failing`}
+    </button>
+  );
+};
+
+export const DataQualityPanel: React.FC<{
+  report: ReconciliationReport;
+  onToleranceChange: (tolerance: ReconciliationTolerance) => void;
+  onSelectSchool: (schoolId: string) => void;
+  onClose: () => void;
+}> = ({ report, onToleranceChange, onSelectSchool, onClose }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { tolerance } = report;
+
+  return (
+    <div className="table-card overflow-hidden mb-6">
+      <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Data Quality — Reconciliation</h3>
+          <p className="text-xs text-slate-300 mt-0.5">
+            {report.rowsChecked} rows across {report.schoolsChecked} schools | {report.failing.length} failing | {report.errorCount} errors, {report.warningCount} warnings
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-300">
+          <label className="flex items-center gap-1">
+            Tolerance $
+            <input
+              type="number"
+              min={0}
+              value={tolerance.absolute}
+              onChange={(e) => onToleranceChange({ ...tolerance, absolute: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-16 border border-slate-600 rounded px-1.5 py-1 bg-slate-700 text-white"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            or
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={+(tolerance.relative * 100).toFixed(2)}
+              onChange={(e) => onToleranceChange({ ...tolerance, relative: Math.max(0, Number(e.target.value) || 0) / 100 })}
+              className="w-14 border border-slate-600 rounded px-1.5 py-1 bg-slate-700 text-white"
+            />
+            %
+          </label>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none px-2 py-1 rounded hover:bg-slate-700">x</button>
+        </div>
+      </div>
+
+      {report.failing.length === 0 ? (
+        <div className="px-5 py-4 text-sm text-green-400">
+          All {report.schoolsChecked} schools reconcile within {formatDollars(tolerance.absolute)} / {(tolerance.relative * 100).toFixed(1)}%.
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-700/50">
+              <th className="px-5 py-2 text-left text-slate-400 font-medium">School</th>
+              <th className="px-3 py-2 text-left text-slate-400 font-medium">Issues</th>
+              <th className="px-3 py-2 text-right text-slate-400 font-medium">Largest Gap</th>
+              <th className="px-5 py-2 text-right text-slate-400 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.failing.map((school) => {
+              const isOpen = expanded === school.schoolId;
+              const errors = school.discrepancies.filter(d => d.severity === 'error').length;
+              return (
+                <React.Fragment key={school.schoolId}>
+                  <tr
+                    className="border-b border-slate-700/30 hover:bg-slate-800/50 cursor-pointer"
+                    onClick={() => setExpanded(isOpen ? null : school.schoolId)}
+                  >
+                    <td className="px-5 py-2 text-slate-200">
+                      <span className="text-slate-500 mr-1">{isOpen ? '▾' : '▸'}</span>
+                      {school.displayName}
+                    </td>
+                    <td className="px-3 py-2">
+                      {errors > 0 && <span className="text-red-400 mr-2">{errors} error{errors === 1 ? '' : 's'}</span>}
+                      {school.discrepancies.length - errors > 0 && (
+                        <span className="text-amber-400">{school.discrepancies.length - errors} warning{school.discrepancies.length - errors === 1 ? '' : 's'}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-red-400">{formatDollars(school.largestDifference)}</td>
+                    <td className="px-5 py-2 text-right">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onSelectSchool(school.schoolId); }}
+                        className="text-xs text-blue-400 hover:text-blue-300 font-medium"
+                      >
+                        Open school
+                      </button>
+                    </td>
+                  </tr>
+                  {isOpen && school.discrepancies.map((d, idx) => (
+                    <tr key={idx} className="border-b border-slate-700/30 bg-slate-800/30 text-xs">
+                      <td className="pl-10 pr-3 py-1.5 text-slate-400">{d.period ?? 'Year-end'}</td>
+                      <td className={`px-3 py-1.5 ${d.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+                        {discrepancyKindLabels[d.kind]}
+                        <div className="text-slate-400 mt-0.5">{d.message}</div>
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-slate-200">
+                        {d.difference > 0 ? '+' : ''}{formatDollars(d.difference)}
+                        {d.expected !== 0 && <span className="text-slate-500"> ({d.differencePct > 0 ? '+' : ''}{d.differencePct.toFixed(1)}%)</span>}
+                      </td>
+                      <td className="px-5 py-1.5 text-right text-slate-500">{d.field}</td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
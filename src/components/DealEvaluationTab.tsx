@@ -0,0 +1,299 @@
+/**
+ * Deal Evaluation tab — lease, buildout and exit for a prospective site.
+ *
+ * Enrollment scenarios run through full unit economics with the live staffing
+ * model, and the deal is added to the portfolio to show how the summary
+ * metrics move before anything is signed. Deals can be saved to the pipeline
+ * and reopened later.
+ */
+
+import React, { useState } from 'react';
+import {
+  schoolTypeLabels,
+  type SchoolData,
+  type SchoolType,
+  type StaffingModel,
+  type TargetPolicy,
+} from '../data/facilitiesCapexData';
+import {
+  dealScenarioUtilizations,
+  defaultDealInputs,
+  evaluateDeal,
+  type DealInputs,
+  type DealRecord,
+  type DealVerdict,
+} from '../data/dealEvaluation';
+import { DealPipeline } from './DealPipeline';
+import { formatCurrency, PortfolioImpactTable } from './shared';
+
+const inputClass = 'w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white';
+
+const numberFields: { key: Exclude<keyof DealInputs, 'name' | 'schoolType' | 'impactUtilizationPct'>; label: string; step: number; min: number }[] = [
+  { key: 'leaseAmount', label: 'Annual Lease', step: 10000, min: 0 },
+  { key: 'tuition', label: 'Tuition', step: 5000, min: 0 },
+  { key: 'capacity', label: 'Capacity (seats)', step: 5, min: 1 },
+  { key: 'sqft', label: 'Sq Ft', step: 500, min: 0 },
+  { key: 'fixedFacilitiesPct', label: 'Other Fixed (% of lease)', step: 5, min: 0 },
+  { key: 'variableCostPerStudent', label: 'Variable $/Student', step: 250, min: 0 },
+  { key: 'capexBuildout', label: 'CapEx Buildout', step: 25000, min: 0 },
+  { key: 'amortYears', label: 'Amort. Years', step: 1, min: 1 },
+  { key: 'leaseTerm', label: 'Lease Term (yrs)', step: 1, min: 1 },
+  { key: 'earlyWalkYears', label: 'Early Walk (yrs)', step: 1, min: 0 },
+];
+
+const verdictStyles: Record<DealVerdict, string> = {
+  'At Target': 'bg-green-900/40 text-green-300',
+  'Acceptable': 'bg-blue-900/40 text-blue-300',
+  'Warning': 'bg-amber-900/40 text-amber-300',
+  'Too High': 'bg-red-900/40 text-red-300',
+};
+
+export const DealEvaluationTab: React.FC<{
+  schools: SchoolData[];
+  staffingModel: StaffingModel;
+  targetPolicy: TargetPolicy;
+  deals: DealRecord[];
+  onChangeDeals: (deals: DealRecord[]) => void;
+  promotedDealIds: string[];
+  onPromote: (deal: DealRecord) => void;
+}> = ({ schools, staffingModel, targetPolicy, deals, onChangeDeals, promotedDealIds, onPromote }) => {
+  // Default variable $/student to what operating schools actually spend
+  const portfolioVariablePerStudent = (() => {
+    const operating = schools.filter(s => s.isOperating && s.currentEnrollment > 0);
+    const enrolled = operating.reduce((s, sc) => s + sc.currentEnrollment, 0);
+    const variable = operating.reduce((s, sc) => s + sc.costs.variableFacilities.total + sc.costs.studentServices.total, 0);
+    return enrolled > 0 ? Math.round(variable / enrolled / 50) * 50 : defaultDealInputs.variableCostPerStudent;
+  })();
+
+  const [inputs, setInputs] = useState<DealInputs>(() => ({ ...defaultDealInputs, variableCostPerStudent: portfolioVariablePerStudent }));
+  const [activeDealId, setActiveDealId] = useState<string | null>(null);
+  const update = (patch: Partial<DealInputs>) => setInputs(prev => ({ ...prev, ...patch }));
+
+  const activeDeal = deals.find(d => d.id === activeDealId) ?? null;
+  const isDirty = !activeDeal || (Object.keys(inputs) as (keyof DealInputs)[]).some(k => inputs[k] !== activeDeal[k]);
+
+  const saveDeal = (asNew: boolean) => {
+    const savedAt = new Date().toISOString();
+    if (activeDeal && !asNew) {
+      onChangeDeals(deals.map(d => (d.id === activeDeal.id ? { ...inputs, id: d.id, savedAt } : d)));
+      return;
+    }
+    const id = `deal-${Date.now().toString(36)}`;
+    onChangeDeals([...deals, { ...inputs, name: inputs.name.trim() || `Deal ${deals.length + 1}`, id, savedAt }]);
+    if (!inputs.name.trim()) update({ name: `Deal ${deals.length + 1}` });
+    setActiveDealId(id);
+  };
+
+  const loadDeal = (deal: DealRecord) => {
+    const { id, savedAt: _savedAt, ...dealInputs } = deal;
+    setInputs(dealInputs);
+    setActiveDealId(id);
+  };
+
+  const newDeal = () => {
+    setInputs({ ...defaultDealInputs, variableCostPerStudent: portfolioVariablePerStudent });
+    setActiveDealId(null);
+  };
+
+  const deleteDeal = (id: string) => {
+    onChangeDeals(deals.filter(d => d.id !== id));
+    if (id === activeDealId) setActiveDealId(null);
+  };
+
+  const deal = evaluateDeal(inputs, schools, staffingModel, targetPolicy);
+  const { portfolioBefore: before, portfolioAfter: after } = deal;
+  const capacity = Math.max(inputs.capacity, 1);
+
+  return (
+    <>
+      <DealPipeline
+        deals={deals}
+        schools={schools}
+        staffingModel={staffingModel}
+        targetPolicy={targetPolicy}
+        activeDealId={activeDealId}
+        promotedDealIds={promotedDealIds}
+        onLoad={loadDeal}
+        onDelete={deleteDeal}
+        onPromote={onPromote}
+      />
+
+      <div className="table-card rounded-xl overflow-hidden mb-6">
+        <div className="px-5 py-4 bg-slate-800">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-bold text-slate-100 text-lg">Deal Evaluation</h3>
+              <p className="text-sm text-slate-300 mt-0.5">
+                Before signing: What does this deal cost the portfolio? What&apos;s the exit?
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-slate-500">Andy rule: no lease without a model</span>
+              <button onClick={newDeal} className="text-xs text-blue-400 hover:text-blue-300 font-medium">New deal</button>
+              {activeDeal && (
+                <button onClick={() => saveDeal(true)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">Save as new</button>
+              )}
+              <button
+                onClick={() => saveDeal(false)}
+                disabled={!isDirty}
+                className="text-xs px-3 py-1.5 rounded bg-blue-600 text-white font-medium hover:bg-blue-500 disabled:opacity-40"
+              >
+                {activeDeal ? (isDirty ? 'Save changes' : 'Saved') : 'Save to pipeline'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-5">
+          {/* Deal name + type */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-5">
+            <div className="md:col-span-3">
+              <label className="block text-xs font-medium text-slate-400 mb-1">Deal Name / Address</label>
+              <input type="text" value={inputs.name} onChange={(e) => update({ name: e.target.value })} className={`${inputClass} font-medium`} placeholder="e.g. Boca Raton — 2200 NW 5th Ave" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">School Type</label>
+              <select value={inputs.schoolType} onChange={(e) => update({ schoolType: e.target.value as SchoolType })} className={inputClass}>
+                {Object.entries(schoolTypeLabels).map(([key, label]) => (<option key={key} value={key}>{label}</option>))}
+              </select>
+            </div>
+          </div>
+
+          {/* Input grid */}
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-4 mb-6">
+            {numberFields.map(f => (
+              <div key={f.key}>
+                <label className="block text-xs text-slate-400 mb-1">{f.label}</label>
+                <input
+                  type="number"
+                  value={inputs[f.key]}
+                  onChange={(e) => update({ [f.key]: Math.max(f.min, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                  step={f.step}
+                  min={f.min}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Commitment & Risk KPIs */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+            <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-blue-300 font-medium">Annual Fixed Cost</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(deal.totalFixed)}</div>
+              <div className="text-[10px] text-blue-300">lease + other fixed + depreciation</div>
+            </div>
+            <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-amber-300 font-medium">Total Commitment</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(deal.totalCommitment)}</div>
+              <div className="text-[10px] text-amber-400">{inputs.leaseTerm}yr lease + buildout</div>
+            </div>
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-red-400 font-medium">Early Walk Exposure</div>
+              <div className="text-lg font-bold text-white">{formatCurrency(deal.earlyWalkExposure)}</div>
+              <div className="text-[10px] text-red-400">{inputs.earlyWalkYears}yr lease + buildout</div>
+            </div>
+            <div className="bg-slate-800/60 border border-slate-600 rounded-lg p-3 text-center">
+              <div className="text-xs text-slate-300 font-medium">Lease / Sq Ft</div>
+              <div className="text-lg font-bold text-white">${Math.round(deal.leasePerSqft)}</div>
+              <div className="text-[10px] text-slate-400">Portfolio avg: ${Math.round(before.avgLeasePerSqft)}</div>
+            </div>
+            <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 text-center">
+              <div className="text-xs text-green-400 font-medium">Break-Even</div>
+              <div className="text-lg font-bold text-white">{Number.isFinite(deal.breakEvenStudents) ? `${deal.breakEvenStudents} students` : 'Never'}</div>
+              <div className={`text-[10px] ${deal.canReachTarget ? 'text-green-400' : 'text-red-400'}`}>
+                for {deal.targetPct}% target | {deal.canReachTarget ? 'Achievable' : 'EXCEEDS CAPACITY'}
+              </div>
+              <div className="text-[10px] text-slate-400">
+                Full margin ≥ 0: {deal.marginBreakEvenStudents !== null ? `${deal.marginBreakEvenStudents} students` : 'not within 150% of capacity'}
+              </div>
+            </div>
+          </div>
+
+          {/* Enrollment Scenarios — full unit economics */}
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-800">
+                <tr>
+                  <th className="px-3 py-2 text-left text-slate-400 font-medium">Enrollment</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Revenue</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Fac $/Student</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Fac % Tuition</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Staffing</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Facilities + CapEx</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Programs / Misc / TB</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Margin</th>
+                  <th className="px-3 py-2 text-right text-slate-400 font-medium">Margin %</th>
+                  <th className="px-3 py-2 text-left text-slate-400 font-medium">Verdict</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {deal.scenarios.map((s) => {
+                  const ue = s.unitEconomics;
+                  return (
+                    <tr key={s.utilizationPct}>
+                      <td className="px-3 py-2 text-slate-200">{s.students} ({s.utilizationPct}%)</td>
+                      <td className="px-3 py-2 text-right text-green-400">{formatCurrency(s.revenue)}</td>
+                      <td className="px-3 py-2 text-right text-slate-200">{formatCurrency(s.costPerStudent)}</td>
+                      <td className="px-3 py-2 text-right font-medium text-slate-100">{s.facilitiesPctOfTuition.toFixed(1)}%</td>
+                      <td className="px-3 py-2 text-right text-slate-300">{formatCurrency(ue.staffing)}</td>
+                      <td className="px-3 py-2 text-right text-slate-300">{formatCurrency(ue.facilities + ue.capexAnnual)}</td>
+                      <td className="px-3 py-2 text-right text-slate-300">{formatCurrency(ue.programs + ue.misc + ue.timeback)}</td>
+                      <td className={`px-3 py-2 text-right font-medium ${ue.margin >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {ue.margin >= 0 ? '+' : ''}{formatCurrency(ue.margin)}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${ue.marginPct >= deal.targetPct ? 'text-green-400' : ue.marginPct >= 0 ? 'text-amber-400' : 'text-red-400'}`}>
+                        {ue.marginPct.toFixed(1)}%
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs ${verdictStyles[s.verdict]}`}>{s.verdict}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-2">
+              Verdict compares facilities (incl. depreciation) to the {deal.targetPct}% target. Margin uses the live staffing model plus programs, misc and Timeback.
+            </p>
+          </div>
+
+          {/* Portfolio Impact */}
+          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-white">Portfolio Impact</h4>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                Deal enrollment
+                <select
+                  value={inputs.impactUtilizationPct}
+                  onChange={(e) => update({ impactUtilizationPct: Number(e.target.value) })}
+                  className="border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white"
+                >
+                  <option value={0}>0 (pre-opening)</option>
+                  {dealScenarioUtilizations.map(pct => (
+                    <option key={pct} value={pct}>{Math.floor(capacity * pct / 100)} ({pct}%)</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <PortfolioImpactTable before={before} after={after} afterLabel="With Deal" />
+
+            {/* Decision Box */}
+            <div className={`mt-4 p-3 rounded-lg border ${deal.canReachTarget ? 'bg-green-900/30 border-green-700' : 'bg-red-900/30 border-red-700'}`}>
+              <div className="font-medium text-sm text-slate-100">
+                {deal.canReachTarget ? (
+                  <>&#9989; This deal can reach the {deal.targetPct}% target at {deal.breakEvenStudents}/{capacity} capacity. Early-walk exposure: {formatCurrency(deal.earlyWalkExposure)}.</>
+                ) : (
+                  <>&#10060; This deal CANNOT reach the {deal.targetPct}% target{Number.isFinite(deal.breakEvenStudents) ? ` — needs ${deal.breakEvenStudents} students but capacity is only ${capacity}` : ' at any enrollment'}. Do not sign without renegotiating lease or reducing scope.</>
+                )}
+              </div>
+              <div className="text-xs text-slate-400 mt-2">
+                Existing portfolio has {before.totalCapacity - before.totalEnrollment} empty seats at {before.avgUtilization.toFixed(0)}% utilization. Consider filling those first.
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * Deal pipeline — saved candidate sites, ranked and compared.
+ *
+ * Deals are saved in the browser from the Deal Evaluation calculator. The list
+ * ranks them on break-even, facilities % at 75% / 100% and early-walk
+ * exposure; tick up to four to compare side by side. Once a deal is signed,
+ * "Add to portfolio" brings it in as an estimated pre-opening school.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  schoolTypeLabels,
+  type SchoolData,
+  type StaffingModel,
+  type TargetPolicy,
+} from '../data/facilitiesCapexData';
+import {
+  dealRankLabels,
+  rankDeals,
+  type DealPipelineRow,
+  type DealRankKey,
+  type DealRecord,
+} from '../data/dealEvaluation';
+import { formatCurrency } from './shared';
+
+const MAX_COMPARE = 4;
+
+const formatBreakEven = (n: number) => (Number.isFinite(n) ? `${n}` : 'Never');
+const formatPct = (n: number) => (Number.isFinite(n) ? `${n.toFixed(1)}%` : '—');
+
+const rankFormat: Record<DealRankKey, (n: number) => string> = {
+  breakEvenStudents: formatBreakEven,
+  facPctAt75: formatPct,
+  facPctAt100: formatPct,
+  earlyWalkExposure: formatCurrency,
+};
+
+// Compare rows; rankKey rows highlight the best deal
+const compareRows: { label: string; value: (r: DealPipelineRow) => string; rankKey?: DealRankKey }[] = [
+  { label: 'School Type', value: r => schoolTypeLabels[r.deal.schoolType] },
+  { label: 'Annual Lease', value: r => formatCurrency(r.deal.leaseAmount) },
+  { label: 'Sq Ft', value: r => r.deal.sqft.toLocaleString() },
+  { label: 'Lease / Sq Ft', value: r => `$${r.evaluation.leasePerSqft.toFixed(2)}` },
+  { label: 'Capacity', value: r => `${r.deal.capacity} seats` },
+  { label: 'Tuition', value: r => formatCurrency(r.deal.tuition) },
+  { label: 'CapEx Buildout', value: r => formatCurrency(r.deal.capexBuildout) },
+  { label: 'Lease Term', value: r => `${r.deal.leaseTerm} yrs` },
+  { label: 'Annual Fixed Cost', value: r => formatCurrency(r.evaluation.totalFixed) },
+  { label: 'Total Commitment', value: r => formatCurrency(r.evaluation.totalCommitment) },
+  { label: 'Target', value: r => `${r.evaluation.targetPct}%` },
+  { label: 'Break-even Students', value: r => formatBreakEven(r.rank.breakEvenStudents), rankKey: 'breakEvenStudents' },
+  { label: 'Fac % at 75%', value: r => formatPct(r.rank.facPctAt75), rankKey: 'facPctAt75' },
+  { label: 'Fac % at 100%', value: r => formatPct(r.rank.facPctAt100), rankKey: 'facPctAt100' },
+  { label: 'Early-Walk Exposure', value: r => formatCurrency(r.rank.earlyWalkExposure), rankKey: 'earlyWalkExposure' },
+  { label: 'Margin at 100%', value: r => formatCurrency(r.evaluation.scenarios[r.evaluation.scenarios.length - 1].unitEconomics.margin) },
+  { label: 'Full-Margin Break-even', value: r => (r.evaluation.marginBreakEvenStudents !== null ? `${r.evaluation.marginBreakEvenStudents}` : '—') },
+];
+
+export const DealPipeline: React.FC<{
+  deals: DealRecord[];
+  schools: SchoolData[];
+  staffingModel: StaffingModel;
+  targetPolicy: TargetPolicy;
+  activeDealId: string | null;
+  promotedDealIds: string[];
+  onLoad: (deal: DealRecord) => void;
+  onDelete: (id: string) => void;
+  onPromote: (deal: DealRecord) => void;
+}> = ({ deals, schools, staffingModel, targetPolicy, activeDealId, promotedDealIds, onLoad, onDelete, onPromote }) => {
+  const [rankBy, setRankBy] = useState<DealRankKey>('breakEvenStudents');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const rows = useMemo(
+    () => rankDeals(deals, schools, rankBy, staffingModel, targetPolicy),
+    [deals, schools, rankBy, staffingModel, targetPolicy],
+  );
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(compareIds.includes(id)
+      ? compareIds.filter(c => c !== id)
+      : compareIds.length < MAX_COMPARE ? [...compareIds, id] : compareIds);
+  };
+
+  const compared = compareIds
+    .map(id => rows.find(r => r.deal.id === id))
+    .filter((r): r is DealPipelineRow => !!r);
+
+  return (
+    <div className="space-y-6 mb-6">
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="font-semibold">Deal Pipeline</h3>
+            <p className="text-xs text-slate-300 mt-0.5">Saved candidate sites, best first. Tick up to {MAX_COMPARE} deals to compare.</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Rank by
+            <select
+              value={rankBy}
+              onChange={(e) => setRankBy(e.target.value as DealRankKey)}
+              className="border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white"
+            >
+              {(Object.keys(dealRankLabels) as DealRankKey[]).map(key => (<option key={key} value={key}>{dealRankLabels[key]}</option>))}
+            </select>
+          </label>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="px-5 py-6 text-sm text-slate-400">No saved deals yet — fill in the calculator below and save it to the pipeline.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-700/50">
+                  <th className="px-3 py-2"></th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">#</th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">Deal</th>
+                  <th className="px-2 py-2 text-left text-slate-400 font-medium">Type</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Lease</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Seats</th>
+                  <th className="px-2 py-2 text-right text-slate-400 font-medium">Tuition</th>
+                  {(Object.keys(dealRankLabels) as DealRankKey[]).map(key => (
+                    <th
+                      key={key}
+                      onClick={() => setRankBy(key)}
+                      className={`px-2 py-2 text-right font-medium cursor-pointer hover:text-white ${rankBy === key ? 'text-white' : 'text-slate-400'}`}
+                    >
+                      {dealRankLabels[key]}{rankBy === key ? ' ▲' : ''}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r, idx) => (
+                  <tr key={r.deal.id} className={`border-b border-slate-700/30 hover:bg-slate-800/50 ${r.deal.id === activeDealId ? 'bg-slate-800/70' : ''}`}>
+                    <td className="px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(r.deal.id)}
+                        disabled={!compareIds.includes(r.deal.id) && compareIds.length >= MAX_COMPARE}
+                        onChange={() => toggleCompare(r.deal.id)}
+                        title="Compare"
+                      />
+                    </td>
+                    <td className="px-2 py-1.5 text-slate-500">{idx + 1}</td>
+                    <td className="px-2 py-1.5">
+                      <button onClick={() => onLoad(r.deal)} className="text-left text-slate-100 font-medium hover:text-blue-300">
+                        {r.deal.name.trim() || 'Untitled deal'}
+                      </button>
+                      <div className="text-[10px] text-slate-500">Saved {new Date(r.deal.savedAt).toLocaleDateString()}</div>
+                    </td>
+                    <td className="px-2 py-1.5 text-slate-300">{schoolTypeLabels[r.deal.schoolType]}</td>
+                    <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(r.deal.leaseAmount)}</td>
+                    <td className="px-2 py-1.5 text-right text-slate-300">{r.deal.capacity}</td>
+                    <td className="px-2 py-1.5 text-right text-slate-300">{formatCurrency(r.deal.tuition)}</td>
+                    {(Object.keys(dealRankLabels) as DealRankKey[]).map(key => (
+                      <td
+                        key={key}
+                        className={`px-2 py-1.5 text-right ${
+                          key === 'breakEvenStudents'
+                            ? (r.evaluation.canReachTarget ? 'text-green-400' : 'text-red-400')
+                            : rankBy === key ? 'text-white font-medium' : 'text-slate-300'
+                        }`}
+                      >
+                        {rankFormat[key](r.rank[key])}
+                      </td>
+                    ))}
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                      <button onClick={() => onLoad(r.deal)} className="text-xs text-blue-400 hover:text-blue-300 font-medium mr-3">Open</button>
+                      {promotedDealIds.includes(r.deal.id) ? (
+                        <span className="text-xs text-amber-400 mr-3">In portfolio</span>
+                      ) : (
+                        <button onClick={() => onPromote(r.deal)} className="text-xs text-blue-400 hover:text-blue-300 font-medium mr-3">Add to portfolio</button>
+                      )}
+                      <button onClick={() => { onDelete(r.deal.id); setCompareIds(compareIds.filter(c => c !== r.deal.id)); }} className="text-xs text-slate-400 hover:text-red-400">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Side-by-side comparison */}
+      {compared.length >= 2 && (
+        <div className="table-card rounded-xl overflow-hidden">
+          <div className="px-5 py-3 bg-slate-800 text-white">
+            <h3 className="font-semibold">Deal Comparison</h3>
+            <p className="text-xs text-slate-300 mt-0.5">Best value on each ranking metric highlighted.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-700/50">
+                  <th className="px-3 py-2 text-left text-slate-400 font-medium"></th>
+                  {compared.map(r => (
+                    <th key={r.deal.id} className="px-3 py-2 text-right text-white font-semibold">{r.deal.name.trim() || 'Untitled deal'}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {compareRows.map(row => {
+                  const best = row.rankKey ? Math.min(...compared.map(r => r.rank[row.rankKey!])) : null;
+                  return (
+                    <tr key={row.label} className="border-b border-slate-700/30">
+                      <td className="px-3 py-1.5 text-slate-400">{row.label}</td>
+                      {compared.map(r => (
+                        <td
+                          key={r.deal.id}
+                          className={`px-3 py-1.5 text-right font-medium ${
+                            row.rankKey && Number.isFinite(best) && r.rank[row.rankKey] === best ? 'text-green-400' : 'text-slate-200'
+                          }`}
+                        >
+                          {row.value(r)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
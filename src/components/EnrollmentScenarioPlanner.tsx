@@ -0,0 +1,300 @@
+/**
+ * Per-school enrollment plans — each school gets its own target enrollment or
+ * utilization; the rest fall back to the plan default (or current enrollment).
+ *
+ * Plans are saved in the browser. Up to four can be compared side by side:
+ * portfolio totals, health mix, and per-school enrollment / health.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  calculateEnrollmentScenario,
+  findExpensePreset,
+  listExpensePresets,
+  type CustomExpensePreset,
+  type EnrollmentScenario,
+  type EnrollmentScenarioResult,
+  type EnrollmentTargetMode,
+  type SchoolData,
+  type SchoolEnrollmentTarget,
+} from '../data/facilitiesCapexData';
+import { formatCurrency, HealthBadge } from './shared';
+
+const MAX_COMPARE = 4;
+
+const newScenario = (name: string): EnrollmentScenario => ({
+  id: `scenario-${Date.now().toString(36)}`,
+  name,
+  defaultTarget: null,
+  schoolTargets: {},
+  presetId: 'dashboard',
+});
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+const TargetInput: React.FC<{
+  target: SchoolEnrollmentTarget | null;
+  placeholder: string;
+  onChange: (target: SchoolEnrollmentTarget | null) => void;
+}> = ({ target, placeholder, onChange }) => (
+  <div className="flex items-center gap-1 justify-end">
+    <select
+      value={target?.mode ?? ''}
+      onChange={(e) => {
+        const mode = e.target.value as EnrollmentTargetMode | '';
+        onChange(mode ? { mode, value: target?.value ?? (mode === 'utilization' ? 85 : 0) } : null);
+      }}
+      className={inputClass}
+    >
+      <option value="">{placeholder}</option>
+      <option value="utilization">% util.</option>
+      <option value="enrollment">Students</option>
+    </select>
+    {target && (
+      <input
+        type="number"
+        min={0}
+        max={target.mode === 'utilization' ? 150 : undefined}
+        value={target.value}
+        onChange={(e) => onChange({ ...target, value: Math.max(0, Number(e.target.value) || 0) })}
+        className={`${inputClass} w-16`}
+      />
+    )}
+  </div>
+);
+
+export const EnrollmentScenarioPlanner: React.FC<{
+  schools: SchoolData[];
+  scenarios: EnrollmentScenario[];
+  customPresets: CustomExpensePreset[];
+  onChangeScenarios: (scenarios: EnrollmentScenario[]) => void;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, scenarios, customPresets, onChangeScenarios, onSelectSchool }) => {
+  const [activeId, setActiveId] = useState<string | null>(scenarios[0]?.id ?? null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const active = scenarios.find(sc => sc.id === activeId) ?? scenarios[0] ?? null;
+  const presets = listExpensePresets(customPresets);
+
+  const results = useMemo(() => {
+    const byId: Record<string, EnrollmentScenarioResult> = {};
+    for (const sc of scenarios) {
+      byId[sc.id] = calculateEnrollmentScenario(schools, sc, findExpensePreset(sc.presetId, customPresets));
+    }
+    return byId;
+  }, [schools, scenarios, customPresets]);
+
+  const updateActive = (patch: Partial<EnrollmentScenario>) => {
+    if (!active) return;
+    onChangeScenarios(scenarios.map(sc => (sc.id === active.id ? { ...sc, ...patch } : sc)));
+  };
+
+  const setSchoolTarget = (schoolId: string, target: SchoolEnrollmentTarget | null) => {
+    if (!active) return;
+    const { [schoolId]: _removed, ...rest } = active.schoolTargets;
+    updateActive({ schoolTargets: target ? { ...rest, [schoolId]: target } : rest });
+  };
+
+  const addScenario = (base?: EnrollmentScenario) => {
+    const sc = base
+      ? { ...base, id: newScenario('').id, name: `${base.name} (copy)`, schoolTargets: { ...base.schoolTargets } }
+      : newScenario(`Plan ${scenarios.length + 1}`);
+    onChangeScenarios([...scenarios, sc]);
+    setActiveId(sc.id);
+  };
+
+  const deleteScenario = (id: string) => {
+    onChangeScenarios(scenarios.filter(sc => sc.id !== id));
+    setCompareIds(compareIds.filter(c => c !== id));
+    if (activeId === id) setActiveId(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(compareIds.includes(id)
+      ? compareIds.filter(c => c !== id)
+      : compareIds.length < MAX_COMPARE ? [...compareIds, id] : compareIds);
+  };
+
+  const activeResult = active ? results[active.id] : null;
+  const compared = compareIds.map(id => scenarios.find(sc => sc.id === id)).filter((sc): sc is EnrollmentScenario => !!sc);
+
+  return (
+    <div className="space-y-6">
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-4 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="font-semibold text-white">Per-School Enrollment Plans</h2>
+            <p className="text-xs text-slate-300 mt-0.5">Set a target per school; the rest use the plan default. Tick up to {MAX_COMPARE} plans to compare.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => addScenario()} className="text-xs text-blue-400 hover:text-blue-300 font-medium">+ New plan</button>
+            {active && <button onClick={() => addScenario(active)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">Clone</button>}
+          </div>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <div className="px-5 py-6 text-sm text-slate-400">No saved plans yet — create one to set per-school targets.</div>
+        ) : (
+          <div className="px-5 pt-3 flex flex-wrap gap-2 border-b border-slate-700/50 pb-3">
+            {scenarios.map(sc => (
+              <div
+                key={sc.id}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs ${sc.id === active?.id ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-800'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(sc.id)}
+                  disabled={!compareIds.includes(sc.id) && compareIds.length >= MAX_COMPARE}
+                  onChange={() => toggleCompare(sc.id)}
+                  title="Compare"
+                />
+                <button onClick={() => setActiveId(sc.id)} className="font-medium">{sc.name}</button>
+                <button onClick={() => deleteScenario(sc.id)} className="text-slate-500 hover:text-red-400" title="Delete plan">x</button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {active && activeResult && (
+          <>
+            <div className="px-5 py-3 flex flex-wrap items-center gap-4 text-xs text-slate-300">
+              <label className="flex items-center gap-2">
+                Name
+                <input value={active.name} onChange={(e) => updateActive({ name: e.target.value })} className={`${inputClass} w-48`} />
+              </label>
+              <label className="flex items-center gap-2">
+                Default
+                <TargetInput target={active.defaultTarget} placeholder="Current" onChange={(t) => updateActive({ defaultTarget: t })} />
+              </label>
+              <label className="flex items-center gap-2">
+                Expense preset
+                <select value={active.presetId} onChange={(e) => updateActive({ presetId: e.target.value })} className={inputClass}>
+                  {presets.map(p => (<option key={p.id} value={p.id}>{p.label}</option>))}
+                </select>
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-700/50">
+                    <th className="px-3 py-2 text-left text-slate-400 font-medium">School</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Target</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Students</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Util.</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Revenue</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">Adjusted Cost</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">$/Student</th>
+                    <th className="px-2 py-2 text-right text-slate-400 font-medium">% Tuition</th>
+                    <th className="px-3 py-2 text-left text-slate-400 font-medium">Health</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activeResult.schools.map(r => (
+                    <tr key={r.id} className="border-b border-slate-700/30 hover:bg-slate-800/50">
+                      <td className="px-3 py-1.5">
+                        <button
+                          onClick={() => { const s = schools.find(sc => sc.id === r.id); if (s) onSelectSchool(s); }}
+                          className={`text-left hover:text-blue-300 ${r.hasOverride ? 'text-white font-medium' : 'text-slate-300'}`}
+                        >
+                          {r.displayName}
+                        </button>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <TargetInput
+                          target={active.schoolTargets[r.id] ?? null}
+                          placeholder="Default"
+                          onChange={(t) => setSchoolTarget(r.id, t)}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{r.currentEnrollment} → <span className="text-white">{r.scenarioEnrollment}</span></td>
+                      <td className="px-2 py-1.5 text-right text-slate-300">{(r.utilizationRate * 100).toFixed(0)}%</td>
+                      <td className="px-2 py-1.5 text-right text-green-400">{formatCurrency(r.revenue)}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-200">{formatCurrency(r.adjustedTotal)}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-200">{r.scenarioEnrollment > 0 ? formatCurrency(r.costPerStudent) : '—'}</td>
+                      <td className={`px-2 py-1.5 text-right ${r.pctOfTuition > 0 && r.pctOfTuition <= r.targetPct ? 'text-green-400' : 'text-slate-200'}`}>
+                        {r.scenarioEnrollment > 0 ? `${r.pctOfTuition.toFixed(1)}%` : '—'}
+                      </td>
+                      <td className="px-3 py-1.5"><HealthBadge score={r.healthScore} verdict={r.healthVerdict} /></td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold bg-slate-800/50">
+                    <td className="px-3 py-2 text-white">Portfolio</td>
+                    <td></td>
+                    <td className="px-2 py-2 text-right text-white">{activeResult.totals.currentEnrollment} → {activeResult.totals.enrollment}</td>
+                    <td className="px-2 py-2 text-right text-white">{(activeResult.totals.utilizationRate * 100).toFixed(0)}%</td>
+                    <td className="px-2 py-2 text-right text-green-400">{formatCurrency(activeResult.totals.revenue)}</td>
+                    <td className="px-2 py-2 text-right text-white">{formatCurrency(activeResult.totals.adjustedCosts)}</td>
+                    <td className="px-2 py-2 text-right text-white">{formatCurrency(activeResult.totals.costPerStudent)}</td>
+                    <td className="px-2 py-2 text-right text-white">{activeResult.totals.pctOfTuition.toFixed(1)}%</td>
+                    <td className="px-3 py-2 text-xs text-slate-300">
+                      {activeResult.totals.healthCounts.green}G / {activeResult.totals.healthCounts.yellow}Y / {activeResult.totals.healthCounts.red}R
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Side-by-side comparison */}
+      {compared.length >= 2 && (
+        <div className="table-card rounded-xl overflow-hidden">
+          <div className="px-5 py-3 bg-slate-800 text-white">
+            <h3 className="font-semibold">Plan Comparison</h3>
+            <p className="text-xs text-slate-300 mt-0.5">{schools.length} schools in current filters</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-700/50">
+                  <th className="px-3 py-2 text-left text-slate-400 font-medium"></th>
+                  {compared.map(sc => (
+                    <th key={sc.id} className="px-3 py-2 text-right text-white font-semibold">{sc.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {([
+                  ['Enrollment', t => t.enrollment.toLocaleString()],
+                  ['Utilization', t => `${(t.utilizationRate * 100).toFixed(0)}%`],
+                  ['Revenue', t => formatCurrency(t.revenue)],
+                  ['Adjusted Facilities Cost', t => formatCurrency(t.adjustedCosts)],
+                  ['Cost / Student', t => formatCurrency(t.costPerStudent)],
+                  ['% of Tuition', t => `${t.pctOfTuition.toFixed(1)}%`],
+                  ['Keeper / Fix-Fill / At Risk', t => `${t.healthCounts.green} / ${t.healthCounts.yellow} / ${t.healthCounts.red}`],
+                ] as [string, (t: EnrollmentScenarioResult['totals']) => string][]).map(([label, fmt]) => (
+                  <tr key={label} className="border-b border-slate-700/30">
+                    <td className="px-3 py-1.5 text-slate-400">{label}</td>
+                    {compared.map(sc => (
+                      <td key={sc.id} className="px-3 py-1.5 text-right text-slate-200 font-medium">{fmt(results[sc.id].totals)}</td>
+                    ))}
+                  </tr>
+                ))}
+                <tr><td colSpan={compared.length + 1} className="px-3 pt-4 pb-1 text-slate-400 uppercase text-[10px] font-medium">By school — students / health</td></tr>
+                {schools.map(school => (
+                  <tr key={school.id} className="border-b border-slate-700/30">
+                    <td className="px-3 py-1.5 text-slate-300">{school.displayName}</td>
+                    {compared.map(sc => {
+                      const r = results[sc.id].schools.find(x => x.id === school.id);
+                      return (
+                        <td key={sc.id} className="px-3 py-1.5 text-right">
+                          {r && (
+                            <span className="inline-flex items-center gap-2">
+                              <span className={r.hasOverride ? 'text-white' : 'text-slate-400'}>{r.scenarioEnrollment}</span>
+                              <HealthBadge score={r.healthScore} verdict={r.healthVerdict} />
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
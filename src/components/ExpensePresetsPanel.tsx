@@ -0,0 +1,171 @@
+/**
+ * Expense preset settings — fixed/variable splits per facilities line item.
+ *
+ * Built-in presets are read-only; clone one to adjust it. Custom presets can be
+ * renamed, edited with per-line sliders and deleted, and are saved in the
+ * browser. The active preset drives utilization scenarios.
+ */
+
+import React, { useState } from 'react';
+import {
+  calculateScenario,
+  expensePresets,
+  expenseRuleLines,
+  findExpensePreset,
+  listExpensePresets,
+  type CustomExpensePreset,
+  type ExpenseRuleSet,
+  type SchoolData,
+} from '../data/facilitiesCapexData';
+import { formatCurrency } from './shared';
+
+const previewUtilizations = [50, 75, 90, 100];
+
+export const ExpensePresetsPanel: React.FC<{
+  customPresets: CustomExpensePreset[];
+  activePresetId: string;
+  schools: SchoolData[];
+  onChangeCustomPresets: (presets: CustomExpensePreset[]) => void;
+  onSelectPreset: (id: string) => void;
+}> = ({ customPresets, activePresetId, schools, onChangeCustomPresets, onSelectPreset }) => {
+  const presets = listExpensePresets(customPresets);
+  const active = presets.find(p => p.id === activePresetId) ?? presets[0];
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const addPreset = (label: string, rules: ExpenseRuleSet) => {
+    const id = `custom-${Date.now().toString(36)}`;
+    onChangeCustomPresets([...customPresets, { id, label, rules: JSON.parse(JSON.stringify(rules)) }]);
+    onSelectPreset(id);
+    setRenaming(id);
+  };
+
+  const updatePreset = (id: string, patch: Partial<CustomExpensePreset>) => {
+    onChangeCustomPresets(customPresets.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const deletePreset = (id: string) => {
+    onChangeCustomPresets(customPresets.filter(p => p.id !== id));
+    if (id === activePresetId) onSelectPreset('dashboard');
+  };
+
+  const setSplit = (key: keyof ExpenseRuleSet, fixedPct: number) => {
+    if (active.builtIn) return;
+    const fixed = Math.round(fixedPct) / 100;
+    updatePreset(active.id, { rules: { ...active.rules, [key]: { fixed, variable: +(1 - fixed).toFixed(2) } } });
+  };
+
+  const activeRef = findExpensePreset(active.id, customPresets);
+
+  return (
+    <div className="table-card overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Expense Presets</h3>
+          <p className="text-xs text-slate-300 mt-0.5">Fixed vs variable split per line item — variable share scales with enrollment in scenarios.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => addPreset('New preset', expensePresets.dashboard)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">+ New</button>
+          <button onClick={() => addPreset(`${active.label} (copy)`, active.rules)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">Clone active</button>
+        </div>
+      </div>
+
+      <div className="p-5 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Preset list */}
+        <div className="space-y-1">
+          {presets.map(p => (
+            <div
+              key={p.id}
+              onClick={() => onSelectPreset(p.id)}
+              className={`flex items-center justify-between gap-2 px-3 py-2 rounded cursor-pointer text-sm ${
+                p.id === active.id ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-800'
+              }`}
+            >
+              {renaming === p.id && !p.builtIn ? (
+                <input
+                  autoFocus
+                  value={p.label}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => updatePreset(p.id, { label: e.target.value })}
+                  onBlur={() => { if (!p.label.trim()) updatePreset(p.id, { label: 'Untitled preset' }); setRenaming(null); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                  className="flex-1 border border-slate-600 rounded px-2 py-0.5 text-xs bg-slate-800 text-white"
+                />
+              ) : (
+                <span className="truncate">
+                  {p.label}
+                  {p.builtIn && <span className="ml-2 text-xs text-slate-500">built-in</span>}
+                </span>
+              )}
+              {!p.builtIn && renaming !== p.id && (
+                <span className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={(e) => { e.stopPropagation(); setRenaming(p.id); }} className="text-xs text-slate-400 hover:text-white">Rename</button>
+                  <button onClick={(e) => { e.stopPropagation(); deletePreset(p.id); }} className="text-xs text-slate-400 hover:text-red-400">Delete</button>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Split sliders */}
+        <div className="space-y-3">
+          {active.builtIn && (
+            <p className="text-xs text-amber-400">Built-in presets are read-only — clone to edit.</p>
+          )}
+          {expenseRuleLines.map(({ key, label }) => {
+            const fixedPct = Math.round(active.rules[key].fixed * 100);
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-xs text-slate-300 mb-1">
+                  <span>{label}</span>
+                  <span>{fixedPct}% fixed / {100 - fixedPct}% variable</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={fixedPct}
+                  disabled={active.builtIn}
+                  onChange={(e) => setSplit(key, Number(e.target.value))}
+                  className="w-full accent-blue-500 disabled:opacity-50"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Scenario preview */}
+        <div>
+          <h4 className="text-xs font-medium text-slate-400 uppercase mb-2">Scenario Preview ({schools.length} schools)</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="py-1.5 text-left text-slate-400 font-medium">Utilization</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">$/Student</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">% Tuition</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">vs Dashboard</th>
+              </tr>
+            </thead>
+            <tbody>
+              {previewUtilizations.map(pct => {
+                const result = calculateScenario(schools, pct, activeRef);
+                const baseline = calculateScenario(schools, pct, 'dashboard');
+                const diff = result.avgCostPerStudent - baseline.avgCostPerStudent;
+                return (
+                  <tr key={pct} className="border-b border-slate-700/30">
+                    <td className="py-1.5 text-slate-200">{pct}%</td>
+                    <td className="py-1.5 text-right text-slate-200">{formatCurrency(result.avgCostPerStudent)}</td>
+                    <td className="py-1.5 text-right text-slate-300">{result.avgPctOfTuition.toFixed(1)}%</td>
+                    <td className={`py-1.5 text-right ${Math.abs(diff) < 1 ? 'text-slate-500' : diff > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {Math.abs(diff) < 1 ? '—' : `${diff > 0 ? '+' : '-'}${formatCurrency(Math.abs(diff))}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
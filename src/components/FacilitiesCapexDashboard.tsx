@@ -13,56 +13,101 @@
  * 6. CapEx Buildout - One-time capital expenditure (shown separately)
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   PieChart, Pie, Cell, Tooltip, ResponsiveContainer,
   BarChart, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine, Legend,
+  LineChart, Line,
 } from 'recharts';
+import { applyCapexLedger, isCapexLineItemList, isSchoolIdList, reconcileCapexLedger, type CapexLineItem } from '../data/capexProjects';
+import { defaultCashFlowAssumptions, isCashFlowAssumptions, type CashFlowAssumptions } from '../data/cashFlowForecast';
+import { calculateObligations, defaultClosure, isSchoolClosureList, type SchoolClosure } from '../data/closureSimulation';
+import {
+  isDealRecordList,
+  isPromotedSchoolList,
+  promoteDeal,
+  withPromotedSchools,
+  type DealRecord,
+  type PromotedSchool,
+} from '../data/dealEvaluation';
 import {
   buildSchoolData,
   calculatePortfolioSummary,
   calculateUnitEconomics,
+  categoryColors,
+  formatPeriodLabel,
+  getPeriodKind,
   getTargetPct,
+  listAvailablePeriods,
+  defaultStaffingModel,
+  defaultTargetPolicy,
+  findExpensePreset,
+  isCustomExpensePresetList,
+  isEnrollmentScenarioList,
+  isStaffingModel,
+  isTargetPolicy,
+  rawSchoolData,
+  YEAR_END_PERIOD,
   schoolTypeLabels,
   tuitionTierLabels,
+  type CustomExpensePreset,
+  type EnrollmentScenario,
+  type RawSchoolEntry,
   type SchoolData,
   type SchoolType,
+  type StaffingModel,
+  type TargetPolicy,
   type TuitionTier,
-  type HealthScore,
 } from '../data/facilitiesCapexData';
+import { isFixedAssetList, type FixedAsset } from '../data/fixedAssets';
+import {
+  currentMonth,
+  isLeaseRecordList,
+  type LeaseRecord,
+} from '../data/leaseSchedule';
+import { isRampOverrides, type RampOverrides } from '../data/rampCurves';
+import {
+  defaultReconciliationTolerance,
+  reconcileRawData,
+  type ReconciliationTolerance,
+} from '../data/reconciliation';
+import type { SchoolDataImportResult } from '../data/schoolDataImport';
+import { CapexLedger } from './CapexLedger';
+import { CashFlowTab } from './CashFlowTab';
+import { ClosureSimulator } from './ClosureSimulator';
+import { DataQualityButton, DataQualityPanel } from './DataQualityPanel';
+import { DealEvaluationTab } from './DealEvaluationTab';
+import { EnrollmentScenarioPlanner } from './EnrollmentScenarioPlanner';
+import { ExpensePresetsPanel } from './ExpensePresetsPanel';
+import { FixedAssetRegister } from './FixedAssetRegister';
+import { ScenarioWorkspace } from './ScenarioWorkspace';
+import { SensitivityTornado } from './SensitivityTornado';
+import { formatCurrency, HealthBadge } from './shared';
+import { ImportButton, ImportReport } from './SchoolDataImport';
+import { LeaseCalendar } from './LeaseCalendar';
+import { MarginalEconomicsChart } from './MarginalEconomicsChart';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { FillItPlanner } from './FillItPlanner';
+import { FixItPlanner } from './FixItPlanner';
+import { GoalSeekPanel } from './GoalSeekPanel';
+import { MultiYearProjection } from './MultiYearProjection';
+import { PreOpeningRamp } from './PreOpeningRamp';
+import { PromotedSchoolEditor } from './PromotedSchoolEditor';
+import { StaffingModelPanel } from './StaffingModelPanel';
+import { TargetPolicyPanel } from './TargetPolicyPanel';
+import { usePersistentState } from '../hooks/usePersistentState';
 
 // ============================================================================
 // HELPER COMPONENTS
 // ============================================================================
 
-const formatCurrency = (val: number): string => {
-  if (Math.abs(val) >= 1000000) return `$${(val / 1000000).toFixed(2)}M`;
-  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}K`;
-  return `$${val.toFixed(0)}`;
-};
-
 // Sort helpers removed — using inline sort state instead
 
 // (MetricCard removed — replaced by inline layouts)
 
 // CategoryBar, SchoolCostBreakdown, UtilizationBadge removed — replaced by pie charts + category table
 
-const HealthBadge: React.FC<{ score: HealthScore; verdict: string }> = ({ score, verdict }) => {
-  const config: Record<HealthScore, { bg: string; dot: string }> = {
-    green: { bg: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
-    yellow: { bg: 'bg-amber-100 text-amber-800', dot: 'bg-amber-500' },
-    red: { bg: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
-    gray: { bg: 'bg-gray-100 text-slate-400', dot: 'bg-gray-400' },
-  };
-  const { bg, dot } = config[score];
-
-  return (
-    <span className={`inline-flex items-center gap-1.5 text-xs px-2 py-1 rounded ${bg}`} title={verdict}>
-      <span className={`w-2 h-2 rounded-full ${dot}`} />
-      {verdict}
-    </span>
-  );
-};
+// formatCurrency + HealthBadge live in ./shared (used by the tab components too)
 
 // ============================================================================
 // EXPENSE PRESET TOGGLE
@@ -110,249 +155,6 @@ const OperatingToggle: React.FC<{
 
 // ControllabilitySplit removed — replaced with pie chart in overview
 
-// ============================================================================
-// (Deal Evaluation Calculator removed)
-// ============================================================================
-
-/* eslint-disable @typescript-eslint/no-unused-vars */
-// @ts-ignore
-const _deadCode = () => {
-  const summary = null as any;
-  const setDealName = (_: any) => {}; const setLeaseAmount = (_: any) => {}; const setTuition = (_: any) => {};
-  const setCapacity = (_: any) => {}; const setSqft = (_: any) => {}; const setFixedFacilitiesPct = (_: any) => {};
-  const setCapexBuildout = (_: any) => {}; const setAmortYears = (_: any) => {}; const setLeaseTerm = (_: any) => {};
-  const setEarlyWalkYears = (_: any) => {};
-  const dealName = '';
-  const leaseAmount = 0;
-  const tuition = 0;
-  const capacity = 0;
-  const sqft = 0;
-  const fixedFacilitiesPct = 0;
-  const capexBuildout = 0;
-  const amortYears = 0;
-  const leaseTerm = 0;
-  const earlyWalkYears = 0;
-
-  const annualDepreciation = capexBuildout / amortYears;
-  const fixedFacCost = leaseAmount * (fixedFacilitiesPct / 100);
-  const totalFixed = leaseAmount + fixedFacCost + annualDepreciation;
-  const totalCommitment = leaseAmount * leaseTerm + capexBuildout;
-  const earlyWalkExposure = leaseAmount * earlyWalkYears + capexBuildout;
-  const leasePerSqft = sqft > 0 ? leaseAmount / sqft : 0;
-  const targetPctForTuition = tuition >= 65000 ? 20 : tuition > 40000 ? 10 : 5;
-
-  const scenarios = [
-    { students: Math.floor(capacity * 0.25), label: `${Math.floor(capacity * 0.25)} (25%)` },
-    { students: Math.floor(capacity * 0.50), label: `${Math.floor(capacity * 0.50)} (50%)` },
-    { students: Math.floor(capacity * 0.75), label: `${Math.floor(capacity * 0.75)} (75%)` },
-    { students: capacity, label: `${capacity} (100%)` },
-  ].map((s) => {
-    const revenue = s.students * tuition;
-    const costPerStudent = s.students > 0 ? totalFixed / s.students : 0;
-    const pctOfTuition = s.students > 0 ? (totalFixed / revenue) * 100 : 0;
-    const margin = revenue - totalFixed;
-    return { ...s, revenue, costPerStudent, pctOfTuition, margin };
-  });
-
-  // Portfolio impact
-  const portfolioCurrentCost = summary?.grandTotal ?? 0;
-  const portfolioCurrentEnrollment = summary?.totalEnrollment ?? 0;
-  const portfolioCurrentCapacity = summary?.totalCapacity ?? 0;
-  const newPortfolioCost = portfolioCurrentCost + totalFixed;
-  const atCapacityRevenue = capacity * tuition;
-  const newPortfolioRevenueAtCap = (summary?.totalRevenueAtCapacity ?? 0) + atCapacityRevenue;
-  const newPortfolioCapacity = portfolioCurrentCapacity + capacity;
-  const newFacPctAtCapacity = newPortfolioRevenueAtCap > 0 ? (newPortfolioCost / newPortfolioRevenueAtCap) * 100 : 0;
-
-  // Comparable check: Alpha Palm Beach
-  const breakEvenStudents = Math.ceil(totalFixed / (targetPctForTuition / 100 * tuition));
-  const canReachTarget = breakEvenStudents <= capacity;
-
-  return (
-    <div className="table-card rounded-xl overflow-hidden mb-6">
-      <div className="px-5 py-4 bg-slate-800">
-        <div className="flex items-center justify-between">
-          <div>
-            <h3 className="font-bold text-slate-100 text-lg">Deal Evaluation</h3>
-            <p className="text-sm text-slate-300 mt-0.5">
-              Before signing: What does this deal cost the portfolio? What&apos;s the exit?
-            </p>
-          </div>
-          <div className="text-xs text-slate-500">Andy rule: no lease without a model</div>
-        </div>
-      </div>
-
-      <div className="p-5">
-        {/* Deal name */}
-        <div className="mb-5">
-          <label className="block text-xs font-medium text-slate-400 mb-1">Deal Name / Address</label>
-          <input type="text" value={dealName} onChange={(e) => setDealName(e.target.value)} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white font-medium" placeholder="e.g. Boca Raton — 2200 NW 5th Ave" />
-        </div>
-
-        {/* Input grid */}
-        <div className="grid grid-cols-3 md:grid-cols-5 gap-4 mb-6">
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Annual Lease</label>
-          <input type="number" value={leaseAmount} onChange={(e) => setLeaseAmount(Number(e.target.value))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={10000} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Tuition</label>
-          <input type="number" value={tuition} onChange={(e) => setTuition(Number(e.target.value))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={5000} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Capacity (seats)</label>
-            <input type="number" value={capacity} onChange={(e) => setCapacity(Math.max(1, Number(e.target.value)))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={5} min={1} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Sq Ft</label>
-            <input type="number" value={sqft} onChange={(e) => setSqft(Number(e.target.value))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={500} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Other Fixed (% of lease)</label>
-          <input type="number" value={fixedFacilitiesPct} onChange={(e) => setFixedFacilitiesPct(Number(e.target.value))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={5} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">CapEx Buildout</label>
-          <input type="number" value={capexBuildout} onChange={(e) => setCapexBuildout(Number(e.target.value))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={25000} />
-        </div>
-        <div>
-            <label className="block text-xs text-slate-400 mb-1">Amort. Years</label>
-          <input type="number" value={amortYears} onChange={(e) => setAmortYears(Math.max(1, Number(e.target.value)))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={1} min={1} />
-        </div>
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Lease Term (yrs)</label>
-            <input type="number" value={leaseTerm} onChange={(e) => setLeaseTerm(Math.max(1, Number(e.target.value)))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={1} min={1} />
-          </div>
-          <div>
-            <label className="block text-xs text-slate-400 mb-1">Early Walk (yrs)</label>
-            <input type="number" value={earlyWalkYears} onChange={(e) => setEarlyWalkYears(Math.max(0, Number(e.target.value)))} className="w-full border border-slate-600 rounded px-3 py-2 text-sm bg-slate-800 text-white" step={1} min={0} />
-        </div>
-      </div>
-
-        {/* Commitment & Risk KPIs */}
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
-          <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 text-center">
-            <div className="text-xs text-blue-300 font-medium">Annual Fixed Cost</div>
-            <div className="text-lg font-bold text-blue-900">{formatCurrency(totalFixed)}</div>
-          </div>
-          <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
-            <div className="text-xs text-amber-300 font-medium">Total Commitment</div>
-            <div className="text-lg font-bold text-amber-900">{formatCurrency(totalCommitment)}</div>
-            <div className="text-[10px] text-amber-600">{leaseTerm}yr lease + buildout</div>
-          </div>
-          <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
-            <div className="text-xs text-red-400 font-medium">Early Walk Exposure</div>
-            <div className="text-lg font-bold text-red-900">{formatCurrency(earlyWalkExposure)}</div>
-            <div className="text-[10px] text-red-400">{earlyWalkYears}yr lease + buildout</div>
-          </div>
-          <div className="bg-slate-800/60 border border-slate-600 rounded-lg p-3 text-center">
-            <div className="text-xs text-slate-600 font-medium">Lease / Sq Ft</div>
-            <div className="text-lg font-bold text-slate-900">${Math.round(leasePerSqft)}</div>
-            <div className="text-[10px] text-slate-400">Portfolio avg: ${summary ? Math.round(summary.avgLeasePerSqft) : '—'}</div>
-          </div>
-          <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 text-center">
-            <div className="text-xs text-green-400 font-medium">Break-Even</div>
-            <div className="text-lg font-bold text-green-900">{breakEvenStudents} students</div>
-            <div className={`text-[10px] ${canReachTarget ? 'text-green-400' : 'text-red-400'}`}>
-              for {targetPctForTuition}% target | {canReachTarget ? 'Achievable' : 'EXCEEDS CAPACITY'}
-            </div>
-          </div>
-      </div>
-
-        {/* Enrollment Scenarios */}
-        <table className="w-full text-sm mb-6">
-        <thead className="bg-gray-50">
-          <tr>
-            <th className="px-3 py-2 text-left">Enrollment</th>
-              <th className="px-3 py-2 text-right">Revenue</th>
-            <th className="px-3 py-2 text-right">$/Student</th>
-            <th className="px-3 py-2 text-right">% of Tuition</th>
-              <th className="px-3 py-2 text-right">Margin</th>
-            <th className="px-3 py-2 text-left">Verdict</th>
-          </tr>
-        </thead>
-        <tbody className="divide-y">
-          {scenarios.map((s) => (
-            <tr key={s.students}>
-              <td className="px-3 py-2">{s.label}</td>
-                <td className="px-3 py-2 text-right text-green-400">{formatCurrency(s.revenue)}</td>
-              <td className="px-3 py-2 text-right">{formatCurrency(s.costPerStudent)}</td>
-              <td className="px-3 py-2 text-right font-medium">{s.pctOfTuition.toFixed(1)}%</td>
-                <td className={`px-3 py-2 text-right font-medium ${s.margin >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                  {s.margin >= 0 ? '+' : ''}{formatCurrency(s.margin)}
-                </td>
-              <td className="px-3 py-2">
-                  <span className={`px-2 py-0.5 rounded text-xs ${
-                    s.pctOfTuition <= targetPctForTuition
-                      ? 'bg-green-100 text-green-800'
-                      : s.pctOfTuition <= targetPctForTuition * 1.5
-                        ? 'bg-blue-100 text-blue-800'
-                        : s.pctOfTuition <= targetPctForTuition * 2.5
-                          ? 'bg-amber-100 text-amber-800'
-                          : 'bg-red-100 text-red-800'
-                  }`}>
-                    {s.pctOfTuition <= targetPctForTuition ? 'At Target' : s.pctOfTuition <= targetPctForTuition * 1.5 ? 'Acceptable' : s.pctOfTuition <= targetPctForTuition * 2.5 ? 'Warning' : 'Too High'}
-                </span>
-              </td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-
-        {/* Portfolio Impact */}
-        {summary && (
-          <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-4">
-            <h4 className="font-semibold text-white mb-3">Portfolio Impact</h4>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div>
-                <div className="text-xs text-slate-400">Current Portfolio Cost</div>
-                <div className="font-medium">{formatCurrency(portfolioCurrentCost)}</div>
-                <div className="text-xs text-slate-500 mt-1">After this deal</div>
-                <div className="font-bold">{formatCurrency(newPortfolioCost)}</div>
-                <div className="text-xs text-red-500">+{formatCurrency(totalFixed)} ({(totalFixed / portfolioCurrentCost * 100).toFixed(1)}%)</div>
-      </div>
-              <div>
-                <div className="text-xs text-slate-400">Capacity</div>
-                <div className="font-medium">{portfolioCurrentCapacity} seats</div>
-                <div className="text-xs text-slate-500 mt-1">After this deal</div>
-                <div className="font-bold">{newPortfolioCapacity} seats</div>
-                <div className="text-xs text-blue-500">+{capacity} seats</div>
-      </div>
-              <div>
-                <div className="text-xs text-slate-400">Current Utilization</div>
-                <div className="font-medium">{summary.avgUtilization.toFixed(0)}%</div>
-                <div className="text-xs text-slate-500 mt-1">After (0 enrolled)</div>
-                <div className="font-bold text-red-400">{newPortfolioCapacity > 0 ? ((portfolioCurrentEnrollment / newPortfolioCapacity) * 100).toFixed(0) : 0}%</div>
-                <div className="text-xs text-red-500">Diluted by empty seats</div>
-    </div>
-              <div>
-                <div className="text-xs text-slate-400">Fac % at Full Capacity</div>
-                <div className="font-medium">{summary.totalRevenueAtCapacity > 0 ? ((portfolioCurrentCost / summary.totalRevenueAtCapacity) * 100).toFixed(0) : 0}% today</div>
-                <div className="text-xs text-slate-500 mt-1">With this school at cap</div>
-                <div className="font-bold">{newFacPctAtCapacity.toFixed(0)}%</div>
-      </div>
-      </div>
-
-            {/* Decision Box */}
-            <div className={`mt-4 p-3 rounded-lg border ${canReachTarget ? 'bg-green-900/30 border-green-700' : 'bg-red-900/30 border-red-700'}`}>
-              <div className="font-medium text-sm">
-                {canReachTarget ? (
-                  <>&#9989; This deal can reach the {targetPctForTuition}% target at {breakEvenStudents}/{capacity} capacity. Early-walk exposure: {formatCurrency(earlyWalkExposure)}.</>
-                ) : (
-                  <>&#10060; This deal CANNOT reach the {targetPctForTuition}% target — needs {breakEvenStudents} students but capacity is only {capacity}. Do not sign without renegotiating lease or reducing scope.</>
-                )}
-        </div>
-              <div className="text-xs text-slate-400 mt-2">
-                Existing portfolio has {summary.totalCapacity - summary.totalEnrollment} empty seats at {summary.avgUtilization.toFixed(0)}% utilization. Consider filling those first.
-        </div>
-        </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
-
 // ============================================================================
 // MAIN DASHBOARD
 // ============================================================================
@@ -365,10 +167,8 @@ const FacilitiesCapexDashboard: React.FC = () => {
   const [operatingFilter, setOperatingFilter] = useState<OperatingFilter>('all');
 
 
-  // (Scenario slider removed — was on old segmentation tab)
-
-  // View mode
-  const [activeTab, setActiveTab] = useState<'overview' | 'segmentation' | 'breakeven' | 'summary'>('overview');
+  // View mode (utilization scenario slider lives in ScenarioWorkspace)
+  const [activeTab, setActiveTab] = useState<'overview' | 'segmentation' | 'breakeven' | 'scenarios' | 'deal' | 'leases' | 'cashflow' | 'actions' | 'summary'>('overview');
   const [overviewBasis, setOverviewBasis] = useState<'current' | 'capacity' | 'sqft'>('capacity');
   const [showCharts, setShowCharts] = useState(false);
   const [expandedType, setExpandedType] = useState<SchoolType | null>(null);
@@ -378,6 +178,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
   const [expandedCapexType, setExpandedCapexType] = useState<SchoolType | null>(null);
   const [expandedFacBva, setExpandedFacBva] = useState<SchoolType[]>([]);
   const [expandedCapexBva, setExpandedCapexBva] = useState<SchoolType[]>([]);
+  const [capexLedgerType, setCapexLedgerType] = useState<SchoolType | null>(null);
   const [expandedUE, setExpandedUE] = useState<SchoolType[]>([]);
   const [expandedOverview, setExpandedOverview] = useState<SchoolType[]>([]);
   const [expandedBE, setExpandedBE] = useState<SchoolType[]>([]);
@@ -390,7 +191,91 @@ const FacilitiesCapexDashboard: React.FC = () => {
     setter(prev => prev.key === key ? {key, dir: prev.dir === 'asc' ? 'desc' : 'asc'} : {key, dir: 'desc'});
   };
 
-  const allSchools = useMemo(() => buildSchoolData(), []);
+  // Source data — built-in rawSchoolData until a workbook/CSV is imported
+  const [rawData, setRawData] = useState<Record<string, RawSchoolEntry>>(rawSchoolData);
+  const [importResult, setImportResult] = useState<SchoolDataImportResult | null>(null);
+  const [importApplied, setImportApplied] = useState(false);
+  const [importCount, setImportCount] = useState(0); // keys the report so each import opens fresh
+
+  // Reporting period — year-end snapshot, TTM roll-up, or a dated FY/month from imported history
+  const [period, setPeriod] = useState<string>(YEAR_END_PERIOD);
+
+  const handleImported = (result: SchoolDataImportResult) => {
+    const fatal = result.errors.some(e => e.kind === 'missing-column');
+    const applied = !fatal && result.rowsImported > 0;
+    if (applied) {
+      setRawData(result.entries);
+      setSelectedSchool(null);
+      if (!listAvailablePeriods(result.entries).includes(period)) setPeriod(YEAR_END_PERIOD);
+    }
+    setImportResult(result);
+    setImportApplied(applied);
+    setImportCount(n => n + 1);
+  };
+
+  const handlePeriodChange = (next: string) => {
+    setPeriod(next);
+    setSelectedSchool(null);
+  };
+
+  // Finance-editable settings, saved in the browser
+  const [targetPolicy, setTargetPolicy] = usePersistentState<TargetPolicy>('target-policy', defaultTargetPolicy, isTargetPolicy);
+  const [staffingModel, setStaffingModel] = usePersistentState<StaffingModel>('staffing-model', defaultStaffingModel, isStaffingModel);
+  const [customPresets, setCustomPresets] = usePersistentState<CustomExpensePreset[]>('expense-presets', [], isCustomExpensePresetList);
+  const [activePresetId, setActivePresetId] = usePersistentState<string>('active-expense-preset', 'dashboard');
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Saved per-school enrollment plans (Scenarios tab)
+  const [enrollmentScenarios, setEnrollmentScenarios] = usePersistentState<EnrollmentScenario[]>('enrollment-scenarios', [], isEnrollmentScenarioList);
+  // Planned closures / consolidations (Scenarios tab)
+  const [closurePlan, setClosurePlan] = usePersistentState<SchoolClosure[]>('closure-plan', [], isSchoolClosureList);
+
+  // Saved candidate sites (Deal Evaluation tab)
+  const [dealPipeline, setDealPipeline] = usePersistentState<DealRecord[]>('deal-pipeline', [], isDealRecordList);
+
+  // Signed deals added to the portfolio as estimated pre-opening schools until actuals arrive
+  const [promotedSchools, setPromotedSchools] = usePersistentState<PromotedSchool[]>('promoted-schools', [], isPromotedSchoolList);
+  // Lease terms per school (Lease Calendar tab); schools without one use assumed terms
+  const [leaseRecords, setLeaseRecords] = usePersistentState<LeaseRecord[]>('lease-schedule', [], isLeaseRecordList);
+  // CapEx project line items; approved items replace a school's reported buildout
+  const [capexLedger, setCapexLedger] = usePersistentState<CapexLineItem[]>('capex-ledger', [], isCapexLineItemList);
+  const [completeCapexLedgers, setCompleteCapexLedgers] = usePersistentState<string[]>('capex-ledger-complete', [], isSchoolIdList);
+  // Fixed assets per school; entered assets drive depreciation
+  const [assetRegister, setAssetRegister] = usePersistentState<FixedAsset[]>('asset-register', [], isFixedAssetList);
+  const [rampOverrides, setRampOverrides] = usePersistentState<RampOverrides>('ramp-overrides', {}, isRampOverrides);
+  const [cashFlowAssumptions, setCashFlowAssumptions] = usePersistentState<CashFlowAssumptions>('cash-flow-assumptions', defaultCashFlowAssumptions, isCashFlowAssumptions);
+
+  const portfolioData = useMemo(() => withPromotedSchools(rawData, promotedSchools), [rawData, promotedSchools]);
+  const availablePeriods = useMemo(() => listAvailablePeriods(portfolioData), [portfolioData]);
+
+  const allSchools = useMemo(
+    () => applyCapexLedger(buildSchoolData(portfolioData, period, targetPolicy, assetRegister, rampOverrides), capexLedger, completeCapexLedgers),
+    [portfolioData, period, targetPolicy, assetRegister, rampOverrides, capexLedger, completeCapexLedgers],
+  );
+
+  // Keep the drawer showing the rebuilt school after estimate or settings edits
+  useEffect(() => {
+    setSelectedSchool(prev => (prev ? allSchools.find(s => s.id === prev.id) ?? null : prev));
+  }, [allSchools]);
+
+  const handlePromoteDeal = (deal: DealRecord) => {
+    const actuals = allSchools.filter(s => !s.isEstimated);
+    setPromotedSchools([...promotedSchools, promoteDeal(deal, actuals, Object.keys(portfolioData))]);
+  };
+
+  // Remaining rent, unamortized capex and walk-away cost per school (drawer + Executive View)
+  const obligations = useMemo(
+    () => calculateObligations(allSchools, leaseRecords, currentMonth(), assetRegister),
+    [allSchools, leaseRecords, assetRegister],
+  );
+  const exitYear = Number(currentMonth().slice(0, 4));
+  const assumedCapexTitle = (n: number) =>
+    `${n} school${n === 1 ? '' : 's'} with nothing on the asset register and no lease — capex write-off is close to the full buildout`;
+
+  // Reconciliation — "assume something is wrong until reconciled"
+  const [reconTolerance, setReconTolerance] = useState<ReconciliationTolerance>(defaultReconciliationTolerance);
+  const [showDataQuality, setShowDataQuality] = useState(false);
+  const reconciliation = useMemo(() => reconcileRawData(portfolioData, reconTolerance), [portfolioData, reconTolerance]);
 
   // Apply filters
   const schools = useMemo(() => {
@@ -426,9 +311,26 @@ const FacilitiesCapexDashboard: React.FC = () => {
           <div className="flex justify-between items-start">
         <div>
               <h1 className="text-2xl font-bold text-white">Facilities & Capex Analysis</h1>
-              <p className="text-sm text-slate-400 mt-1">{summary.totalSchools} schools | Year-end actuals | {summary.totalSqft.toLocaleString()} sq ft</p>
+              <p className="text-sm text-slate-400 mt-1">{summary.totalSchools} schools | {formatPeriodLabel(period)}{getPeriodKind(period) === 'month' ? ' (annualized)' : ''}{rawData !== rawSchoolData && ` | Imported: ${importResult?.fileName ?? 'file'}`} | {summary.totalSqft.toLocaleString()} sq ft</p>
         </div>
             <div className="flex items-center gap-3">
+              <ImportButton onImported={handleImported} />
+              <DataQualityButton report={reconciliation} open={showDataQuality} onToggle={() => setShowDataQuality(!showDataQuality)} />
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`border border-slate-600 rounded px-2 py-1.5 text-xs text-white hover:bg-slate-600 ${showSettings ? 'bg-slate-600' : 'bg-slate-700'}`}
+              >
+                Settings
+              </button>
+              <select
+                value={period}
+                onChange={(e) => handlePeriodChange(e.target.value)}
+                disabled={availablePeriods.length < 2}
+                className="border border-slate-600 rounded px-2 py-1.5 text-xs bg-slate-700 text-white disabled:opacity-50"
+                title={availablePeriods.length < 2 ? 'Import a file with a Period column to add FY / monthly history' : 'Reporting period'}
+              >
+                {availablePeriods.map(p => (<option key={p} value={p}>{formatPeriodLabel(p)}</option>))}
+              </select>
               <OperatingToggle value={operatingFilter} onChange={setOperatingFilter} />
               <select value={schoolTypeFilter} onChange={(e) => setSchoolTypeFilter(e.target.value as SchoolType | 'all')} className="border border-slate-600 rounded px-2 py-1.5 text-xs bg-slate-700 text-white">
                 <option value="all">All Types</option>
@@ -450,6 +352,11 @@ const FacilitiesCapexDashboard: React.FC = () => {
             { id: 'overview', label: 'Executive View', icon: '\ud83d\udcca' },
             { id: 'segmentation', label: 'Budget vs Actuals', icon: '\ud83d\udccb' },
             { id: 'breakeven', label: 'Unit Economics', icon: '\ud83c\udfaf' },
+            { id: 'scenarios', label: 'Scenarios', icon: '\ud83d\udcc8' },
+            { id: 'deal', label: 'Deal Evaluation', icon: '\ud83c\udfe2' },
+            { id: 'leases', label: 'Lease Calendar', icon: '\ud83d\udcc5' },
+            { id: 'cashflow', label: 'Cash Flow', icon: '\ud83d\udcb5' },
+            { id: 'actions', label: 'Action Plans', icon: '\ud83d\udee0\ufe0f' },
             { id: 'summary', label: 'Summary', icon: '\u26a1' },
           ] as const).map((tab) => (
               <button
@@ -469,6 +376,44 @@ const FacilitiesCapexDashboard: React.FC = () => {
 
       <div className="max-w-7xl mx-auto px-6 py-6">
 
+      {importResult && (
+        <ImportReport
+          key={importCount}
+          result={importResult}
+          applied={importApplied}
+          onRevert={() => {
+            setRawData(rawSchoolData);
+            setSelectedSchool(null);
+            setPeriod(YEAR_END_PERIOD);
+            setImportResult(null);
+          }}
+          onDismiss={() => setImportResult(null)}
+        />
+      )}
+
+      {showDataQuality && (
+        <DataQualityPanel
+          report={reconciliation}
+          onToleranceChange={setReconTolerance}
+          onSelectSchool={(id) => setSelectedSchool(allSchools.find(s => s.id === id) ?? null)}
+          onClose={() => setShowDataQuality(false)}
+        />
+      )}
+
+      {showSettings && (
+        <div className="space-y-6 mb-6">
+          <TargetPolicyPanel policy={targetPolicy} schools={allSchools} onChange={setTargetPolicy} />
+          <StaffingModelPanel model={staffingModel} onChange={setStaffingModel} />
+          <ExpensePresetsPanel
+            customPresets={customPresets}
+            activePresetId={activePresetId}
+            schools={schools}
+            onChangeCustomPresets={setCustomPresets}
+            onSelectPreset={setActivePresetId}
+          />
+        </div>
+      )}
+
       {/* SUMMARY TAB */}
       {activeTab === 'summary' && (
         <div className="space-y-6">
@@ -477,8 +422,8 @@ const FacilitiesCapexDashboard: React.FC = () => {
             const schoolsAtTarget = schools.filter(s => {
               const facTotal = s.costs.lease.total + s.costs.fixedFacilities.total +
                 s.costs.variableFacilities.total + s.costs.studentServices.total;
-              const ue = calculateUnitEconomics(s.tuition, s.capacity, facTotal, s.costs.annualDepreciation.total);
-              return ue.marginPct >= getTargetPct(s.tuition);
+              const ue = calculateUnitEconomics(s.tuition, s.capacity, facTotal, s.costs.annualDepreciation.total, staffingModel);
+              return ue.marginPct >= getTargetPct(s.tuition, targetPolicy);
             }).length;
 
             // Portfolio facilities budget vs actual
@@ -1192,10 +1137,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     const facBudget = school.budget.modelFacPerStudent * cap;
                     const facActual = school.costs.lease.total + school.costs.fixedFacilities.total +
                       school.costs.variableFacilities.total + school.costs.studentServices.total;
-                    const capexBudget = school.budget.capexBudget;
-                    const capexActual = school.costs.capexBuildout;
-                    const deprPeriod = school.costs.annualDepreciation.total > 0 ? capexActual / school.costs.annualDepreciation.total : 10;
-                    const capexBudgetDepr = capexBudget / deprPeriod;
+                    const capexBudgetDepr = school.budget.capexBudget / school.budget.depreciationYears;
                     return {
                       facOpEx: Math.round((facActual - facBudget) / cap),
                       capExDepr: Math.round((school.costs.annualDepreciation.total - capexBudgetDepr) / cap),
@@ -1366,7 +1308,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                                   <tr key={school.id} className="hover:bg-slate-700/40 cursor-pointer bg-slate-800/20" onClick={() => setSelectedSchool(school)}>
                                     <td className="px-2 py-2 pl-8 sticky left-0 z-10" style={{boxShadow: '2px 0 4px -2px rgba(0,0,0,0.06)'}}>
                                       <div className="font-medium text-slate-200 text-sm">{school.displayName}</div>
-                                      <div className="text-[11px] text-slate-500">${school.tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span></div>
+                                      <div className="text-[11px] text-slate-500">${school.tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span>{school.ramp && <> | Projected {school.ramp.healthVerdict}{school.ramp.targetYear !== null ? `, target yr ${school.ramp.targetYear}` : ''}</>}{school.isEstimated && <span className="text-amber-400"> | Estimated</span>}</div>
                                     </td>
                                     <td className="px-2 py-2 text-center">{school.capacity}</td>
                                     <td className="px-2 py-2 text-right">{formatCurrency(budget)}</td>
@@ -1472,8 +1414,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                           const tBudget = ts.reduce((s, sc) => s + sc.budget.capexBudget, 0);
                           const tActual = ts.reduce((s, sc) => s + sc.costs.capexBuildout, 0);
                           const tDepr = ts.reduce((s, sc) => s + sc.costs.annualDepreciation.total, 0);
-                          const tDeprPeriod = tDepr > 0 ? tActual / tDepr : 10;
-                          const tBudgetDepr = tBudget / tDeprPeriod;
+                          const tBudgetDepr = ts.reduce((s, sc) => s + sc.budget.capexBudget / sc.budget.depreciationYears, 0);
                           const tAbsVar = tActual - tBudget;
                           const tDeprVarPS = (tDepr - tBudgetDepr) / tCap;
                           return (
@@ -1495,15 +1436,14 @@ const FacilitiesCapexDashboard: React.FC = () => {
                                 const cap = Math.max(school.capacity, 1);
                                 const budget = school.budget.capexBudget; const actual = school.costs.capexBuildout;
                                 const annDepr = school.costs.annualDepreciation.total;
-                                const deprPeriod = annDepr > 0 ? actual / annDepr : 10;
-                                const budgetDepr = budget / deprPeriod; const absVar = actual - budget;
+                                const budgetDepr = budget / school.budget.depreciationYears; const absVar = actual - budget;
                                 const deprVarPS = (annDepr - budgetDepr) / cap;
                                 const pctT = school.tuition > 0 ? (deprVarPS / school.tuition) * 100 : 0;
                                 return (
                                   <tr key={school.id} className="hover:bg-slate-700/40 cursor-pointer bg-slate-800/20" onClick={() => setSelectedSchool(school)}>
                                     <td className="px-2 py-2 pl-8 sticky left-0 z-10" style={{boxShadow: '2px 0 4px -2px rgba(0,0,0,0.06)'}}>
                                       <div className="font-medium text-slate-200 text-sm">{school.displayName}</div>
-                                      <div className="text-[11px] text-slate-500">${school.tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span></div>
+                                      <div className="text-[11px] text-slate-500">${school.tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span>{school.ramp && <> | Projected {school.ramp.healthVerdict}{school.ramp.targetYear !== null ? `, target yr ${school.ramp.targetYear}` : ''}</>}{school.isEstimated && <span className="text-amber-400"> | Estimated</span>}</div>
                                     </td>
                                     <td className="px-2 py-2 text-center">{school.capacity}</td>
                                     <td className="px-2 py-2 text-right">{formatCurrency(budget)}</td>
@@ -1524,8 +1464,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                         })}
                         {(() => {
                           const pBudget = summary.totalCapexBudget; const pActual = summary.totalCapexBuildout;
-                          const pDeprPeriod = summary.totalAnnualDepreciation > 0 ? pActual / summary.totalAnnualDepreciation : 10;
-                          const pBudgetDepr = pBudget / pDeprPeriod; const pActualDepr = summary.totalAnnualDepreciation;
+                          const pBudgetDepr = schools.reduce((s, sc) => s + sc.budget.capexBudget / sc.budget.depreciationYears, 0); const pActualDepr = summary.totalAnnualDepreciation;
                           const pAbsVar = pActual - pBudget; const pDeprVarPS = (pActualDepr - pBudgetDepr) / pCap;
                           return (
                             <tr className="bg-gray-100 font-bold border-t-2 border-gray-400">
@@ -1546,7 +1485,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
       </div>
                   {/* CapEx B/A per seat by type */}
                   <div className="px-5 pb-4 border-t border-slate-700/50 pt-3">
-                    <div className="text-[10px] text-slate-500 font-medium uppercase tracking-wide mb-2">CapEx Model vs Actual — Per Seat by Type</div>
+                    <div className="text-[10px] text-slate-500 font-medium uppercase tracking-wide mb-2">CapEx Model vs Actual — Per Seat by Type <span className="normal-case tracking-normal">(click a type for project line items)</span></div>
                     <div className="overflow-x-auto">
                       <table className="w-full text-xs">
                         <thead>
@@ -1566,14 +1505,31 @@ const FacilitiesCapexDashboard: React.FC = () => {
                             const bgt = ts.reduce((s, sc) => s + sc.budget.capexBudget, 0);
                             const act = ts.reduce((s, sc) => s + sc.costs.capexBuildout, 0);
                             const v = act - bgt;
+                            const isOpen = capexLedgerType === type;
                             return (
-                              <tr key={type} className="border-b border-slate-700/30">
-                                <td className="py-1.5 text-slate-200 font-medium">{schoolTypeLabels[type]} ({ts.length})</td>
-                                <td className="py-1.5 text-center text-slate-300">{cap}</td>
-                                <td className="py-1.5 text-right text-blue-300">${Math.round(bgt / cap).toLocaleString()}</td>
-                                <td className="py-1.5 text-right text-white">${Math.round(act / cap).toLocaleString()}</td>
-                                <td className={`py-1.5 text-right font-bold ${v > 0 ? 'text-red-400' : 'text-green-400'}`}>{v > 0 ? '+' : ''}${Math.round(v / cap).toLocaleString()}</td>
-                              </tr>
+                              <React.Fragment key={type}>
+                                <tr className="border-b border-slate-700/30 cursor-pointer hover:bg-slate-700/40" onClick={() => setCapexLedgerType(isOpen ? null : type)}>
+                                  <td className="py-1.5 text-slate-200 font-medium"><span className="text-slate-400 mr-1.5">{isOpen ? '▼' : '▶'}</span>{schoolTypeLabels[type]} ({ts.length})</td>
+                                  <td className="py-1.5 text-center text-slate-300">{cap}</td>
+                                  <td className="py-1.5 text-right text-blue-300">${Math.round(bgt / cap).toLocaleString()}</td>
+                                  <td className="py-1.5 text-right text-white">${Math.round(act / cap).toLocaleString()}</td>
+                                  <td className={`py-1.5 text-right font-bold ${v > 0 ? 'text-red-400' : 'text-green-400'}`}>{v > 0 ? '+' : ''}${Math.round(v / cap).toLocaleString()}</td>
+                                </tr>
+                                {isOpen && (
+                                  <tr className="border-b border-slate-700/30 bg-slate-800/40">
+                                    <td colSpan={5} className="px-3 py-3">
+                                      <CapexLedger
+                                        schools={ts}
+                                        items={capexLedger}
+                                        completeSchoolIds={completeCapexLedgers}
+                                        onChangeItems={setCapexLedger}
+                                        onChangeComplete={setCompleteCapexLedgers}
+                                        onSelectSchool={setSelectedSchool}
+                                      />
+                                    </td>
+                                  </tr>
+                                )}
+                              </React.Fragment>
                             );
                           })}
                           <tr className="border-t border-slate-600 font-bold">
@@ -1626,11 +1582,11 @@ const FacilitiesCapexDashboard: React.FC = () => {
                   const computeMargins = (school: SchoolData) => {
                     const facTotal = school.costs.lease.total + school.costs.fixedFacilities.total +
                       school.costs.variableFacilities.total + school.costs.studentServices.total;
-                    const ue = calculateUnitEconomics(school.tuition, school.capacity, facTotal, school.costs.annualDepreciation.total);
+                    const ue = calculateUnitEconomics(school.tuition, school.capacity, facTotal, school.costs.annualDepreciation.total, staffingModel);
                     const modelFacTotal = school.budget.modelFacPerStudent * school.capacity;
-                    const modelCapexAnn = school.budget.capexBudget / 10;
-                    const ueModel = calculateUnitEconomics(school.tuition, school.capacity, modelFacTotal, modelCapexAnn);
-                    return { model: ueModel.marginPct, actual: ue.marginPct, target: getTargetPct(school.tuition) };
+                    const modelCapexAnn = school.budget.capexBudget / school.budget.depreciationYears;
+                    const ueModel = calculateUnitEconomics(school.tuition, school.capacity, modelFacTotal, modelCapexAnn, staffingModel);
+                    return { model: ueModel.marginPct, actual: ue.marginPct, target: getTargetPct(school.tuition, targetPolicy) };
                   };
 
                   // Type-level summary (capacity-weighted avg margins)
@@ -1640,7 +1596,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     const totalCap = Math.max(ts.reduce((s, sc) => s + sc.capacity, 0), 1);
                     const wModel = ts.reduce((s, sc) => { const m = computeMargins(sc); return s + m.model * sc.capacity; }, 0) / totalCap;
                     const wActual = ts.reduce((s, sc) => { const m = computeMargins(sc); return s + m.actual * sc.capacity; }, 0) / totalCap;
-                    const wTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition) * sc.capacity, 0) / totalCap);
+                    const wTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition, targetPolicy) * sc.capacity, 0) / totalCap);
                     return {
                       name: `${schoolTypeLabels[type]} (${ts.length})`,
                       type,
@@ -1754,15 +1710,15 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     const wMargin = ts.reduce((s, sc) => {
                       const facTotal = sc.costs.lease.total + sc.costs.fixedFacilities.total +
                         sc.costs.variableFacilities.total + sc.costs.studentServices.total;
-                      const ue = calculateUnitEconomics(sc.tuition, sc.capacity, facTotal, sc.costs.annualDepreciation.total);
+                      const ue = calculateUnitEconomics(sc.tuition, sc.capacity, facTotal, sc.costs.annualDepreciation.total, staffingModel);
                       return s + ue.marginPct * sc.capacity;
                     }, 0) / totalCap;
-                    const target = getTargetPct(ts[0].tuition);
+                    const target = getTargetPct(ts[0].tuition, targetPolicy);
                     const passCount = ts.filter(sc => {
                       const facTotal = sc.costs.lease.total + sc.costs.fixedFacilities.total +
                         sc.costs.variableFacilities.total + sc.costs.studentServices.total;
-                      const ue = calculateUnitEconomics(sc.tuition, sc.capacity, facTotal, sc.costs.annualDepreciation.total);
-                      return ue.marginPct >= getTargetPct(sc.tuition);
+                      const ue = calculateUnitEconomics(sc.tuition, sc.capacity, facTotal, sc.costs.annualDepreciation.total, staffingModel);
+                      return ue.marginPct >= getTargetPct(sc.tuition, targetPolicy);
                     }).length;
                     return { tier, label: tuitionTierLabels[tier], avgMargin: parseFloat(wMargin.toFixed(1)), target, passCount, total: ts.length, totalCap };
                   }).filter((d): d is NonNullable<typeof d> => d !== null);
@@ -1776,8 +1732,8 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     .map(s => {
                       const facTotal = s.costs.lease.total + s.costs.fixedFacilities.total +
                         s.costs.variableFacilities.total + s.costs.studentServices.total;
-                      const ue = calculateUnitEconomics(s.tuition, s.capacity, facTotal, s.costs.annualDepreciation.total);
-                      return { school: s, margin: ue.marginPct, target: getTargetPct(s.tuition) };
+                      const ue = calculateUnitEconomics(s.tuition, s.capacity, facTotal, s.costs.annualDepreciation.total, staffingModel);
+                      return { school: s, margin: ue.marginPct, target: getTargetPct(s.tuition, targetPolicy) };
                     }).sort((a, b) => b.margin - a.margin)
                   : [];
 
@@ -1927,11 +1883,11 @@ const FacilitiesCapexDashboard: React.FC = () => {
                           const tFacTotal = ts.reduce((s, sc) => s + sc.costs.lease.total + sc.costs.fixedFacilities.total + sc.costs.variableFacilities.total + sc.costs.studentServices.total, 0);
                           const tCapexAnn = ts.reduce((s, sc) => s + sc.costs.annualDepreciation.total, 0);
                           const tRevenue = ts.reduce((s, sc) => s + sc.tuition * sc.capacity, 0);
-                          const tUe = calculateUnitEconomics(tRevenue / tCap, tCap, tFacTotal, tCapexAnn);
+                          const tUe = calculateUnitEconomics(tRevenue / tCap, tCap, tFacTotal, tCapexAnn, staffingModel);
                           const tModelFac = ts.reduce((s, sc) => s + sc.budget.modelFacPerStudent * sc.capacity, 0);
-                          const tModelCapex = ts.reduce((s, sc) => s + sc.budget.capexBudget / 10, 0);
-                          const tUeModel = calculateUnitEconomics(tRevenue / tCap, tCap, tModelFac, tModelCapex);
-                          const tTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition) * sc.capacity, 0) / tCap);
+                          const tModelCapex = ts.reduce((s, sc) => s + sc.budget.capexBudget / sc.budget.depreciationYears, 0);
+                          const tUeModel = calculateUnitEconomics(tRevenue / tCap, tCap, tModelFac, tModelCapex, staffingModel);
+                          const tTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition, targetPolicy) * sc.capacity, 0) / tCap);
                           const tGap = tUe.marginPct - tUeModel.marginPct;
                           return (
                             <React.Fragment key={type}>
@@ -1956,16 +1912,16 @@ const FacilitiesCapexDashboard: React.FC = () => {
                                 </td>
                               </tr>
                               {isExp && [...ts].sort((a, b) => {
-                                const ueA = calculateUnitEconomics(a.tuition, a.capacity, a.costs.lease.total + a.costs.fixedFacilities.total + a.costs.variableFacilities.total + a.costs.studentServices.total, a.costs.annualDepreciation.total);
-                                const ueB = calculateUnitEconomics(b.tuition, b.capacity, b.costs.lease.total + b.costs.fixedFacilities.total + b.costs.variableFacilities.total + b.costs.studentServices.total, b.costs.annualDepreciation.total);
+                                const ueA = calculateUnitEconomics(a.tuition, a.capacity, a.costs.lease.total + a.costs.fixedFacilities.total + a.costs.variableFacilities.total + a.costs.studentServices.total, a.costs.annualDepreciation.total, staffingModel);
+                                const ueB = calculateUnitEconomics(b.tuition, b.capacity, b.costs.lease.total + b.costs.fixedFacilities.total + b.costs.variableFacilities.total + b.costs.studentServices.total, b.costs.annualDepreciation.total, staffingModel);
                                 return ueA.marginPct - ueB.marginPct;
                               }).map(school => {
                                 const facTotal = school.costs.lease.total + school.costs.fixedFacilities.total + school.costs.variableFacilities.total + school.costs.studentServices.total;
-                                const ue = calculateUnitEconomics(school.tuition, school.capacity, facTotal, school.costs.annualDepreciation.total);
+                                const ue = calculateUnitEconomics(school.tuition, school.capacity, facTotal, school.costs.annualDepreciation.total, staffingModel);
                                 const modelFacTotal = school.budget.modelFacPerStudent * school.capacity;
-                                const modelCapexAnn = school.budget.capexBudget / 10;
-                                const ueModel = calculateUnitEconomics(school.tuition, school.capacity, modelFacTotal, modelCapexAnn);
-                                const target = getTargetPct(school.tuition);
+                                const modelCapexAnn = school.budget.capexBudget / school.budget.depreciationYears;
+                                const ueModel = calculateUnitEconomics(school.tuition, school.capacity, modelFacTotal, modelCapexAnn, staffingModel);
+                                const target = getTargetPct(school.tuition, targetPolicy);
                                 const hitsTarget = ue.marginPct >= target;
                                 const marginGap = ue.marginPct - ueModel.marginPct;
                                 const facGapPS = ue.facilitiesPerStudent - ueModel.facilitiesPerStudent;
@@ -2035,12 +1991,12 @@ const FacilitiesCapexDashboard: React.FC = () => {
                           const tFacTotal = ts.reduce((s, sc) => s + sc.costs.lease.total + sc.costs.fixedFacilities.total + sc.costs.variableFacilities.total + sc.costs.studentServices.total, 0);
                           const tCapexAnn = ts.reduce((s, sc) => s + sc.costs.annualDepreciation.total, 0);
                           const tRevenue = ts.reduce((s, sc) => s + sc.tuition * sc.capacity, 0);
-                          const tUeAtCap = calculateUnitEconomics(tRevenue / Math.max(tCap, 1), tCap, tFacTotal, tCapexAnn);
-                          const tTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition) * sc.capacity, 0) / Math.max(tCap, 1));
+                          const tUeAtCap = calculateUnitEconomics(tRevenue / Math.max(tCap, 1), tCap, tFacTotal, tCapexAnn, staffingModel);
+                          const tTarget = Math.round(ts.reduce((s, sc) => s + getTargetPct(sc.tuition, targetPolicy) * sc.capacity, 0) / Math.max(tCap, 1));
                           const tPassCount = ts.filter(sc => {
                             const fac = sc.costs.lease.total + sc.costs.fixedFacilities.total + sc.costs.variableFacilities.total + sc.costs.studentServices.total;
-                            const ue = calculateUnitEconomics(sc.tuition, sc.capacity, fac, sc.costs.annualDepreciation.total);
-                            return ue.marginPct >= getTargetPct(sc.tuition);
+                            const ue = calculateUnitEconomics(sc.tuition, sc.capacity, fac, sc.costs.annualDepreciation.total, staffingModel);
+                            return ue.marginPct >= getTargetPct(sc.tuition, targetPolicy);
                           }).length;
                           return (
                             <React.Fragment key={type}>
@@ -2062,15 +2018,15 @@ const FacilitiesCapexDashboard: React.FC = () => {
                               {isExp && ts.map(school => {
                                 const facTotal = school.costs.lease.total + school.costs.fixedFacilities.total + school.costs.variableFacilities.total + school.costs.studentServices.total;
                                 const capexAnn = school.costs.annualDepreciation.total;
-                                const target = getTargetPct(school.tuition);
+                                const target = getTargetPct(school.tuition, targetPolicy);
                                 let beStudents = 0; let targetStudents = 0;
                                 for (let s = 1; s <= school.capacity * 2; s++) {
-                                  const ue = calculateUnitEconomics(school.tuition, s, facTotal, capexAnn);
+                                  const ue = calculateUnitEconomics(school.tuition, s, facTotal, capexAnn, staffingModel);
                                   if (beStudents === 0 && ue.margin >= 0) beStudents = s;
                                   if (targetStudents === 0 && ue.marginPct >= target) targetStudents = s;
                                   if (beStudents > 0 && targetStudents > 0) break;
                                 }
-                                const ueAtCap = calculateUnitEconomics(school.tuition, school.capacity, facTotal, capexAnn);
+                                const ueAtCap = calculateUnitEconomics(school.tuition, school.capacity, facTotal, capexAnn, staffingModel);
                                 const canBE = beStudents > 0 && beStudents <= school.capacity;
                                 const canTarget = targetStudents > 0 && targetStudents <= school.capacity;
                                 const gapToBE = beStudents > 0 ? beStudents - school.currentEnrollment : school.capacity;
@@ -2109,9 +2065,101 @@ const FacilitiesCapexDashboard: React.FC = () => {
               </>
             );
           })()}
+
+          <SensitivityTornado schools={schools} staffingModel={staffingModel} />
+        </div>
+      )}
+
+
+      {/* SCENARIOS TAB */}
+      {activeTab === 'scenarios' && (
+        <div className="space-y-6">
+          <ScenarioWorkspace
+            schools={schools}
+            customPresets={customPresets}
+            activePresetId={activePresetId}
+            onSelectPreset={setActivePresetId}
+            onSelectSchool={setSelectedSchool}
+          />
+          <EnrollmentScenarioPlanner
+            schools={schools}
+            scenarios={enrollmentScenarios}
+            customPresets={customPresets}
+            onChangeScenarios={setEnrollmentScenarios}
+            onSelectSchool={setSelectedSchool}
+          />
+          <ClosureSimulator
+            schools={schools}
+            closures={closurePlan}
+            leaseRecords={leaseRecords}
+            assetRegister={assetRegister}
+            preset={findExpensePreset(activePresetId, customPresets)}
+            targetPolicy={targetPolicy}
+            onChangeClosures={setClosurePlan}
+            onSelectSchool={setSelectedSchool}
+          />
+          <MonteCarloPanel
+            schools={schools}
+            targetPolicy={targetPolicy}
+            staffingModel={staffingModel}
+            preset={findExpensePreset(activePresetId, customPresets)}
+          />
         </div>
       )}
 
+      {/* DEAL EVALUATION TAB */}
+      {activeTab === 'deal' && (
+        <DealEvaluationTab
+          schools={schools}
+          staffingModel={staffingModel}
+          targetPolicy={targetPolicy}
+          deals={dealPipeline}
+          onChangeDeals={setDealPipeline}
+          promotedDealIds={promotedSchools.map(p => p.dealId)}
+          onPromote={handlePromoteDeal}
+        />
+      )}
+
+      {/* LEASE CALENDAR TAB */}
+      {activeTab === 'leases' && (
+        <LeaseCalendar
+          schools={schools}
+          summary={summary}
+          records={leaseRecords}
+          onChangeRecords={setLeaseRecords}
+          onSelectSchool={setSelectedSchool}
+        />
+      )}
+
+      {/* CASH FLOW TAB */}
+      {activeTab === 'cashflow' && (
+        <CashFlowTab
+          schools={schools}
+          leaseRecords={leaseRecords}
+          capexLedger={capexLedger}
+          staffingModel={staffingModel}
+          assumptions={cashFlowAssumptions}
+          onChangeAssumptions={setCashFlowAssumptions}
+          onSelectSchool={setSelectedSchool}
+        />
+      )}
+
+      {/* ACTION PLANS TAB */}
+      {activeTab === 'actions' && (
+        <div className="space-y-6">
+          <FixItPlanner
+            schools={schools}
+            peers={allSchools}
+            preset={findExpensePreset(activePresetId, customPresets)}
+            onSelectSchool={setSelectedSchool}
+          />
+          <FillItPlanner
+            schools={schools}
+            schoolYearStartMonth={cashFlowAssumptions.schoolYearStartMonth}
+            onSelectSchool={setSelectedSchool}
+          />
+        </div>
+      )}
 
       {/* OVERVIEW TAB */}
       {activeTab === 'overview' && (
@@ -2146,6 +2194,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
               if (key === 'svc') return svc;
               if (key === 'facTotal') return fixed + vfac + svc;
               if (key === 'total') return lease + capex + fixed + vfac + svc;
+              if (key === 'exitCost') return obligations[s.id]?.exitThisYear.total ?? 0;
               return s.costs.grandTotal / d;
             };
             const sorted = [...sortedSchools].sort((a, b) => {
@@ -2224,6 +2273,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                         <th className="px-2 py-1 text-center text-xs font-bold text-indigo-800 bg-indigo-50 border-l border-indigo-200 cursor-pointer select-none hover:bg-indigo-100" rowSpan={2} onClick={() => toggleSort(setOverviewSort)('leaseCapex')}>Lease+Capex{overviewSort.key==='leaseCapex'?(overviewSort.dir==='asc'?' ▲':' ▼'):''}</th>
                         <th className="px-2 py-1 text-center text-xs font-bold text-emerald-800 bg-emerald-50 border-l border-emerald-200" colSpan={4}>Facilities Costs / Student</th>
                         <th className="px-2 py-1 text-center text-xs font-bold text-indigo-900 bg-indigo-100 border-l-2 border-indigo-300 cursor-pointer select-none hover:bg-indigo-200" rowSpan={2} onClick={() => toggleSort(setOverviewSort)('total')}>Total{overviewSort.key==='total'?(overviewSort.dir==='asc'?' ▲':' ▼'):''}<br/><span className="font-normal text-[10px] text-indigo-500">(ex-HC)</span></th>
+                        <th className="px-2 py-1 text-center text-xs font-bold text-red-800 bg-red-50 border-l-2 border-red-300 cursor-pointer select-none hover:bg-red-100" rowSpan={2} onClick={() => toggleSort(setOverviewSort)('exitCost')}>Exit Cost{overviewSort.key==='exitCost'?(overviewSort.dir==='asc'?' ▲':' ▼'):''}<br/><span className="font-normal text-[10px] text-red-500">(close end {exitYear})</span></th>
                       </tr>
                       {/* Detail header row */}
                       <tr className="bg-gray-50 border-b">
@@ -2253,7 +2303,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                         const tLease = ts.reduce((s, sc) => s + sc.costs.lease.total, 0) / tDiv;
                         const tCapexTotal = ts.reduce((s, sc) => s + sc.costs.capexBuildout, 0);
                         const tAnnDepr = ts.reduce((s, sc) => s + sc.costs.annualDepreciation.total, 0);
-                        const tDeprPeriod = tAnnDepr > 0 ? tCapexTotal / tAnnDepr : 0;
+                        const tDeprPeriod = tAnnDepr > 0 && tCapexTotal > 0 ? ts.reduce((s, sc) => s + sc.costs.capexBuildout * sc.budget.depreciationYears, 0) / tCapexTotal : 0;
                         const tCapexPU = tAnnDepr / tDiv;
                         const tLeaseCapex = tLease + tCapexPU;
                         const tFixed = ts.reduce((s, sc) => s + sc.costs.fixedFacilities.total, 0) / tDiv;
@@ -2279,6 +2329,13 @@ const FacilitiesCapexDashboard: React.FC = () => {
                               <DollarPctCell val={tSvc} tuition={tTuition} bg="bg-orange-50/20" bold />
                               <DollarPctCell val={tFacTotal} tuition={tTuition} bg="bg-emerald-50/30" bold />
                               <DollarPctCell val={tLeaseCapex + tFacTotal} tuition={tTuition} bg="answer-glow" bold />
+                              <td className="px-2 py-2.5 text-right text-red-400 font-semibold border-l-2 border-red-200">
+                                {formatCurrency(ts.reduce((s, sc) => s + (obligations[sc.id]?.exitThisYear.total ?? 0), 0))}
+                                {(() => {
+                                  const n = ts.filter(sc => obligations[sc.id]?.assumedCapex).length;
+                                  return n > 0 && <span className="text-amber-400" title={assumedCapexTitle(n)}> *</span>;
+                                })()}
+                              </td>
                             </tr>
                             {isExp && ts.map(school => {
                               const div = getDivisor(school);
@@ -2286,7 +2343,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                               const leasePerUnit = school.costs.lease.total / div;
                               const totalCapex = school.costs.capexBuildout;
                               const annualDepr = school.costs.annualDepreciation.total;
-                              const deprPeriod = annualDepr > 0 ? totalCapex / annualDepr : 0;
+                              const deprPeriod = annualDepr > 0 ? school.budget.depreciationYears : 0;
                               const capexPerUnit = annualDepr / div;
                               const leaseCapex = leasePerUnit + capexPerUnit;
                               const fixedFac = school.costs.fixedFacilities.total / div;
@@ -2298,7 +2355,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                                 <tr key={school.id} className="hover:bg-slate-700/40 cursor-pointer bg-slate-800/20" onClick={() => setSelectedSchool(school)}>
                                   <td className="px-2 py-2 pl-8 sticky left-0 z-10" style={{boxShadow: '2px 0 4px -2px rgba(0,0,0,0.06)'}}>
                                     <div className="font-medium text-slate-200 text-sm">{school.displayName}</div>
-                                    <div className="text-[11px] text-slate-500">${tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span></div>
+                                    <div className="text-[11px] text-slate-500">${tuition.toLocaleString()} | <span className={school.isOperating ? 'text-green-400' : 'text-slate-500'}>{school.isOperating ? 'Operating' : 'Pre-Opening'}</span>{school.ramp && <> | Projected {school.ramp.healthVerdict}{school.ramp.targetYear !== null ? `, target yr ${school.ramp.targetYear}` : ''}</>}{school.isEstimated && <span className="text-amber-400"> | Estimated</span>}</div>
                                   </td>
                                   <td className="px-2 py-2 text-center text-sm">{basisVal.toLocaleString()}</td>
                                   <DollarPctCell val={leasePerUnit} tuition={tuition} bg="bg-blue-50/30" />
@@ -2312,6 +2369,13 @@ const FacilitiesCapexDashboard: React.FC = () => {
                                   <DollarPctCell val={svc} tuition={tuition} bg="bg-orange-50/20" />
                                   <DollarPctCell val={facTotal} tuition={tuition} bg="bg-emerald-50/30" bold />
                                   <DollarPctCell val={leaseCapex + facTotal} tuition={tuition} bg="answer-glow" bold />
+                                  <td className="px-2 py-2 text-right border-l-2 border-red-200">
+                                    <div className="text-red-400">
+                                      {formatCurrency(obligations[school.id]?.exitThisYear.total ?? 0)}
+                                      {obligations[school.id]?.assumedCapex && <span className="text-amber-400" title={assumedCapexTitle(1)}> *</span>}
+                                    </div>
+                                    <div className="text-[10px] text-slate-400">{exitYear + 1}: {formatCurrency(obligations[school.id]?.exitNextYear.total ?? 0)}</div>
+                                  </td>
                                 </tr>
                               );
                             })}
@@ -2327,7 +2391,9 @@ const FacilitiesCapexDashboard: React.FC = () => {
                         const pVar = summary.totalVariableFacilities / portfolioDivisor;
                         const pSvc = summary.totalStudentServices / portfolioDivisor;
                         const pFacTotal = pFixed + pVar + pSvc;
-                        const pDeprPeriod = summary.totalAnnualDepreciation > 0 ? summary.totalCapexBuildout / summary.totalAnnualDepreciation : 0;
+                        const pDeprPeriod = summary.totalAnnualDepreciation > 0 && summary.totalCapexBuildout > 0
+                          ? schools.reduce((s, sc) => s + sc.costs.capexBuildout * sc.budget.depreciationYears, 0) / summary.totalCapexBuildout
+                          : 0;
                         const pTuition = weightedTuition;
                         return (
                           <tr className="bg-gray-100 font-bold border-t-2 border-gray-400">
@@ -2344,6 +2410,14 @@ const FacilitiesCapexDashboard: React.FC = () => {
                             <DollarPctCell val={pSvc} tuition={pTuition} bg="bg-orange-100/30" />
                             <DollarPctCell val={pFacTotal} tuition={pTuition} bg="bg-emerald-100/40" bold />
                             <DollarPctCell val={pLeaseCapex + pFacTotal} tuition={pTuition} bg="answer-glow" bold />
+                            <td className="px-2 py-3 text-right border-l-2 border-red-300">
+                              <div className="text-red-400">{formatCurrency(schools.reduce((s, sc) => s + (obligations[sc.id]?.exitThisYear.total ?? 0), 0))}</div>
+                              <div className="text-[10px] font-normal text-slate-400">{exitYear + 1}: {formatCurrency(schools.reduce((s, sc) => s + (obligations[sc.id]?.exitNextYear.total ?? 0), 0))}</div>
+                              {(() => {
+                                const n = schools.filter(sc => obligations[sc.id]?.assumedCapex).length;
+                                return n > 0 && <div className="text-[10px] font-normal text-amber-500" title={assumedCapexTitle(n)}>* {n} assumed write-off{n === 1 ? '' : 's'}</div>;
+                              })()}
+                            </td>
                           </tr>
                         );
                       })()}
@@ -2496,6 +2570,18 @@ const FacilitiesCapexDashboard: React.FC = () => {
               </button>
             </div>
 
+            {(() => {
+              const promoted = selectedSchool.isEstimated ? promotedSchools.find(p => p.id === selectedSchool.id) : undefined;
+              if (!promoted) return null;
+              return (
+                <PromotedSchoolEditor
+                  school={promoted}
+                  onChange={(next) => setPromotedSchools(promotedSchools.map(p => (p.id === next.id ? next : p)))}
+                  onRemove={() => setPromotedSchools(promotedSchools.filter(p => p.id !== promoted.id))}
+                />
+              );
+            })()}
+
             {/* Verdict Banner */}
             <div className={`rounded-lg p-4 mb-6 ${
               selectedSchool.healthScore === 'green' ? 'bg-green-900/30 border border-green-700' :
@@ -2531,6 +2617,21 @@ const FacilitiesCapexDashboard: React.FC = () => {
                   </div>
                 </div>
               )}
+              {selectedSchool.ramp && (
+                <PreOpeningRamp school={selectedSchool} overrides={rampOverrides} onChangeOverrides={setRampOverrides} />
+              )}
+              {selectedSchool.healthScore === 'red' && (
+                <button
+                  onClick={() => {
+                    if (!closurePlan.some(c => c.schoolId === selectedSchool.id)) setClosurePlan([...closurePlan, defaultClosure(selectedSchool.id)]);
+                    setActiveTab('scenarios');
+                    setSelectedSchool(null);
+                  }}
+                  className="mt-3 text-xs text-blue-400 hover:text-blue-300 font-medium"
+                >
+                  {closurePlan.some(c => c.schoolId === selectedSchool.id) ? 'View closure simulation →' : 'Simulate closure →'}
+                </button>
+              )}
             </div>
 
             <div className="space-y-6">
@@ -2621,6 +2722,149 @@ const FacilitiesCapexDashboard: React.FC = () => {
                 </div>
               </div>
 
+              {/* Lease Obligation & Exit Cost */}
+              {(() => {
+                const ob = obligations[selectedSchool.id];
+                if (!ob) return null;
+                const exits = [ob.exitThisYear, ob.exitNextYear];
+                return (
+                  <div>
+                    <h3 className="font-medium mb-1">Lease Obligation & Exit Cost</h3>
+                    {ob.assumedLease && (
+                      <p className="text-xs text-amber-400 mb-2">No lease on file — assumed terms (see Lease Calendar).</p>
+                    )}
+                    {ob.assumedCapex && (
+                      <p className="text-xs text-amber-400 mb-2">Nothing on the asset register and no lease on file — the capex write-off is close to the full buildout.</p>
+                    )}
+                    <div className="space-y-2 text-sm mb-3">
+                      <div className="flex justify-between">
+                        <span className="text-slate-300">Remaining contractual rent:</span>
+                        <span className="font-medium">{formatCurrency(ob.remainingRent)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-300">Lease expires:</span>
+                        <span className="font-medium">{ob.expiration}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-300">Unamortized capex today:</span>
+                        <span className="font-medium">{formatCurrency(ob.unamortizedCapex)}</span>
+                      </div>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-700/50">
+                          <th className="py-1.5 text-left text-slate-400 font-medium">Close at end of</th>
+                          {exits.map(e => (
+                            <th key={e.closeMonth} className="py-1.5 text-right text-slate-400 font-medium">{Number(e.closeMonth.slice(0, 4)) - 1}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="border-b border-slate-700/30">
+                          <td className="py-1.5 text-slate-300">Rent still owed</td>
+                          {exits.map(e => (<td key={e.closeMonth} className="py-1.5 text-right">{formatCurrency(e.lease.rentUntilExit)}</td>))}
+                        </tr>
+                        <tr className="border-b border-slate-700/30">
+                          <td className="py-1.5 text-slate-300">Termination penalty</td>
+                          {exits.map(e => (<td key={e.closeMonth} className="py-1.5 text-right">{e.lease.viaClause ? formatCurrency(e.lease.penalty) : '—'}</td>))}
+                        </tr>
+                        <tr className="border-b border-slate-700/30">
+                          <td className="py-1.5 text-slate-300">Capex write-off</td>
+                          {exits.map(e => (<td key={e.closeMonth} className="py-1.5 text-right">{formatCurrency(e.unamortizedCapex)}</td>))}
+                        </tr>
+                        <tr className="font-bold">
+                          <td className="py-1.5 text-white">Exit cost</td>
+                          {exits.map(e => (<td key={e.closeMonth} className="py-1.5 text-right text-red-400">{formatCurrency(e.total)}</td>))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })()}
+
+              {/* Marginal Economics */}
+              <div>
+                <h3 className="font-medium mb-1">Marginal Economics — Next N Students</h3>
+                <p className="text-xs text-slate-400 mb-3">Incremental revenue, staffing and facilities of each added student; rent and depreciation held.</p>
+                <MarginalEconomicsChart
+                  key={selectedSchool.id}
+                  school={selectedSchool}
+                  preset={findExpensePreset(activePresetId, customPresets)}
+                  staffingModel={staffingModel}
+                />
+              </div>
+
+              {/* Goal Seek */}
+              <div>
+                <h3 className="font-medium mb-1">Goal Seek</h3>
+                <p className="text-xs text-slate-400 mb-3">Enrollment, tuition, rent or food cost that reaches the target margin, everything else held.</p>
+                <GoalSeekPanel
+                  key={selectedSchool.id}
+                  school={selectedSchool}
+                  preset={findExpensePreset(activePresetId, customPresets)}
+                  staffingModel={staffingModel}
+                />
+              </div>
+
+              {/* Five-Year Projection */}
+              <div>
+                <h3 className="font-medium mb-1">Five-Year Projection</h3>
+                <p className="text-xs text-slate-400 mb-3">Enrollment ramp, tuition increases, cost inflation and lease escalators; capex outlay in year 0.</p>
+                <MultiYearProjection
+                  key={selectedSchool.id}
+                  school={selectedSchool}
+                  leaseRecords={leaseRecords}
+                  assetRegister={assetRegister}
+                  preset={findExpensePreset(activePresetId, customPresets)}
+                  staffingModel={staffingModel}
+                />
+              </div>
+
+              {/* Period History — monthly series when imported, else fiscal years */}
+              {(() => {
+                const months = selectedSchool.history.filter(h => h.kind === 'month');
+                const series = (months.length >= 2 ? months : selectedSchool.history.filter(h => h.kind === 'fiscal-year')).slice(-24);
+                if (series.length < 2) return null;
+                const data = series.map(h => ({
+                  label: formatPeriodLabel(h.period),
+                  enrollment: h.enrollment,
+                  lease: h.costs.lease.total,
+                  fixedFacilities: h.costs.fixedFacilities.total,
+                  variableFacilities: h.costs.variableFacilities.total,
+                  studentServices: h.costs.studentServices.total,
+                  security: h.costs.fixedFacilities.security,
+                }));
+                const first = data[0];
+                const last = data[data.length - 1];
+                const securityChange = first.security > 0 ? ((last.security - first.security) / first.security) * 100 : 0;
+                return (
+                  <div>
+                    <h3 className="font-medium mb-1">Period History</h3>
+                    <p className="text-xs text-slate-400 mb-3">
+                      {months.length >= 2 ? 'Monthly actuals (not annualized)' : 'Fiscal-year actuals'} | Enrollment {first.enrollment} → {last.enrollment}
+                      {first.security > 0 && <> | Security {securityChange >= 0 ? '+' : ''}{securityChange.toFixed(0)}% ({first.label} → {last.label})</>}
+                    </p>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                        <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                        <YAxis tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 10, fill: '#94a3b8' }} width={50} />
+                        <Tooltip
+                          formatter={(value: number) => formatCurrency(value)}
+                          contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        <Line type="monotone" dataKey="lease" name="Lease" stroke={categoryColors.lease} strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="fixedFacilities" name="Fixed Fac." stroke={categoryColors.fixedFacilities} strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="variableFacilities" name="Variable Fac." stroke={categoryColors.variableFacilities} strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="studentServices" name="Student Svcs" stroke={categoryColors.studentServices} strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="security" name="Security" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 3" dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                );
+              })()}
+
               {/* Budget: Net Fac Fees */}
               <div>
                 <h3 className="font-medium mb-3">Net Facilities Fees — Budget</h3>
@@ -2657,7 +2901,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     <span className="font-medium">{selectedSchool.budget.capexBudget > 0 ? formatCurrency(selectedSchool.budget.capexBudget) : <span className="text-slate-500">No model</span>}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-slate-300">Actual Buildout:</span>
+                    <span className="text-slate-300">Actual Buildout{reconcileCapexLedger(selectedSchool, capexLedger, completeCapexLedgers.includes(selectedSchool.id)).fromLedger ? ' (ledger)' : ''}:</span>
                     <span className="font-medium text-red-400">{formatCurrency(selectedSchool.budget.capexBuildout)}</span>
                   </div>
                   {selectedSchool.budget.capexBudget > 0 && (
@@ -2673,7 +2917,7 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     <span className="font-medium">{formatCurrency(selectedSchool.budget.capexPerSeat)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-slate-300">Annual Depreciation:</span>
+                    <span className="text-slate-300">Annual Depreciation{selectedSchool.costs.annualDepreciation.fromRegister ? ' (register)' : ''}:</span>
                     <span className="font-medium text-slate-700">{formatCurrency(selectedSchool.budget.annualDepreciation)}</span>
                   </div>
                   <div className="flex justify-between">
@@ -2681,6 +2925,16 @@ const FacilitiesCapexDashboard: React.FC = () => {
                     <span className="font-medium">{formatCurrency(selectedSchool.budget.depreciationPerSeat)}</span>
                   </div>
                 </div>
+                <h4 className="text-sm font-medium mt-4 mb-2">Project Ledger</h4>
+                <CapexLedger
+                  schools={[selectedSchool]}
+                  items={capexLedger}
+                  completeSchoolIds={completeCapexLedgers}
+                  onChangeItems={setCapexLedger}
+                  onChangeComplete={setCompleteCapexLedgers}
+                />
+                <h4 className="text-sm font-medium mt-4 mb-2">Fixed-Asset Register</h4>
+                <FixedAssetRegister school={selectedSchool} assets={assetRegister} onChangeAssets={setAssetRegister} />
               </div>
 
               {/* Space Analysis */}
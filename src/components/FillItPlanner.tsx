@@ -0,0 +1,160 @@
+/**
+ * Fill-It enrollment planner (Action Plans tab).
+ *
+ * Students needed to reach target by the deadline, as monthly leads and tours
+ * through the funnel, with acquisition cost; ordered by revenue per seat filled.
+ * Funnel assumptions are edited in place and not persisted; the deadline
+ * defaults to the next school-year start from the cash-flow assumptions.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { SchoolData } from '../data/facilitiesCapexData';
+import { defaultFunnelAssumptions, planFillItSchools, type FunnelAssumptions } from '../data/fillItPlanner';
+import { currentMonth } from '../data/leaseSchedule';
+import { formatCurrency, HealthBadge } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; max?: number; onChange: (v: number) => void }> = ({ label, value, step = 1, max, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <input
+      type="number"
+      min={0}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className={`${inputClass} w-20`}
+    />
+  </label>
+);
+
+const perMonth = (v: number) => Math.ceil(v).toLocaleString();
+
+export const FillItPlanner: React.FC<{
+  schools: SchoolData[];
+  schoolYearStartMonth: number;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, schoolYearStartMonth, onSelectSchool }) => {
+  const [assumptions, setAssumptions] = useState<FunnelAssumptions>(() => defaultFunnelAssumptions(currentMonth(), schoolYearStartMonth));
+  const [includeAtRisk, setIncludeAtRisk] = useState(false);
+  const rollup = useMemo(
+    () => planFillItSchools(schools, assumptions, includeAtRisk),
+    [schools, assumptions, includeAtRisk],
+  );
+  const update = (patch: Partial<FunnelAssumptions>) => setAssumptions(a => ({ ...a, ...patch }));
+  // A new school-year start moves the deadline; funnel edits are kept
+  useEffect(() => {
+    setAssumptions(a => ({ ...a, deadline: defaultFunnelAssumptions(currentMonth(), schoolYearStartMonth).deadline }));
+  }, [schoolYearStartMonth]);
+  const funnelPct = (v: number) => Math.min(100, Math.max(1, v));
+
+  return (
+    <div className="table-card rounded-xl overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">Fill-It Planner — Enrollment Gap</h3>
+          <p className="text-xs text-slate-400">Students to reach the facilities target by the deadline, worked back through the marketing funnel</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={includeAtRisk} onChange={(e) => setIncludeAtRisk(e.target.checked)} />
+          Include under-utilized At Risk schools
+        </label>
+      </div>
+
+      <div className="p-5 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            Enrolled by
+            <input
+              type="month"
+              value={assumptions.deadline}
+              onChange={(e) => e.target.value && update({ deadline: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <NumberField label="Lead → tour %" value={assumptions.leadToTourPct} max={100} onChange={(v) => update({ leadToTourPct: funnelPct(v) })} />
+          <NumberField label="Tour → application %" value={assumptions.tourToApplicationPct} max={100} onChange={(v) => update({ tourToApplicationPct: funnelPct(v) })} />
+          <NumberField label="Application → enroll %" value={assumptions.applicationToEnrollPct} max={100} onChange={(v) => update({ applicationToEnrollPct: funnelPct(v) })} />
+          <NumberField label="Cost per lead ($)" value={assumptions.costPerLead} step={10} onChange={(v) => update({ costPerLead: v })} />
+          <button onClick={() => setAssumptions(defaultFunnelAssumptions(currentMonth(), schoolYearStartMonth))} className="text-xs text-blue-400 hover:text-blue-300 font-medium pb-1">Reset</button>
+        </div>
+
+        {rollup.plans.length === 0 ? (
+          <div className="text-sm text-slate-400">No Fill It schools in view{includeAtRisk ? ' or under-utilized at risk' : ''}.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 text-center">
+                <div className="text-xs text-blue-300 font-medium">Students Needed</div>
+                <div className="text-lg font-bold text-white">{rollup.studentsNeeded.toLocaleString()}</div>
+                <div className="text-[10px] text-blue-400">{rollup.plans.length} schools</div>
+              </div>
+              <div className="bg-purple-900/30 border border-purple-700 rounded-lg p-3 text-center">
+                <div className="text-xs text-purple-300 font-medium">Leads / Month</div>
+                <div className="text-lg font-bold text-white">{perMonth(rollup.leadsPerMonth)}</div>
+                <div className="text-[10px] text-purple-400">{perMonth(rollup.toursPerMonth)} tours / month</div>
+              </div>
+              <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
+                <div className="text-xs text-amber-300 font-medium">Acquisition Cost</div>
+                <div className="text-lg font-bold text-white">{formatCurrency(rollup.acquisitionCost)}</div>
+                <div className="text-[10px] text-amber-400">{formatCurrency(rollup.studentsNeeded > 0 ? rollup.acquisitionCost / rollup.studentsNeeded : 0)} per enrollment</div>
+              </div>
+              <div className="bg-green-900/30 border border-green-700 rounded-lg p-3 text-center">
+                <div className="text-xs text-green-300 font-medium">Revenue Gain</div>
+                <div className="text-lg font-bold text-white">{formatCurrency(rollup.annualRevenueGain)}</div>
+                <div className="text-[10px] text-green-400">per year, net of marginal cost</div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700/50 text-slate-400">
+                    <th className="py-1.5 text-left font-medium">School</th>
+                    <th className="py-1.5 text-right font-medium">Rev / Seat</th>
+                    <th className="py-1.5 text-right font-medium">Enrolled → Target</th>
+                    <th className="py-1.5 text-right font-medium">Needed</th>
+                    <th className="py-1.5 text-right font-medium">Leads / Mo</th>
+                    <th className="py-1.5 text-right font-medium">Tours / Mo</th>
+                    <th className="py-1.5 text-right font-medium">Acquisition Cost</th>
+                    <th className="py-1.5 text-right font-medium">Payback</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rollup.plans.map(plan => {
+                    const school = schools.find(s => s.id === plan.schoolId)!;
+                    return (
+                      <tr key={plan.schoolId} className="border-b border-slate-700/30">
+                        <td className="py-1.5 text-slate-200">
+                          <button onClick={() => onSelectSchool(school)} className="text-blue-400 hover:text-blue-300 font-medium">{school.displayName}</button>
+                          <span className="ml-2"><HealthBadge score={school.healthScore} verdict={school.healthVerdict} /></span>
+                        </td>
+                        <td className={`py-1.5 text-right ${plan.revenuePerSeat < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(plan.revenuePerSeat)}</td>
+                        <td className="py-1.5 text-right text-slate-300">
+                          {plan.currentEnrollment} → {plan.targetEnrollment}
+                          {plan.targetAboveCapacity && <span className="text-amber-400" title="Target needs more students than capacity — capped at capacity"> *</span>}
+                        </td>
+                        <td className="py-1.5 text-right text-white font-semibold">{plan.studentsNeeded}</td>
+                        <td className="py-1.5 text-right text-slate-200">{perMonth(plan.leadsPerMonth)}</td>
+                        <td className="py-1.5 text-right text-slate-200">{perMonth(plan.toursPerMonth)}</td>
+                        <td className="py-1.5 text-right text-slate-200">{formatCurrency(plan.acquisitionCost)}</td>
+                        <td className="py-1.5 text-right text-slate-400">
+                          {plan.paybackMonths !== null ? `${plan.paybackMonths.toFixed(1)} mo` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-slate-500">
+              {rollup.plans[0].months} months to the deadline. * Target is above capacity: even full, the school misses target. Payback is acquisition cost per enrollment against monthly revenue per seat.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
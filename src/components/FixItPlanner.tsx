@@ -0,0 +1,142 @@
+/**
+ * Fix-It action planner (Action Plans tab).
+ *
+ * One row per Fix It school in view with its gap to target and what the
+ * above-median cost lines would save; expand a school for its ranked levers.
+ * Benchmarks come from every operating school, not just the filtered ones.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { ExpensePresetRef, SchoolData } from '../data/facilitiesCapexData';
+import { controllabilityLabels, planFixItSchools, type CostLever } from '../data/fixItPlanner';
+import { formatCurrency, HealthBadge } from './shared';
+
+const controllabilityClass: Record<CostLever['costType'], string> = {
+  variable: 'text-green-400',
+  'semi-variable': 'text-amber-400',
+  fixed: 'text-slate-400',
+};
+
+const formatPerUnit = (lever: CostLever, v: number) =>
+  lever.basis === 'sqft' ? `$${v.toFixed(2)}/sqft` : `${formatCurrency(v)}/student`;
+
+export const FixItPlanner: React.FC<{
+  schools: SchoolData[];
+  peers: SchoolData[];
+  preset: ExpensePresetRef;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, peers, preset, onSelectSchool }) => {
+  const [includeAtRisk, setIncludeAtRisk] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const plans = useMemo(
+    () => planFixItSchools(schools, peers, preset, includeAtRisk),
+    [schools, peers, preset, includeAtRisk],
+  );
+  const totalToMedian = plans.reduce((s, p) => s + p.savingsToMedian, 0);
+  const totalToP25 = plans.reduce((s, p) => s + p.savingsToP25, 0);
+
+  return (
+    <div className="table-card rounded-xl overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">Fix-It Planner — Cost Levers</h3>
+          <p className="text-xs text-slate-400">
+            Lines above the portfolio median (fixed lines per sqft, the rest per student), ranked by savings × controllability
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={includeAtRisk} onChange={(e) => setIncludeAtRisk(e.target.checked)} />
+          Include At Risk schools
+        </label>
+      </div>
+
+      {plans.length === 0 ? (
+        <div className="p-5 text-sm text-slate-400">
+          No Fix It schools in view{includeAtRisk ? ' or at risk' : ''}.
+        </div>
+      ) : (
+        <div className="p-5 space-y-3">
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400">
+            <span>{plans.length} schools</span>
+            <span>To median: <span className="text-green-400 font-semibold">{formatCurrency(totalToMedian)}</span>/yr</span>
+            <span>To P25: <span className="text-green-400 font-semibold">{formatCurrency(totalToP25)}</span>/yr</span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50 text-slate-400">
+                <th className="py-1.5 text-left font-medium">School</th>
+                <th className="py-1.5 text-right font-medium">Over Target</th>
+                <th className="py-1.5 text-left font-medium pl-4">Top Lever</th>
+                <th className="py-1.5 text-right font-medium">Savings to Median</th>
+                <th className="py-1.5 text-right font-medium">Savings to P25</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plans.map(plan => {
+                const school = schools.find(s => s.id === plan.schoolId)!;
+                const open = expanded === plan.schoolId;
+                const top = plan.levers[0];
+                return (
+                  <React.Fragment key={plan.schoolId}>
+                    <tr className="border-b border-slate-700/30 hover:bg-slate-800/50 cursor-pointer" onClick={() => setExpanded(open ? null : plan.schoolId)}>
+                      <td className="py-1.5 text-slate-200">
+                        <span className="text-slate-500 mr-1">{open ? '▾' : '▸'}</span>
+                        <button onClick={(e) => { e.stopPropagation(); onSelectSchool(school); }} className="text-blue-400 hover:text-blue-300 font-medium">
+                          {school.displayName}
+                        </button>
+                        <span className="ml-2"><HealthBadge score={school.healthScore} verdict={school.healthVerdict} /></span>
+                      </td>
+                      <td className="py-1.5 text-right text-red-400">{formatCurrency(plan.overTarget)}</td>
+                      <td className="py-1.5 pl-4 text-slate-300">{top ? top.label : <span className="text-slate-500">none above median</span>}</td>
+                      <td className={`py-1.5 text-right ${plan.closesGapAtMedian ? 'text-green-400 font-semibold' : 'text-slate-200'}`}>{formatCurrency(plan.savingsToMedian)}</td>
+                      <td className={`py-1.5 text-right ${plan.closesGapAtP25 ? 'text-green-400 font-semibold' : 'text-slate-200'}`}>{formatCurrency(plan.savingsToP25)}</td>
+                    </tr>
+                    {open && (
+                      <tr className="border-b border-slate-700/30 bg-slate-800/30">
+                        <td colSpan={5} className="px-4 py-3">
+                          {plan.levers.length === 0 ? (
+                            <div className="text-xs text-slate-400">Every line is at or below the portfolio median — the gap is rent, depreciation or tuition.</div>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-slate-400">
+                                  <th className="py-1 text-left font-medium">Line</th>
+                                  <th className="py-1 text-left font-medium">Controllability</th>
+                                  <th className="py-1 text-right font-medium">Actual</th>
+                                  <th className="py-1 text-right font-medium">School</th>
+                                  <th className="py-1 text-right font-medium">Median</th>
+                                  <th className="py-1 text-right font-medium">P25</th>
+                                  <th className="py-1 text-right font-medium">To Median</th>
+                                  <th className="py-1 text-right font-medium">To P25</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {plan.levers.map(lever => (
+                                  <tr key={lever.line} className="border-t border-slate-700/30">
+                                    <td className="py-1 text-slate-200">{lever.label}</td>
+                                    <td className={`py-1 ${controllabilityClass[lever.costType]}`}>{controllabilityLabels[lever.costType]} ({lever.costType})</td>
+                                    <td className="py-1 text-right text-slate-300">{formatCurrency(lever.actual)}</td>
+                                    <td className="py-1 text-right text-slate-200">{formatPerUnit(lever, lever.perUnit)}</td>
+                                    <td className="py-1 text-right text-slate-400">{formatPerUnit(lever, lever.medianPerUnit)}</td>
+                                    <td className="py-1 text-right text-slate-400">{formatPerUnit(lever, lever.p25PerUnit)}</td>
+                                    <td className="py-1 text-right text-green-400">{formatCurrency(lever.savingsToMedian)}</td>
+                                    <td className="py-1 text-right text-green-400">{formatCurrency(lever.savingsToP25)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-500">Green savings close the school's gap to target on their own. Rent and depreciation are excluded.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+/**
+ * Fixed-asset register for one school (detail drawer).
+ *
+ * Once anything is entered the register drives the school's annual
+ * depreciation and depreciation period; until then the reported figure stands
+ * and is shown as one assumed leasehold improvement.
+ */
+
+import React from 'react';
+import type { SchoolData } from '../data/facilitiesCapexData';
+import {
+  assetClasses,
+  assumedFixedAsset,
+  depreciationByYear,
+  depreciationMethodLabels,
+  netBookValue,
+  newFixedAsset,
+  weightedUsefulLife,
+  type AssetClass,
+  type DepreciationMethod,
+  type FixedAsset,
+} from '../data/fixedAssets';
+import { currentMonth } from '../data/leaseSchedule';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+export const FixedAssetRegister: React.FC<{
+  school: SchoolData;
+  assets: FixedAsset[];
+  onChangeAssets: (assets: FixedAsset[]) => void;
+}> = ({ school, assets, onChangeAssets }) => {
+  const asOf = currentMonth();
+  const entered = assets.filter(a => a.schoolId === school.id);
+  const register = entered.length > 0
+    ? entered
+    : [assumedFixedAsset(school.id, school.costs.capexBuildout, school.costs.annualDepreciation.total, asOf)];
+  const schedule = depreciationByYear(register, Number(asOf.slice(0, 4)));
+  const bookValue = register.reduce((s, a) => s + netBookValue(a, asOf), 0);
+
+  const update = (id: string, patch: Partial<FixedAsset>) =>
+    onChangeAssets(assets.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  return (
+    <div className="space-y-3">
+      {entered.length === 0 ? (
+        <div className="text-xs text-slate-400">
+          <span className="text-amber-400">Nothing on the register</span> — depreciation is as reported, read as one leasehold
+          improvement of {formatCurrency(school.costs.capexBuildout)} over {school.budget.depreciationYears.toFixed(1)} yrs.
+          <button
+            onClick={() => onChangeAssets([...assets, { ...register[0], id: newFixedAsset(school.id).id, description: 'Buildout' }])}
+            className="ml-2 text-blue-400 hover:text-blue-300 font-medium"
+          >
+            Start register from this
+          </button>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="py-1 text-left text-slate-400 font-medium">Asset</th>
+                <th className="py-1 text-right text-slate-400 font-medium">Cost</th>
+                <th className="py-1 text-left text-slate-400 font-medium pl-1">In Service</th>
+                <th className="py-1 text-right text-slate-400 font-medium">Life</th>
+                <th className="py-1 text-right text-slate-400 font-medium">NBV</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entered.map(asset => (
+                <tr key={asset.id} className="border-b border-slate-700/30 align-top">
+                  <td className="py-1 pr-1">
+                    <input value={asset.description} placeholder="Description" onChange={(e) => update(asset.id, { description: e.target.value })} className={`${inputClass} w-full`} />
+                    <div className="flex gap-1 mt-1">
+                      <select
+                        value={asset.assetClass}
+                        onChange={(e) => {
+                          const assetClass = e.target.value as AssetClass;
+                          update(asset.id, { assetClass, usefulLifeYears: assetClasses[assetClass].usefulLifeYears });
+                        }}
+                        className={inputClass}
+                      >
+                        {(Object.keys(assetClasses) as AssetClass[]).map(c => (<option key={c} value={c}>{assetClasses[c].label}</option>))}
+                      </select>
+                      <select value={asset.method} onChange={(e) => update(asset.id, { method: e.target.value as DepreciationMethod })} className={inputClass}>
+                        {(Object.keys(depreciationMethodLabels) as DepreciationMethod[]).map(m => (<option key={m} value={m}>{depreciationMethodLabels[m]}</option>))}
+                      </select>
+                    </div>
+                  </td>
+                  <td className="py-1 pr-1 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      step={10000}
+                      value={asset.cost}
+                      onChange={(e) => update(asset.id, { cost: Math.max(0, Number(e.target.value) || 0) })}
+                      className={`${inputClass} w-20 text-right`}
+                    />
+                  </td>
+                  <td className="py-1 pr-1 pl-1">
+                    <input
+                      type="month"
+                      value={asset.inServiceDate}
+                      onChange={(e) => e.target.value && update(asset.id, { inServiceDate: e.target.value })}
+                      className={`${inputClass} w-28`}
+                    />
+                  </td>
+                  <td className="py-1 pr-1 text-right">
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={asset.usefulLifeYears}
+                      onChange={(e) => update(asset.id, { usefulLifeYears: Math.max(1, Number(e.target.value) || 1) })}
+                      className={`${inputClass} w-12 text-right`}
+                    />
+                  </td>
+                  <td className="py-1 text-right text-slate-300">{formatCurrency(netBookValue(asset, asOf))}</td>
+                  <td className="py-1 pl-1 text-right">
+                    <button onClick={() => onChangeAssets(assets.filter(a => a.id !== asset.id))} className="text-slate-500 hover:text-red-400" title="Delete">x</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button onClick={() => onChangeAssets([...assets, newFixedAsset(school.id)])} className="text-xs text-blue-400 hover:text-blue-300 font-medium">+ Add asset</button>
+
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>Weighted life: <span className="text-slate-200">{weightedUsefulLife(register).toFixed(1)} yrs</span></span>
+        <span>Book value now: <span className="text-slate-200">{formatCurrency(bookValue)}</span></span>
+      </div>
+
+      {/* Depreciation by year */}
+      <div className="grid grid-cols-5 gap-1">
+        {schedule.map(y => (
+          <div key={y.year} className="bg-slate-800/60 rounded px-1.5 py-1 text-center">
+            <div className="text-[10px] text-slate-500">{y.year}</div>
+            <div className={`text-xs ${y.total > 0 ? 'text-slate-200' : 'text-slate-600'}`}>{formatCurrency(y.total)}</div>
+          </div>
+        ))}
+      </div>
+      {entered.length === 0 && (
+        <p className="text-[10px] text-slate-500">Assumed asset placed in service this month — enter the real in-service dates for an accurate schedule.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * Goal seek for one school (detail drawer).
+ *
+ * Target net margin and the enrollment basis are edited in place and not
+ * persisted; the expense preset and staffing model come from the dashboard.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { ExpensePresetRef, SchoolData, StaffingModel } from '../data/facilitiesCapexData';
+import {
+  defaultGoalSeekStudents,
+  goalSeek,
+  goalSeekVariableLabels,
+  goalSeekVariables,
+  type GoalSeekVariable,
+} from '../data/goalSeek';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+const formatValue = (variable: GoalSeekVariable, v: number) =>
+  variable === 'enrollment' ? `${v} students` : formatCurrency(v);
+
+export const GoalSeekPanel: React.FC<{
+  school: SchoolData;
+  preset: ExpensePresetRef;
+  staffingModel: StaffingModel;
+}> = ({ school, preset, staffingModel }) => {
+  const [targetMarginPct, setTargetMarginPct] = useState(school.targetPct);
+  const [students, setStudents] = useState(() => defaultGoalSeekStudents(school));
+  const results = useMemo(
+    () => goalSeekVariables.map(v => goalSeek(school, v, targetMarginPct, students, preset, staffingModel)),
+    [school, targetMarginPct, students, preset, staffingModel],
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+        <label title={`Net margin after staffing, facilities, depreciation, programs, misc and Timeback. Default ${school.targetPct}% is the school's Margin Targets band, as on the Unit Economics tab.`}>
+          Target net margin
+          <input
+            type="number"
+            step={1}
+            value={targetMarginPct}
+            onChange={(e) => setTargetMarginPct(Number(e.target.value) || 0)}
+            className={`${inputClass} w-14 text-right ml-1`}
+          />
+          %
+          {targetMarginPct === school.targetPct && <span className="text-slate-500 ml-1">(band target)</span>}
+        </label>
+        <label>
+          Students (tuition, rent, food)
+          <input
+            type="number"
+            min={1}
+            max={school.capacity}
+            step={1}
+            value={students}
+            onChange={(e) => setStudents(Math.min(school.capacity, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            className={`${inputClass} w-16 text-right ml-1`}
+          />
+        </label>
+        <button
+          onClick={() => { setTargetMarginPct(school.targetPct); setStudents(defaultGoalSeekStudents(school)); }}
+          className="text-xs text-slate-400 hover:text-slate-200"
+        >
+          Reset
+        </button>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-700/50 text-slate-400">
+            <th className="py-1 text-left font-medium"></th>
+            <th className="py-1 text-right font-medium">Current</th>
+            <th className="py-1 text-right font-medium">At Target</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(r => (
+            <React.Fragment key={r.variable}>
+              <tr className={r.feasible && !r.note ? 'border-b border-slate-700/30' : ''}>
+                <td className="py-1 text-slate-300">{goalSeekVariableLabels[r.variable]}</td>
+                <td className="py-1 text-right text-slate-400">{formatValue(r.variable, r.current)}</td>
+                <td className={`py-1 text-right font-semibold ${r.feasible ? 'text-white' : 'text-red-400'}`}>
+                  {r.feasible ? formatValue(r.variable, r.value) : 'Infeasible'}
+                </td>
+              </tr>
+              {(!r.feasible || r.note) && (
+                <tr className="border-b border-slate-700/30">
+                  <td colSpan={3} className={`pb-1 text-[11px] ${r.feasible ? 'text-amber-400' : 'text-slate-400'}`}>
+                    {r.feasible ? r.note : r.reason}
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,319 @@
+/**
+ * Lease calendar — rent by year, expirations and lease terms per school.
+ *
+ * Lease records are saved in the browser. Schools without one show an assumed
+ * lease (current rent, standard escalator, ten years) until the real terms are
+ * entered; expirations inside 24 months are flagged.
+ */
+
+import React, { useState } from 'react';
+import {
+  generateInsights,
+  type PortfolioSummary,
+  type SchoolData,
+} from '../data/facilitiesCapexData';
+import {
+  EXPIRATION_WARNING_MONTHS,
+  currentMonth,
+  exitCost,
+  leaseExpiration,
+  monthsBetween,
+  projectRentByYear,
+  remainingCommitment,
+  resolveLeaseSchedule,
+  summarizeLeaseSchedule,
+  type LeaseRecord,
+  type RenewalOption,
+} from '../data/leaseSchedule';
+import { formatCurrency } from './shared';
+
+const PROJECTION_YEARS = 10;
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+const formatMonth = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const describeEscalation = (lease: LeaseRecord) =>
+  lease.escalation.amount === 0 ? 'Flat'
+    : lease.escalation.type === 'percent' ? `${lease.escalation.amount}%/yr` : `+${formatCurrency(lease.escalation.amount)}/yr`;
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (v: number) => void }> = ({ label, value, step = 1, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <input type="number" min={0} step={step} value={value} onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))} className={`${inputClass} w-28`} />
+  </label>
+);
+
+const LeaseEditor: React.FC<{
+  lease: LeaseRecord;
+  onChange: (lease: LeaseRecord) => void;
+  onReset: () => void;
+}> = ({ lease, onChange, onReset }) => {
+  const update = (patch: Partial<LeaseRecord>) => onChange({ ...lease, ...patch, assumed: false });
+  const updateOption = (idx: number, patch: Partial<RenewalOption>) =>
+    update({ renewalOptions: lease.renewalOptions.map((o, i) => (i === idx ? { ...o, ...patch } : o)) });
+
+  return (
+    <div className="p-4 bg-slate-900/60 space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Commencement
+          <input type="month" value={lease.commencementDate} onChange={(e) => e.target.value && update({ commencementDate: e.target.value })} className={inputClass} />
+        </label>
+        <NumberField label="Term (months)" value={lease.termMonths} onChange={(v) => update({ termMonths: Math.max(1, v) })} />
+        <NumberField label="Year-1 Annual Rent" value={lease.baseAnnualRent} step={10000} onChange={(v) => update({ baseAnnualRent: v })} />
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Escalator
+          <span className="flex gap-1">
+            <input
+              type="number"
+              min={0}
+              step={lease.escalation.type === 'percent' ? 0.5 : 1000}
+              value={lease.escalation.amount}
+              onChange={(e) => update({ escalation: { ...lease.escalation, amount: Math.max(0, Number(e.target.value) || 0) } })}
+              className={`${inputClass} w-20`}
+            />
+            <select
+              value={lease.escalation.type}
+              onChange={(e) => update({ escalation: { ...lease.escalation, type: e.target.value as LeaseRecord['escalation']['type'] } })}
+              className={inputClass}
+            >
+              <option value="percent">% / yr</option>
+              <option value="fixed">$ / yr</option>
+            </select>
+          </span>
+        </label>
+        <NumberField label="Free Rent (months)" value={lease.freeRentMonths} onChange={(v) => update({ freeRentMonths: v })} />
+        <button onClick={onReset} disabled={lease.assumed} className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-40 ml-auto">
+          Reset to assumed
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-medium text-slate-400 uppercase">Renewal Options</h4>
+            <button
+              onClick={() => update({ renewalOptions: [...lease.renewalOptions, { termMonths: 60, noticeMonths: 12, rentChangePct: 0 }] })}
+              className="text-xs text-blue-400 hover:text-blue-300 font-medium"
+            >
+              + Add option
+            </button>
+          </div>
+          {lease.renewalOptions.length === 0 && <p className="text-xs text-slate-500">None.</p>}
+          {lease.renewalOptions.map((o, idx) => (
+            <div key={idx} className="flex items-end gap-3 mb-2">
+              <NumberField label="Term (months)" value={o.termMonths} onChange={(v) => updateOption(idx, { termMonths: v })} />
+              <NumberField label="Notice (months)" value={o.noticeMonths} onChange={(v) => updateOption(idx, { noticeMonths: v })} />
+              <label className="flex flex-col gap-1 text-xs text-slate-400">
+                Rent change %
+                <input type="number" step={1} value={o.rentChangePct} onChange={(e) => updateOption(idx, { rentChangePct: Number(e.target.value) || 0 })} className={`${inputClass} w-20`} />
+              </label>
+              <button onClick={() => update({ renewalOptions: lease.renewalOptions.filter((_, i) => i !== idx) })} className="text-xs text-slate-500 hover:text-red-400 pb-1">x</button>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-medium text-slate-400 uppercase">Early Termination</h4>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={lease.termination !== null}
+                onChange={(e) => update({ termination: e.target.checked ? { earliestMonth: 36, noticeMonths: 6, penaltyMonthsRent: 6, penaltyFixed: 0 } : null })}
+              />
+              Has termination clause
+            </label>
+          </div>
+          {lease.termination ? (
+            <div className="flex flex-wrap items-end gap-3">
+              <NumberField label="Earliest (lease month)" value={lease.termination.earliestMonth} onChange={(v) => update({ termination: { ...lease.termination!, earliestMonth: v } })} />
+              <NumberField label="Notice (months)" value={lease.termination.noticeMonths} onChange={(v) => update({ termination: { ...lease.termination!, noticeMonths: v } })} />
+              <NumberField label="Penalty (months rent)" value={lease.termination.penaltyMonthsRent} onChange={(v) => update({ termination: { ...lease.termination!, penaltyMonthsRent: v } })} />
+              <NumberField label="Penalty ($ fixed)" value={lease.termination.penaltyFixed} step={10000} onChange={(v) => update({ termination: { ...lease.termination!, penaltyFixed: v } })} />
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">No early out — the full remaining term is owed.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const LeaseCalendar: React.FC<{
+  schools: SchoolData[];
+  summary: PortfolioSummary;
+  records: LeaseRecord[];
+  onChangeRecords: (records: LeaseRecord[]) => void;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, summary, records, onChangeRecords, onSelectSchool }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const asOf = currentMonth();
+
+  const leases = resolveLeaseSchedule(schools, records, asOf);
+  const leaseSummary = summarizeLeaseSchedule(leases, asOf);
+  const projection = projectRentByYear(leases, asOf, PROJECTION_YEARS);
+  const insight = generateInsights(summary, leaseSummary).find(i => i.id === 'lease-commitment');
+
+  const saveLease = (lease: LeaseRecord) =>
+    onChangeRecords([...records.filter(r => r.schoolId !== lease.schoolId), lease]);
+  const resetLease = (schoolId: string) => onChangeRecords(records.filter(r => r.schoolId !== schoolId));
+
+  const rows = schools
+    .map((school, idx) => ({ school, lease: leases[idx] }))
+    .sort((a, b) => monthsBetween(leaseExpiration(b.lease), leaseExpiration(a.lease)));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-blue-300 font-medium">Next 12 Months Rent</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(leaseSummary.currentAnnualRent)}</div>
+        </div>
+        <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-amber-300 font-medium">Remaining Commitment</div>
+          <div className="text-lg font-bold text-white">{formatCurrency(leaseSummary.totalRemainingCommitment)}</div>
+          <div className="text-[10px] text-amber-400">rent through expiration</div>
+        </div>
+        <div className="bg-slate-800/60 border border-slate-600 rounded-lg p-3 text-center">
+          <div className="text-xs text-slate-300 font-medium">Wtd Avg Remaining</div>
+          <div className="text-lg font-bold text-white">{leaseSummary.weightedAvgRemainingYears.toFixed(1)} yrs</div>
+        </div>
+        <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-center">
+          <div className="text-xs text-red-400 font-medium">Expiring ≤ {EXPIRATION_WARNING_MONTHS} mo</div>
+          <div className="text-lg font-bold text-white">{leaseSummary.expiringSoon.length}</div>
+        </div>
+        <div className="bg-slate-800/60 border border-slate-600 rounded-lg p-3 text-center">
+          <div className="text-xs text-slate-300 font-medium">Assumed Terms</div>
+          <div className="text-lg font-bold text-white">{leaseSummary.assumedCount} / {leaseSummary.leaseCount}</div>
+          <div className="text-[10px] text-slate-400">no lease entered</div>
+        </div>
+      </div>
+
+      {insight && (
+        <div className="bg-amber-900/20 border border-amber-700 rounded-lg p-4">
+          <div className="font-medium text-amber-300 text-sm">{insight.title}</div>
+          <div className="text-sm text-slate-300 mt-1">{insight.description}</div>
+        </div>
+      )}
+
+      {leaseSummary.expiringSoon.length > 0 && (
+        <div className="table-card rounded-xl overflow-hidden">
+          <div className="px-5 py-3 bg-slate-800 text-white">
+            <h3 className="font-semibold">Expiring Within {EXPIRATION_WARNING_MONTHS} Months</h3>
+          </div>
+          <div className="divide-y divide-slate-700/50">
+            {leaseSummary.expiringSoon.map(flag => {
+              const school = schools.find(s => s.id === flag.schoolId);
+              return (
+                <div key={flag.schoolId} className="px-5 py-2 flex items-center justify-between text-sm">
+                  <button onClick={() => school && onSelectSchool(school)} className="text-slate-200 font-medium hover:text-blue-300">{school?.displayName ?? flag.schoolId}</button>
+                  <span className="text-slate-300">
+                    Expires {formatMonth(flag.expiration)} ({flag.monthsRemaining} mo)
+                    {flag.renewalNoticeBy && (
+                      <span className={monthsBetween(asOf, flag.renewalNoticeBy) <= 3 ? 'text-red-400' : 'text-amber-400'}> | Renewal notice by {formatMonth(flag.renewalNoticeBy)}</span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white">
+          <h3 className="font-semibold">Lease Calendar</h3>
+          <p className="text-xs text-slate-300 mt-0.5">Projected rent by calendar year ({formatMonth(asOf)} onward). Click a row to edit lease terms.</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="px-3 py-2 text-left text-slate-400 font-medium sticky left-0 bg-slate-900">School</th>
+                <th className="px-2 py-2 text-left text-slate-400 font-medium">Start</th>
+                <th className="px-2 py-2 text-left text-slate-400 font-medium">Expires</th>
+                <th className="px-2 py-2 text-left text-slate-400 font-medium">Escalator</th>
+                <th className="px-2 py-2 text-left text-slate-400 font-medium">Options / Out</th>
+                {projection.map(p => (
+                  <th key={p.year} className="px-2 py-2 text-right text-slate-400 font-medium">{p.year}</th>
+                ))}
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Remaining</th>
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Exit Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ school, lease }) => {
+                const expiration = leaseExpiration(lease);
+                const monthsLeft = monthsBetween(asOf, expiration);
+                const exit = exitCost(lease, asOf);
+                return (
+                  <React.Fragment key={school.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === school.id ? null : school.id)}
+                      className={`border-b border-slate-700/30 cursor-pointer hover:bg-slate-800/50 ${expandedId === school.id ? 'bg-slate-800/70' : ''}`}
+                    >
+                      <td className="px-3 py-1.5 sticky left-0 bg-slate-900">
+                        <button onClick={(e) => { e.stopPropagation(); onSelectSchool(school); }} className="text-left text-slate-200 font-medium hover:text-blue-300">
+                          {school.displayName}
+                        </button>
+                        {lease.assumed && <div className="text-[10px] text-amber-400">Assumed terms</div>}
+                      </td>
+                      <td className="px-2 py-1.5 text-slate-300">{formatMonth(lease.commencementDate)}</td>
+                      <td className={`px-2 py-1.5 ${monthsLeft <= EXPIRATION_WARNING_MONTHS ? 'text-red-400 font-medium' : 'text-slate-300'}`}>
+                        {formatMonth(expiration)}
+                        <div className="text-[10px] text-slate-500">{Math.max(monthsLeft, 0)} mo left</div>
+                      </td>
+                      <td className="px-2 py-1.5 text-slate-300">
+                        {describeEscalation(lease)}
+                        {lease.freeRentMonths > 0 && <div className="text-[10px] text-slate-500">{lease.freeRentMonths} mo free</div>}
+                      </td>
+                      <td className="px-2 py-1.5 text-slate-300">
+                        {lease.renewalOptions.length > 0 ? `${lease.renewalOptions.length} × renewal` : 'No renewals'}
+                        <div className="text-[10px] text-slate-500">{lease.termination ? `Out from month ${lease.termination.earliestMonth}` : 'No early out'}</div>
+                      </td>
+                      {projection.map(p => (
+                        <td key={p.year} className={`px-2 py-1.5 text-right ${p.bySchool[school.id] > 0 ? 'text-slate-200' : 'text-slate-600'}`}>
+                          {p.bySchool[school.id] > 0 ? formatCurrency(p.bySchool[school.id]) : '—'}
+                        </td>
+                      ))}
+                      <td className="px-2 py-1.5 text-right text-white font-medium">{formatCurrency(remainingCommitment(lease, asOf))}</td>
+                      <td className="px-2 py-1.5 text-right text-slate-200">
+                        {formatCurrency(exit.total)}
+                        {exit.viaClause && <div className="text-[10px] text-slate-500">exit {formatMonth(exit.exitMonth)}</div>}
+                      </td>
+                    </tr>
+                    {expandedId === school.id && (
+                      <tr className="border-b border-slate-700/30">
+                        <td colSpan={projection.length + 7}>
+                          <LeaseEditor
+                            lease={lease}
+                            onChange={saveLease}
+                            onReset={() => resetLease(school.id)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              <tr className="font-semibold bg-slate-800/50">
+                <td className="px-3 py-2 text-white sticky left-0 bg-slate-800">Portfolio</td>
+                <td colSpan={4}></td>
+                {projection.map(p => (
+                  <td key={p.year} className="px-2 py-2 text-right text-white">{formatCurrency(p.total)}</td>
+                ))}
+                <td className="px-2 py-2 text-right text-white">{formatCurrency(leaseSummary.totalRemainingCommitment)}</td>
+                <td className="px-2 py-2 text-right text-white">{formatCurrency(leases.reduce((s, l) => s + exitCost(l, asOf).total, 0))}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
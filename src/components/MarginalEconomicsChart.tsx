@@ -0,0 +1,108 @@
+/**
+ * Marginal economics step chart for one school (detail drawer).
+ *
+ * Cumulative change in margin, staffing and facilities as students are added,
+ * with each student's own margin as bars — staffing step-ups show as the dips.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart, Bar, Cell, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend, ResponsiveContainer,
+} from 'recharts';
+import type { ExpensePresetRef, SchoolData, StaffingModel } from '../data/facilitiesCapexData';
+import { defaultMarginalStudents, marginalEconomics } from '../data/marginalEconomics';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+const MAX_STUDENTS = 300;
+
+export const MarginalEconomicsChart: React.FC<{
+  school: SchoolData;
+  preset: ExpensePresetRef;
+  staffingModel: StaffingModel;
+}> = ({ school, preset, staffingModel }) => {
+  const [maxAdded, setMaxAdded] = useState(() => Math.min(MAX_STUDENTS, defaultMarginalStudents(school)));
+  const result = useMemo(
+    () => marginalEconomics(school, maxAdded, preset, staffingModel),
+    [school, maxAdded, preset, staffingModel],
+  );
+  const first = result.steps[0];
+  const last = result.steps[result.steps.length - 1];
+
+  const chartData = result.steps.map(s => ({
+    students: s.students,
+    studentMargin: s.studentMargin,
+    margin: s.margin,
+    staffing: s.staffing,
+    facilities: s.facilities,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+        <label>
+          Add up to
+          <input
+            type="number"
+            min={1}
+            max={MAX_STUDENTS}
+            step={1}
+            value={maxAdded}
+            onChange={(e) => setMaxAdded(Math.min(MAX_STUDENTS, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+            className={`${inputClass} w-16 text-right mx-1`}
+          />
+          students
+        </label>
+        <span className="text-slate-500">{school.capacity - school.currentEnrollment} seats open</span>
+      </div>
+
+      {first && last && (
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <div className="text-slate-400">Next student</div>
+            <div className={`font-semibold ${first.studentMargin < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(first.studentMargin)}</div>
+          </div>
+          <div>
+            <div className="text-slate-400">Avg. over {last.added}</div>
+            <div className={`font-semibold ${result.averageMarginPerStudent < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(result.averageMarginPerStudent)}</div>
+            <div className="text-[10px] text-slate-500">cost {formatCurrency(school.tuition - result.averageMarginPerStudent)} vs {formatCurrency(school.marginalCostPerStudent)} avg. variable</div>
+          </div>
+          <div>
+            <div className="text-slate-400">+{last.added} students</div>
+            <div className={`font-semibold ${last.margin < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(last.margin)}</div>
+            <div className="text-[10px] text-slate-500">revenue {formatCurrency(last.revenue)}</div>
+          </div>
+        </div>
+      )}
+
+      <ResponsiveContainer width="100%" height={220}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="students" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+          <YAxis yAxisId="total" tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 10, fill: '#94a3b8' }} width={55} />
+          <YAxis yAxisId="student" orientation="right" tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 10, fill: '#64748b' }} width={45} />
+          <Tooltip
+            formatter={(value: number) => formatCurrency(value)}
+            labelFormatter={(students) => `${students} students`}
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <ReferenceLine yAxisId="total" y={0} stroke="#64748b" />
+          <Bar yAxisId="student" dataKey="studentMargin" name="This student" fill="#3b82f6" opacity={0.5}>
+            {chartData.map(d => (<Cell key={d.students} fill={d.studentMargin < 0 ? '#ef4444' : '#3b82f6'} />))}
+          </Bar>
+          <Line yAxisId="total" type="stepAfter" dataKey="margin" name="Added margin" stroke="#22c55e" strokeWidth={2} dot={false} />
+          <Line yAxisId="total" type="stepAfter" dataKey="staffing" name="Added staffing" stroke="#a855f7" strokeWidth={1.5} dot={false} />
+          <Line yAxisId="total" type="stepAfter" dataKey="facilities" name="Added facilities" stroke="#f59e0b" strokeWidth={1.5} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {result.staffingSteps.length > 0 && (
+        <p className="text-[11px] text-slate-400">
+          Staffing steps up at {result.staffingSteps.map(n => result.baseStudents + n).join(', ')} students.
+        </p>
+      )}
+    </div>
+  );
+};
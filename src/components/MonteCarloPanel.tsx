@@ -0,0 +1,188 @@
+/**
+ * Monte Carlo risk panel (Scenarios tab).
+ *
+ * Distributions for enrollment, tuition discounting and per-line cost
+ * inflation; P10/P50/P90 of the facilities ratio, portfolio margin and red
+ * schools against the point estimate. The simulation runs in a Web Worker.
+ */
+
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  schoolToRawEntry,
+  type ExpensePresetRef,
+  type SchoolData,
+  type StaffingModel,
+  type TargetPolicy,
+} from '../data/facilitiesCapexData';
+import {
+  defaultMonteCarloAssumptions,
+  monteCarloCostLineLabels,
+  monteCarloMetricLabels,
+  type MonteCarloAssumptions,
+  type MonteCarloCostLine,
+  type MonteCarloMetric,
+  type NormalDistribution,
+} from '../data/monteCarlo';
+import { useMonteCarlo } from '../hooks/useMonteCarlo';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+const formatMetric = (metric: MonteCarloMetric, v: number) =>
+  metric === 'portfolioMargin' ? formatCurrency(v)
+    : metric === 'redSchools' ? v.toFixed(v % 1 === 0 ? 0 : 1)
+    : `${v.toFixed(1)}%`;
+
+const DistributionInputs: React.FC<{ value: NormalDistribution; onChange: (v: NormalDistribution) => void }> = ({ value, onChange }) => (
+  <span className="flex items-center gap-1">
+    <input type="number" step={0.5} value={value.meanPct} onChange={(e) => onChange({ ...value, meanPct: Number(e.target.value) || 0 })} className={`${inputClass} w-14 text-right`} title="Mean %" />
+    <span className="text-slate-500">±</span>
+    <input type="number" min={0} step={0.5} value={value.sdPct} onChange={(e) => onChange({ ...value, sdPct: Math.max(0, Number(e.target.value) || 0) })} className={`${inputClass} w-14 text-right`} title="Standard deviation %" />
+  </span>
+);
+
+export const MonteCarloPanel: React.FC<{
+  schools: SchoolData[];
+  targetPolicy: TargetPolicy;
+  staffingModel: StaffingModel;
+  preset: ExpensePresetRef;
+}> = ({ schools, targetPolicy, staffingModel, preset }) => {
+  const [assumptions, setAssumptions] = useState<MonteCarloAssumptions>(defaultMonteCarloAssumptions);
+  const [run, start, cancel] = useMonteCarlo();
+  const { result } = run;
+
+  const setInflation = (line: MonteCarloCostLine, dist: NormalDistribution) =>
+    setAssumptions(a => ({ ...a, costInflation: { ...a.costInflation, [line]: dist } }));
+
+  const histogram = result?.histogram.map(b => ({ label: `${((b.from + b.to) / 2).toFixed(1)}%`, count: b.count })) ?? [];
+  // Bucket holding the point estimate (last bucket if it sits above every draw)
+  const baseBucket = result
+    ? histogram[result.histogram.findIndex(b => result.base.facilitiesPctOfRevenue < b.to)] ?? histogram[histogram.length - 1]
+    : undefined;
+
+  const simulate = () => start({
+    entries: Object.fromEntries(schools.map(s => [s.id, schoolToRawEntry(s)])),
+    assumptions,
+    targetPolicy,
+    staffingModel,
+    preset,
+  });
+
+  return (
+    <div className="table-card rounded-xl overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Risk Simulation — Monte Carlo</h3>
+          <p className="text-xs text-slate-400">{schools.length} schools in view | enrollment, tuition discount and cost inflation drawn together</p>
+        </div>
+        {run.running ? (
+          <button onClick={cancel} className="px-3 py-1.5 rounded text-xs font-medium bg-slate-600 hover:bg-slate-500 text-white">Cancel</button>
+        ) : (
+          <button onClick={simulate} disabled={schools.length === 0} className="px-3 py-1.5 rounded text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50">
+            Run {assumptions.draws.toLocaleString()} draws
+          </button>
+        )}
+      </div>
+
+      <div className="p-5 space-y-5">
+        {/* Assumptions */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2 text-xs text-slate-300">
+            <label className="flex items-center justify-between">
+              Draws
+              <select value={assumptions.draws} onChange={(e) => setAssumptions(a => ({ ...a, draws: Number(e.target.value) }))} className={inputClass}>
+                {[500, 1000, 2000, 5000, 10000].map(n => (<option key={n} value={n}>{n.toLocaleString()}</option>))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              Seed
+              <input type="number" step={1} value={assumptions.seed} onChange={(e) => setAssumptions(a => ({ ...a, seed: Math.round(Number(e.target.value) || 0) }))} className={`${inputClass} w-20 text-right`} />
+            </label>
+            <label className="flex items-center justify-between">
+              Enrollment std. dev. (% of current)
+              <input type="number" min={0} step={1} value={assumptions.enrollmentSdPct} onChange={(e) => setAssumptions(a => ({ ...a, enrollmentSdPct: Math.max(0, Number(e.target.value) || 0) }))} className={`${inputClass} w-14 text-right`} />
+            </label>
+            <div className="flex items-center justify-between">
+              Tuition discount % (mean ± sd)
+              <DistributionInputs value={assumptions.tuitionDiscount} onChange={(tuitionDiscount) => setAssumptions(a => ({ ...a, tuitionDiscount }))} />
+            </div>
+            <button onClick={() => setAssumptions(defaultMonteCarloAssumptions)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">Reset assumptions</button>
+          </div>
+          <div className="space-y-1 text-xs text-slate-300">
+            <div className="text-slate-400 mb-1">Cost inflation % (mean ± sd)</div>
+            {(Object.keys(monteCarloCostLineLabels) as MonteCarloCostLine[]).map(line => (
+              <div key={line} className="flex items-center justify-between">
+                {monteCarloCostLineLabels[line]}
+                <DistributionInputs value={assumptions.costInflation[line]} onChange={(dist) => setInflation(line, dist)} />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {run.running && (
+          <div>
+            <div className="h-2 bg-slate-700 rounded overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${run.total > 0 ? (run.done / run.total) * 100 : 0}%` }} />
+            </div>
+            <div className="text-[11px] text-slate-400 mt-1">{run.done.toLocaleString()} / {run.total.toLocaleString()} draws</div>
+          </div>
+        )}
+        {run.error && <div className="text-xs text-red-400">Simulation failed: {run.error}</div>}
+
+        {/* Results */}
+        {result && (
+          <div className={`space-y-4 ${run.running ? 'opacity-50' : ''}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700/50 text-slate-400">
+                  <th className="py-1.5 text-left font-medium">Metric</th>
+                  <th className="py-1.5 text-right font-medium">Point Estimate</th>
+                  <th className="py-1.5 text-right font-medium">P10</th>
+                  <th className="py-1.5 text-right font-medium">P50</th>
+                  <th className="py-1.5 text-right font-medium">P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(monteCarloMetricLabels) as MonteCarloMetric[]).map(metric => {
+                  const p = result.percentiles[metric];
+                  return (
+                    <tr key={metric} className="border-b border-slate-700/30">
+                      <td className="py-1.5 text-slate-200">{monteCarloMetricLabels[metric]}</td>
+                      <td className="py-1.5 text-right text-slate-400">{formatMetric(metric, result.base[metric])}</td>
+                      <td className="py-1.5 text-right text-slate-200">{formatMetric(metric, p.p10)}</td>
+                      <td className="py-1.5 text-right text-white font-semibold">{formatMetric(metric, p.p50)}</td>
+                      <td className="py-1.5 text-right text-slate-200">{formatMetric(metric, p.p90)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div>
+              <div className="text-xs text-slate-400 mb-2">Facilities % of revenue — {result.draws.toLocaleString()} draws</div>
+              <ResponsiveContainer width="100%" height={180}>
+                <BarChart data={histogram} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} interval={3} />
+                  <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} width={40} />
+                  <Tooltip
+                    formatter={(value: number) => [value, 'Draws']}
+                    contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+                  />
+                  <ReferenceLine
+                    x={baseBucket?.label}
+                    stroke="#f59e0b"
+                    strokeDasharray="4 3"
+                    label={{ value: 'Point estimate', fill: '#fbbf24', fontSize: 10 }}
+                  />
+                  <Bar dataKey="count" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+/**
+ * Five-year P&L projection for one school (detail drawer).
+ *
+ * Assumptions are edited in place and not persisted — this is a what-if view;
+ * leases, assets, the expense preset and staffing model come from the dashboard.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend, ResponsiveContainer,
+} from 'recharts';
+import type { ExpensePresetRef, SchoolData, StaffingModel } from '../data/facilitiesCapexData';
+import type { FixedAsset } from '../data/fixedAssets';
+import type { LeaseRecord } from '../data/leaseSchedule';
+import {
+  defaultProjectionAssumptions,
+  projectionCostLineLabels,
+  projectSchool,
+  type ProjectionAssumptions,
+  type ProjectionCostLine,
+} from '../data/schoolProjection';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+export const MultiYearProjection: React.FC<{
+  school: SchoolData;
+  leaseRecords: LeaseRecord[];
+  assetRegister: FixedAsset[];
+  preset: ExpensePresetRef;
+  staffingModel: StaffingModel;
+}> = ({ school, leaseRecords, assetRegister, preset, staffingModel }) => {
+  const [assumptions, setAssumptions] = useState<ProjectionAssumptions>(() => defaultProjectionAssumptions(school));
+  const [showInflation, setShowInflation] = useState(false);
+  const projection = useMemo(
+    () => projectSchool(school, assumptions, leaseRecords, assetRegister, preset, staffingModel),
+    [school, assumptions, leaseRecords, assetRegister, preset, staffingModel],
+  );
+
+  const setRamp = (i: number, pct: number) =>
+    setAssumptions(a => ({ ...a, enrollmentRamp: a.enrollmentRamp.map((p, j) => (j === i ? pct : p)) }));
+  const setInflation = (line: ProjectionCostLine, pct: number) =>
+    setAssumptions(a => ({ ...a, costInflationPct: { ...a.costInflationPct, [line]: pct } }));
+
+  const chartData = projection.years.map(y => ({
+    year: String(y.year),
+    margin: y.unitEconomics.margin,
+    cumulativeCash: y.cumulativeCash,
+  }));
+  const rows: { label: string; value: (y: typeof projection.years[number]) => number; bold?: boolean }[] = [
+    { label: 'Revenue', value: y => y.unitEconomics.revenue },
+    { label: 'Staffing', value: y => y.unitEconomics.staffing },
+    { label: 'Lease', value: y => y.lease },
+    { label: 'Other facilities', value: y => y.unitEconomics.facilities - y.lease },
+    { label: 'Programs / misc / Timeback', value: y => y.unitEconomics.programs + y.unitEconomics.misc + y.unitEconomics.timeback },
+    { label: 'Depreciation', value: y => y.unitEconomics.capexAnnual },
+    { label: 'Margin', value: y => y.unitEconomics.margin, bold: true },
+    { label: 'Cash flow', value: y => y.cashFlow },
+    { label: 'Cumulative cash', value: y => y.cumulativeCash, bold: true },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {/* Assumptions */}
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+        <label>
+          Tuition increase
+          <input
+            type="number"
+            step={0.5}
+            value={assumptions.tuitionIncreasePct}
+            onChange={(e) => setAssumptions(a => ({ ...a, tuitionIncreasePct: Number(e.target.value) || 0 }))}
+            className={`${inputClass} w-14 text-right ml-1`}
+          />
+          %/yr
+        </label>
+        <button onClick={() => setShowInflation(v => !v)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">
+          {showInflation ? 'Hide' : 'Edit'} cost inflation
+        </button>
+        <button onClick={() => setAssumptions(defaultProjectionAssumptions(school))} className="text-xs text-slate-400 hover:text-slate-200">
+          Reset
+        </button>
+      </div>
+      {showInflation && (
+        <div className="grid grid-cols-3 gap-x-3 gap-y-1">
+          {(Object.keys(projectionCostLineLabels) as ProjectionCostLine[]).map(line => (
+            <label key={line} className="flex items-center justify-between text-[11px] text-slate-400">
+              {projectionCostLineLabels[line]}
+              <input
+                type="number"
+                step={0.5}
+                value={assumptions.costInflationPct[line]}
+                onChange={(e) => setInflation(line, Number(e.target.value) || 0)}
+                className={`${inputClass} w-12 text-right`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Headline */}
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>Buildout outlay: <span className="text-slate-200">{formatCurrency(projection.capexOutlay)}</span></span>
+        <span>
+          Payback:{' '}
+          {projection.paybackYear !== null
+            ? <span className="text-green-400 font-semibold">{projection.paybackYear}</span>
+            : <span className="text-red-400 font-semibold">beyond {projection.startYear + assumptions.years - 1}</span>}
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height={200}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="year" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+          <YAxis tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 10, fill: '#94a3b8' }} width={55} />
+          <Tooltip
+            formatter={(value: number) => formatCurrency(value)}
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <ReferenceLine y={0} stroke="#64748b" />
+          <Bar dataKey="margin" name="Margin" fill="#3b82f6" />
+          <Line type="monotone" dataKey="cumulativeCash" name="Cumulative Cash" stroke="#22c55e" strokeWidth={2} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-700/50">
+              <th className="py-1 text-left text-slate-400 font-medium"></th>
+              {projection.years.map(y => (<th key={y.year} className="py-1 text-right text-slate-400 font-medium">{y.year}</th>))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-slate-700/30">
+              <td className="py-1 text-slate-300">Utilization</td>
+              {projection.years.map((y, i) => (
+                <td key={y.year} className="py-1 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    max={150}
+                    step={5}
+                    value={y.utilizationPct}
+                    onChange={(e) => setRamp(i, Math.max(0, Number(e.target.value) || 0))}
+                    className={`${inputClass} w-12 text-right`}
+                  />
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-slate-700/30">
+              <td className="py-1 text-slate-300">Students</td>
+              {projection.years.map(y => (<td key={y.year} className="py-1 text-right text-slate-300">{y.unitEconomics.students}</td>))}
+            </tr>
+            {rows.map(row => (
+              <tr key={row.label} className={`border-b border-slate-700/30 ${row.bold ? 'font-semibold' : ''}`}>
+                <td className={`py-1 ${row.bold ? 'text-white' : 'text-slate-300'}`}>{row.label}</td>
+                {projection.years.map(y => {
+                  const v = row.value(y);
+                  return (
+                    <td key={y.year} className={`py-1 text-right ${row.bold ? (v < 0 ? 'text-red-400' : 'text-green-400') : 'text-slate-200'}`}>
+                      {formatCurrency(v)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1 text-slate-300">Margin %</td>
+              {projection.years.map(y => (
+                <td key={y.year} className={`py-1 text-right ${y.unitEconomics.marginPct < 0 ? 'text-red-400' : 'text-slate-200'}`}>
+                  {y.unitEconomics.marginPct.toFixed(1)}%
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {(projection.assumedLease || projection.assumedAssets) && (
+        <p className="text-[10px] text-slate-500">
+          {projection.assumedLease && 'Rent from assumed lease terms. '}
+          {projection.assumedAssets && 'Depreciation from the assumed buildout asset.'}
+        </p>
+      )}
+    </div>
+  );
+};
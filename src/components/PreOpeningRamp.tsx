@@ -0,0 +1,98 @@
+/**
+ * Ramp projection for a pre-opening school (detail drawer verdict banner).
+ *
+ * Shows the school-type curve or the school's own override, with projected
+ * enrollment, health and the year the tuition-tier target is reached.
+ */
+
+import React from 'react';
+import { schoolTypeLabels, type SchoolData } from '../data/facilitiesCapexData';
+import { defaultRampCurves, type RampOverrides } from '../data/rampCurves';
+import { HealthBadge } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-1.5 py-0.5 text-xs bg-slate-700 text-white';
+
+export const PreOpeningRamp: React.FC<{
+  school: SchoolData;
+  overrides: RampOverrides;
+  onChangeOverrides: (overrides: RampOverrides) => void;
+}> = ({ school, overrides, onChangeOverrides }) => {
+  const ramp = school.ramp;
+  if (!ramp) return null;
+
+  const setYear = (i: number, pct: number) =>
+    onChangeOverrides({ ...overrides, [school.id]: ramp.curve.map((p, j) => (j === i ? pct : p)) });
+  const resetCurve = () => {
+    const { [school.id]: _removed, ...rest } = overrides;
+    onChangeOverrides(rest);
+  };
+
+  return (
+    <div className="text-sm text-slate-300 space-y-2">
+      <div className="flex items-center gap-2">
+        <span>Projected at year {ramp.years.length}:</span>
+        <HealthBadge score={ramp.healthScore} verdict={ramp.healthVerdict} />
+      </div>
+      <div>
+        Enrollment {ramp.openingEnrollment} in year 1 → {ramp.stabilizedEnrollment} by year {ramp.years.length} of {school.capacity} seats
+      </div>
+      <div>
+        {school.targetPct}% target:{' '}
+        {ramp.targetYear !== null
+          ? <strong className="text-green-400">year {ramp.targetYear}</strong>
+          : <strong className="text-red-400">not reached on this ramp</strong>}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-700/50">
+            <th className="py-1 text-left text-slate-400 font-medium">Year</th>
+            {ramp.years.map(y => (<th key={y.yearOfOperation} className="py-1 text-right text-slate-400 font-medium">{y.yearOfOperation}</th>))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-b border-slate-700/30">
+            <td className="py-1 text-slate-400">Utilization %</td>
+            {ramp.years.map((y, i) => (
+              <td key={y.yearOfOperation} className="py-1 text-right">
+                <input
+                  type="number"
+                  min={0}
+                  max={150}
+                  step={5}
+                  value={y.utilizationPct}
+                  onChange={(e) => setYear(i, Math.max(0, Number(e.target.value) || 0))}
+                  className={`${inputClass} w-12 text-right`}
+                />
+              </td>
+            ))}
+          </tr>
+          <tr className="border-b border-slate-700/30">
+            <td className="py-1 text-slate-400">Students</td>
+            {ramp.years.map(y => (<td key={y.yearOfOperation} className="py-1 text-right">{y.enrollment}</td>))}
+          </tr>
+          <tr>
+            <td className="py-1 text-slate-400">% of tuition</td>
+            {ramp.years.map(y => (
+              <td key={y.yearOfOperation} className={`py-1 text-right ${y.pctOfTuition <= school.targetPct ? 'text-green-400' : 'text-red-400'}`}>
+                {Number.isFinite(y.pctOfTuition) ? `${y.pctOfTuition.toFixed(0)}%` : '—'}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <div className="text-[11px] text-slate-500">
+        {ramp.overridden ? (
+          <>
+            Custom curve for this school.{' '}
+            <button onClick={resetCurve} className="text-blue-400 hover:text-blue-300 font-medium">
+              Reset to {schoolTypeLabels[school.schoolType]} curve ({defaultRampCurves[school.schoolType].join(' / ')}%)
+            </button>
+          </>
+        ) : (
+          <>{schoolTypeLabels[school.schoolType]} ramp curve — edit a year to override it for this school.</>
+        )}
+      </div>
+    </div>
+  );
+};
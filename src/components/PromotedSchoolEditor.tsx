@@ -0,0 +1,89 @@
+/**
+ * Estimated costs for a promoted (signed, pre-opening) deal.
+ *
+ * Controllable lines start from portfolio per-sqft averages; finance can
+ * override any line until actuals are imported for the school, at which point
+ * the import replaces the estimate entirely.
+ */
+
+import React from 'react';
+import {
+  estimatedCostLineLabels,
+  type EstimatedCostLine,
+  type PromotedSchool,
+} from '../data/dealEvaluation';
+import { formatCurrency } from './shared';
+
+export const PromotedSchoolEditor: React.FC<{
+  school: PromotedSchool;
+  onChange: (school: PromotedSchool) => void;
+  onRemove: () => void;
+}> = ({ school, onChange, onRemove }) => {
+  const lines = Object.keys(estimatedCostLineLabels) as EstimatedCostLine[];
+
+  const setOverride = (line: EstimatedCostLine, value: number | null) => {
+    const { [line]: _removed, ...rest } = school.overrides;
+    onChange({ ...school, overrides: value === null ? rest : { ...rest, [line]: value } });
+  };
+
+  const total = lines.reduce((sum, line) => sum + (school.overrides[line] ?? school.estimates[line]), 0);
+
+  return (
+    <div className="rounded-lg p-4 mb-6 bg-amber-900/20 border border-amber-700">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-medium text-amber-300">Estimated — not actuals</h3>
+        <button onClick={onRemove} className="text-xs text-slate-400 hover:text-red-400">Remove from portfolio</button>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        Promoted from the deal pipeline {new Date(school.promotedAt).toLocaleDateString()}. Lease and capex are the deal terms;
+        the lines below start from portfolio $/sq ft averages × {school.deal.sqft.toLocaleString()} sq ft. Importing actuals for
+        <span className="font-mono text-slate-300"> {school.id} </span>replaces this estimate.
+      </p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-700/50">
+            <th className="py-1 text-left text-slate-400 font-medium">Line</th>
+            <th className="py-1 text-right text-slate-400 font-medium">Estimate</th>
+            <th className="py-1 text-right text-slate-400 font-medium">Override</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => {
+            const override = school.overrides[line];
+            return (
+              <tr key={line} className="border-b border-slate-700/30">
+                <td className="py-1 text-slate-300">{estimatedCostLineLabels[line]}</td>
+                <td className={`py-1 text-right ${override !== undefined ? 'text-slate-500 line-through' : 'text-slate-200'}`}>
+                  {formatCurrency(school.estimates[line])}
+                </td>
+                <td className="py-1 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={override ?? ''}
+                    placeholder="—"
+                    onChange={(e) => setOverride(line, e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+                    className="w-24 border border-slate-600 rounded px-2 py-0.5 text-xs bg-slate-700 text-white text-right"
+                  />
+                </td>
+                <td className="py-1 pl-2 text-right">
+                  {override !== undefined && (
+                    <button onClick={() => setOverride(line, null)} className="text-slate-500 hover:text-white" title="Back to estimate">x</button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          <tr className="font-semibold">
+            <td className="py-1.5 text-white">Controllable total</td>
+            <td></td>
+            <td className="py-1.5 text-right text-white">{formatCurrency(total)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
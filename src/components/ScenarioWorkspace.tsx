@@ -0,0 +1,254 @@
+/**
+ * Utilization Scenarios tab — calculateScenario() swept from 0% to 100%.
+ *
+ * Curves show portfolio $/student, % of tuition and fixed $/student for the
+ * current filter set under the selected expense preset. The slider picks one
+ * utilization level for the per-school adjusted-cost breakdown below.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import {
+  calculateScenario,
+  findExpensePreset,
+  listExpensePresets,
+  type CustomExpensePreset,
+  type SchoolData,
+  type ScenarioSchoolResult,
+} from '../data/facilitiesCapexData';
+import { formatCurrency } from './shared';
+
+const SWEEP_STEP = 5;
+
+type SortKey = 'displayName' | 'scenarioEnrollment' | 'adjustedTotal' | 'delta' | 'costPerStudent' | 'pctOfTuition';
+
+export const ScenarioWorkspace: React.FC<{
+  schools: SchoolData[];
+  customPresets: CustomExpensePreset[];
+  activePresetId: string;
+  onSelectPreset: (id: string) => void;
+  onSelectSchool: (school: SchoolData) => void;
+}> = ({ schools, customPresets, activePresetId, onSelectPreset, onSelectSchool }) => {
+  const [utilizationPct, setUtilizationPct] = useState(85);
+  const [sort, setSort] = useState<{ key: SortKey; dir: 'asc' | 'desc' }>({ key: 'costPerStudent', dir: 'desc' });
+
+  const presets = listExpensePresets(customPresets);
+  const preset = findExpensePreset(activePresetId, customPresets);
+
+  const totalCapacity = schools.reduce((s, sc) => s + sc.capacity, 0);
+  const totalEnrollment = schools.reduce((s, sc) => s + sc.currentEnrollment, 0);
+  const currentUtilPct = totalCapacity > 0 ? Math.round((totalEnrollment / totalCapacity) * 100) : 0;
+
+  // 0% has no students — keep the point so the axis starts at 0 but leave the curves blank there
+  const sweep = useMemo(() => {
+    const points = [];
+    for (let pct = 0; pct <= 100; pct += SWEEP_STEP) {
+      const r = calculateScenario(schools, pct, preset);
+      const empty = r.totalEnrollment === 0;
+      points.push({
+        pct,
+        avgCostPerStudent: empty ? null : Math.round(r.avgCostPerStudent),
+        fixedCostPerStudent: empty ? null : Math.round(r.fixedCostPerStudent),
+        avgPctOfTuition: empty ? null : +r.avgPctOfTuition.toFixed(1),
+      });
+    }
+    return points;
+  }, [schools, preset]);
+
+  const result = useMemo(() => calculateScenario(schools, utilizationPct, preset), [schools, utilizationPct, preset]);
+
+  const sortValue = (r: ScenarioSchoolResult, key: SortKey): number | string =>
+    key === 'delta' ? r.adjustedTotal - r.currentTotal : r[key];
+
+  const rows = [...result.schools].sort((a, b) => {
+    const va = sortValue(a, sort.key);
+    const vb = sortValue(b, sort.key);
+    const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    return sort.dir === 'asc' ? cmp : -cmp;
+  });
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => ({ key, dir: prev.key === key && prev.dir === 'desc' ? 'asc' : 'desc' }));
+
+  const SortTh = ({ k, label, align = 'right' }: { k: SortKey; label: string; align?: 'left' | 'right' }) => (
+    <th
+      onClick={() => toggleSort(k)}
+      className={`px-2 py-2 text-${align} text-slate-400 font-medium cursor-pointer hover:text-white whitespace-nowrap`}
+    >
+      {label}{sort.key === k ? (sort.dir === 'desc' ? ' ▼' : ' ▲') : ''}
+    </th>
+  );
+
+  const adjustedTotal = result.schools.reduce((s, r) => s + r.adjustedTotal, 0);
+  const currentTotal = result.schools.reduce((s, r) => s + r.currentTotal, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Controls + headline */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-4 bg-slate-800 text-white">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="font-semibold text-white">Utilization Scenarios</h2>
+              <p className="text-xs text-slate-300 mt-0.5">
+                Every school at the same target utilization. Lease and depreciation stay fixed; other lines split fixed/variable per the preset.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              Expense preset
+              <select
+                value={activePresetId}
+                onChange={(e) => onSelectPreset(e.target.value)}
+                className="border border-slate-600 rounded px-2 py-1.5 text-xs bg-slate-700 text-white"
+              >
+                {presets.map(p => (<option key={p.id} value={p.id}>{p.label}</option>))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-4 mt-4">
+            <span className="text-sm text-slate-300 w-40">Target utilization: <strong className="text-white">{utilizationPct}%</strong></span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={utilizationPct}
+              onChange={(e) => setUtilizationPct(Number(e.target.value))}
+              className="flex-1 accent-blue-500"
+            />
+            <button
+              onClick={() => setUtilizationPct(currentUtilPct)}
+              className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600"
+            >
+              Current ({currentUtilPct}%)
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-5 text-sm">
+          <div>
+            <div className="text-xs text-slate-400">Enrollment</div>
+            <div className="text-lg font-bold text-white">{result.totalEnrollment.toLocaleString()}</div>
+            <div className="text-xs text-slate-500">vs {totalEnrollment.toLocaleString()} today</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Avg Cost / Student</div>
+            <div className="text-lg font-bold text-white">{formatCurrency(result.avgCostPerStudent)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">% of Tuition</div>
+            <div className="text-lg font-bold text-white">{result.avgPctOfTuition.toFixed(1)}%</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Fixed Cost / Student</div>
+            <div className="text-lg font-bold text-white">{formatCurrency(result.fixedCostPerStudent)}</div>
+            <div className="text-xs text-slate-500">Lease + depreciation</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">vs Current $/Student</div>
+            <div className={`text-lg font-bold ${result.savingsVsCurrent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {result.savingsVsCurrent >= 0 ? '-' : '+'}{formatCurrency(Math.abs(result.savingsVsCurrent))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Sweep curves */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white">
+          <h3 className="font-semibold">Cost Curves — 0% to 100% Utilization</h3>
+          <p className="text-xs text-slate-300 mt-0.5">{schools.length} schools in current filters | dashed lines: selected and current utilization</p>
+        </div>
+        <div className="p-5">
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={sweep} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="pct" tickFormatter={(v) => `${v}%`} tick={{ fontSize: 11, fill: '#94a3b8' }} />
+              <YAxis yAxisId="dollars" tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 11, fill: '#94a3b8' }} width={60} />
+              <YAxis yAxisId="pct" orientation="right" tickFormatter={(v) => `${v}%`} tick={{ fontSize: 11, fill: '#94a3b8' }} width={50} />
+              <Tooltip
+                labelFormatter={(v) => `${v}% utilization`}
+                formatter={(value: number, name: string) => (name === '% of Tuition' ? `${value}%` : formatCurrency(value))}
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <ReferenceLine yAxisId="dollars" x={Math.round(utilizationPct / SWEEP_STEP) * SWEEP_STEP} stroke="#60a5fa" strokeDasharray="4 4" />
+              <ReferenceLine yAxisId="dollars" x={Math.round(currentUtilPct / SWEEP_STEP) * SWEEP_STEP} stroke="#94a3b8" strokeDasharray="2 4" />
+              <Line yAxisId="dollars" type="monotone" dataKey="avgCostPerStudent" name="Avg $/Student" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls={false} />
+              <Line yAxisId="dollars" type="monotone" dataKey="fixedCostPerStudent" name="Fixed $/Student" stroke="#64748b" strokeWidth={2} dot={false} connectNulls={false} />
+              <Line yAxisId="pct" type="monotone" dataKey="avgPctOfTuition" name="% of Tuition" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Per-school breakdown */}
+      <div className="table-card rounded-xl overflow-hidden">
+        <div className="px-5 py-3 bg-slate-800 text-white">
+          <h3 className="font-semibold">Per-School Adjusted Costs at {utilizationPct}%</h3>
+          <p className="text-xs text-slate-300 mt-0.5">Click a row for school detail. Click headers to sort.</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <SortTh k="displayName" label="School" align="left" />
+                <SortTh k="scenarioEnrollment" label="Students" />
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Lease</th>
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Fixed Fac.</th>
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Var. Fac.</th>
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Student Svcs</th>
+                <th className="px-2 py-2 text-right text-slate-400 font-medium">Depr.</th>
+                <SortTh k="adjustedTotal" label="Adjusted Total" />
+                <SortTh k="delta" label="vs Actual" />
+                <SortTh k="costPerStudent" label="$/Student" />
+                <SortTh k="pctOfTuition" label="% Tuition" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => {
+                const delta = r.adjustedTotal - r.currentTotal;
+                const school = schools.find(s => s.id === r.id);
+                return (
+                  <tr
+                    key={r.id}
+                    onClick={() => school && onSelectSchool(school)}
+                    className="border-b border-slate-700/30 hover:bg-slate-800/50 cursor-pointer"
+                  >
+                    <td className="px-2 py-2 text-slate-200 font-medium">{r.displayName}</td>
+                    <td className="px-2 py-2 text-right text-slate-300">
+                      {r.currentEnrollment} → <span className="text-white">{r.scenarioEnrollment}</span>
+                    </td>
+                    <td className="px-2 py-2 text-right text-slate-300">{formatCurrency(r.lease)}</td>
+                    <td className="px-2 py-2 text-right text-slate-300">{formatCurrency(r.fixedFacilities)}</td>
+                    <td className="px-2 py-2 text-right text-slate-300">{formatCurrency(r.variableFacilities)}</td>
+                    <td className="px-2 py-2 text-right text-slate-300">{formatCurrency(r.studentServices)}</td>
+                    <td className="px-2 py-2 text-right text-slate-300">{formatCurrency(r.annualDepreciation)}</td>
+                    <td className="px-2 py-2 text-right text-white font-semibold">{formatCurrency(r.adjustedTotal)}</td>
+                    <td className={`px-2 py-2 text-right ${delta > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {delta > 0 ? '+' : delta < 0 ? '-' : ''}{formatCurrency(Math.abs(delta))}
+                    </td>
+                    <td className="px-2 py-2 text-right text-slate-200">{r.scenarioEnrollment > 0 ? formatCurrency(r.costPerStudent) : '—'}</td>
+                    <td className="px-2 py-2 text-right text-slate-200">{r.scenarioEnrollment > 0 ? `${r.pctOfTuition.toFixed(1)}%` : '—'}</td>
+                  </tr>
+                );
+              })}
+              <tr className="font-semibold bg-slate-800/50">
+                <td className="px-2 py-2 text-white">Portfolio</td>
+                <td className="px-2 py-2 text-right text-white">{totalEnrollment} → {result.totalEnrollment}</td>
+                <td colSpan={5}></td>
+                <td className="px-2 py-2 text-right text-white">{formatCurrency(adjustedTotal)}</td>
+                <td className={`px-2 py-2 text-right ${adjustedTotal > currentTotal ? 'text-red-400' : 'text-green-400'}`}>
+                  {adjustedTotal > currentTotal ? '+' : '-'}{formatCurrency(Math.abs(adjustedTotal - currentTotal))}
+                </td>
+                <td className="px-2 py-2 text-right text-white">{formatCurrency(result.avgCostPerStudent)}</td>
+                <td className="px-2 py-2 text-right text-white">{result.avgPctOfTuition.toFixed(1)}%</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
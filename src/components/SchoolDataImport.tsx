@@ -0,0 +1,142 @@
+/**
+ * School data import controls — header upload button + import report banner.
+ *
+ * Upload a CSV export of the "Facilities & Capex Costs" Summary sheet. Valid
+ * rows replace the built-in rawSchoolData; rejected rows
+ * are listed with the column and value that failed.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  importSchoolDataFile,
+  type ImportErrorKind,
+  type SchoolDataImportResult,
+} from '../data/schoolDataImport';
+
+export const ImportButton: React.FC<{
+  onImported: (result: SchoolDataImportResult) => void;
+}> = ({ onImported }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      onImported(await importSchoolDataFile(file));
+    } catch (err) {
+      onImported({
+        fileName: file.name,
+        sheetName: '',
+        entries: {},
+        errors: [{
+          kind: 'invalid-value',
+          row: null,
+          column: '',
+          message: `Could not read file: ${err instanceof Error ? err.message : String(err)}`,
+        }],
+        rowsRead: 0,
+        rowsImported: 0,
+      });
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className="border border-slate-600 rounded px-2 py-1.5 text-xs bg-slate-700 text-white hover:bg-slate-600 disabled:opacity-50"
+        title="Import the &quot;Summary - Based on Expense down&quot; sheet saved as .csv"
+      >
+        {busy ? 'Importing…' : 'Import Data'}
+      </button>
+    </>
+  );
+};
+
+const errorKindLabels: Record<ImportErrorKind, string> = {
+  'missing-column': 'Missing column',
+  'non-numeric': 'Non-numeric',
+  'unknown-school-type': 'Unknown type',
+  'invalid-value': 'Invalid value',
+  'blank-value': 'Blank (read as 0)',
+};
+
+export const ImportReport: React.FC<{
+  result: SchoolDataImportResult;
+  applied: boolean;
+  onRevert: () => void;
+  onDismiss: () => void;
+}> = ({ result, applied, onRevert, onDismiss }) => {
+  const [showErrors, setShowErrors] = useState(result.errors.length <= 10);
+  const hasErrors = result.errors.length > 0;
+
+  return (
+    <div className={`rounded-xl border p-4 mb-6 ${
+      !applied ? 'bg-red-900/30 border-red-700' : hasErrors ? 'bg-amber-900/30 border-amber-700' : 'bg-green-900/30 border-green-700'
+    }`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm text-slate-200">
+          <div className="font-semibold text-white">
+            {applied
+              ? `Imported ${result.rowsImported} of ${result.rowsRead} rows (${Object.keys(result.entries).length} schools) from ${result.fileName}`
+              : `Import failed — ${result.fileName} was not loaded`}
+          </div>
+          <div className="text-xs text-slate-400 mt-0.5">
+            {result.sheetName && <>Sheet: {result.sheetName} | </>}
+            {hasErrors ? `${result.errors.length} issue${result.errors.length === 1 ? '' : 's'} found` : 'No issues found'}
+            {applied && ' | All tabs now reflect the imported data'}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {hasErrors && (
+            <button onClick={() => setShowErrors(!showErrors)} className="text-xs text-blue-400 hover:text-blue-300 font-medium">
+              {showErrors ? 'Hide issues' : 'Show issues'}
+            </button>
+          )}
+          {applied && (
+            <button onClick={onRevert} className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600">
+              Revert to built-in data
+            </button>
+          )}
+          <button onClick={onDismiss} className="text-slate-400 hover:text-white text-lg leading-none px-2 py-1 rounded hover:bg-slate-700">x</button>
+        </div>
+      </div>
+      {hasErrors && showErrors && (
+        <div className="mt-3 max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="py-1.5 text-left text-slate-400 font-medium w-14">Row</th>
+                <th className="py-1.5 text-left text-slate-400 font-medium w-28">Issue</th>
+                <th className="py-1.5 text-left text-slate-400 font-medium w-40">Column</th>
+                <th className="py-1.5 text-left text-slate-400 font-medium">Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.errors.map((e, idx) => (
+                <tr key={idx} className="border-b border-slate-700/30">
+                  <td className="py-1.5 text-slate-300">{e.row ?? '—'}</td>
+                  <td className={`py-1.5 ${e.warning ? 'text-slate-400' : 'text-amber-300'}`}>{errorKindLabels[e.kind]}</td>
+                  <td className="py-1.5 text-slate-300">{e.column || '—'}</td>
+                  <td className="py-1.5 text-slate-200">{e.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+/**
+ * Margin sensitivity tornado (Unit Economics tab).
+ *
+ * One school or one school-type segment at a time; each bar is the margin
+ * change from flexing that driver down (left of zero when it hurts) and up.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend, ResponsiveContainer,
+} from 'recharts';
+import { schoolTypeLabels, type SchoolData, type SchoolType, type StaffingModel } from '../data/facilitiesCapexData';
+import {
+  DEFAULT_FLEX_PCT,
+  schoolSensitivity,
+  segmentSensitivity,
+  sensitivityDriverLabels,
+} from '../data/sensitivity';
+import { formatCurrency } from './shared';
+
+const inputClass = 'border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+export const SensitivityTornado: React.FC<{
+  schools: SchoolData[];
+  staffingModel: StaffingModel;
+}> = ({ schools, staffingModel }) => {
+  const types = (Object.keys(schoolTypeLabels) as SchoolType[]).filter(t => schools.some(s => s.schoolType === t));
+  const [scope, setScope] = useState<string>('');
+  const [flexPct, setFlexPct] = useState(DEFAULT_FLEX_PCT);
+
+  // 'type:<SchoolType>' or 'school:<id>'; falls back to the first segment when filters drop the selection
+  const [kind, key] = scope.split(':');
+  const school = kind === 'school' ? schools.find(s => s.id === key) : undefined;
+  const schoolType = kind === 'type' && types.includes(key as SchoolType) ? key as SchoolType : types[0];
+
+  const result = useMemo(
+    () => school
+      ? schoolSensitivity(school, staffingModel, flexPct)
+      : schoolType ? segmentSensitivity(schools, schoolType, staffingModel, flexPct) : null,
+    [school, schoolType, schools, staffingModel, flexPct],
+  );
+  if (!result) return null;
+
+  const data = result.bars.map(bar => ({
+    name: sensitivityDriverLabels[bar.driver],
+    down: bar.low - result.baseMargin,
+    up: bar.high - result.baseMargin,
+  }));
+  const top = result.bars[0];
+
+  return (
+    <div className="table-card rounded-xl overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">Margin Sensitivity — Which Lever Matters Most</h3>
+          <p className="text-xs text-slate-400">Each driver flexed ±{flexPct}% on its own, at capacity. Bars show the change in annual margin.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={school ? `school:${school.id}` : `type:${schoolType}`} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+            <optgroup label="Segments">
+              {types.map(t => (<option key={t} value={`type:${t}`}>{schoolTypeLabels[t]}</option>))}
+            </optgroup>
+            <optgroup label="Schools">
+              {[...schools].sort((a, b) => a.displayName.localeCompare(b.displayName)).map(s => (
+                <option key={s.id} value={`school:${s.id}`}>{s.displayName}</option>
+              ))}
+            </optgroup>
+          </select>
+          <label className="text-xs text-slate-400 flex items-center gap-1">
+            ±
+            <input
+              type="number"
+              min={1}
+              max={50}
+              step={1}
+              value={flexPct}
+              onChange={(e) => setFlexPct(Math.min(50, Math.max(1, Number(e.target.value) || DEFAULT_FLEX_PCT)))}
+              className={`${inputClass} w-14 text-right`}
+            />
+            %
+          </label>
+        </div>
+      </div>
+      <div className="p-5">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400 mb-3">
+          <span>Base margin: <span className={`font-semibold ${result.baseMargin < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(result.baseMargin)}</span>
+            {result.baseRevenue > 0 && <> ({((result.baseMargin / result.baseRevenue) * 100).toFixed(1)}%)</>}
+          </span>
+          {top && <span>Biggest lever: <span className="text-white font-semibold">{sensitivityDriverLabels[top.driver]}</span> — {formatCurrency(top.swing)} swing</span>}
+        </div>
+        <ResponsiveContainer width="100%" height={Math.max(220, data.length * 36)}>
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+            <XAxis type="number" tickFormatter={(v) => `$${(v / 1000).toFixed(0)}K`} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <YAxis type="category" dataKey="name" tick={{ fontSize: 11, fill: '#cbd5e1' }} width={170} />
+            <Tooltip
+              formatter={(value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`}
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <ReferenceLine x={0} stroke="#64748b" />
+            <Bar dataKey="down" name={`Driver −${flexPct}%`} stackId="swing" fill="#f59e0b" />
+            <Bar dataKey="up" name={`Driver +${flexPct}%`} stackId="swing" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
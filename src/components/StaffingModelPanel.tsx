@@ -0,0 +1,247 @@
+/**
+ * Staffing model settings — 2HL staffing parameters per tuition band.
+ *
+ * Salaries, loading and ratio tiers feed getStaffingCost() /
+ * calculateUnitEconomics() live, so "what if lead guides go to $180K" shows
+ * up immediately in Unit Economics and the Summary. The roster preview shows
+ * the headcount a band produces at a given enrollment.
+ */
+
+import React, { useState } from 'react';
+import {
+  buildStaffingRoster,
+  defaultStaffingModel,
+  sortBandsDescending,
+  staffRoleLabels,
+  type StaffingBand,
+  type StaffingModel,
+  type StaffingSizeTier,
+  type StaffRole,
+} from '../data/facilitiesCapexData';
+import { formatCurrency } from './shared';
+
+const tierFields: { key: Exclude<keyof StaffingSizeTier, 'minStudents'>; label: string; step: number }[] = [
+  { key: 'guideRatio', label: 'Guide Ratio', step: 1 },
+  { key: 'minGuides', label: 'Min Guides', step: 1 },
+  { key: 'studentsPerLeadGuide', label: 'Students / Lead', step: 1 },
+  { key: 'minLeadGuides', label: 'Min Leads', step: 1 },
+  { key: 'maxLeadGuides', label: 'Max Leads', step: 1 },
+  { key: 'headOfSchool', label: 'HoS', step: 1 },
+  { key: 'admin', label: 'Admin', step: 1 },
+  { key: 'roomAssistants', label: 'Room Asst.', step: 1 },
+];
+
+const numberInput = 'w-20 border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white';
+
+export const StaffingModelPanel: React.FC<{
+  model: StaffingModel;
+  onChange: (model: StaffingModel) => void;
+}> = ({ model, onChange }) => {
+  const bands = sortBandsDescending(model.bands).reverse();
+  const [selectedId, setSelectedId] = useState(bands[bands.length - 1].id);
+  const [previewStudents, setPreviewStudents] = useState(120);
+  const band = bands.find(b => b.id === selectedId) ?? bands[bands.length - 1];
+  const [previewTuition, setPreviewTuition] = useState<number | null>(null);
+  const tuition = previewTuition ?? (band.minExclusive ? band.minTuition + 1 : Math.max(band.minTuition, 1));
+  const isDefault = JSON.stringify(model) === JSON.stringify(defaultStaffingModel);
+
+  const updateBand = (patch: Partial<StaffingBand>) => {
+    onChange({ bands: bands.map(b => (b.id === band.id ? { ...b, ...patch } : b)) });
+  };
+
+  const updateTier = (tierIdx: number, patch: Partial<StaffingSizeTier>) => {
+    updateBand({ tiers: band.tiers.map((t, i) => (i === tierIdx ? { ...t, ...patch } : t)) });
+  };
+
+  const roster = buildStaffingRoster(tuition, previewStudents, model);
+
+  return (
+    <div className="table-card overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Staffing Model</h3>
+          <p className="text-xs text-slate-300 mt-0.5">2HL staffing parameters by tuition band. Edits flow into every Unit Economics calculation.</p>
+        </div>
+        <button
+          onClick={() => onChange(defaultStaffingModel)}
+          disabled={isDefault}
+          className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      <div className="px-5 pt-3 flex gap-1 border-b border-slate-700/50">
+        {bands.map(b => (
+          <button
+            key={b.id}
+            onClick={() => { setSelectedId(b.id); setPreviewTuition(null); }}
+            className={`px-3 py-1.5 text-xs rounded-t ${b.id === band.id ? 'bg-slate-700 text-white font-medium' : 'text-slate-400 hover:text-white'}`}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-5 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-xs font-medium text-slate-400 uppercase mb-2">Salaries (base) & Loading</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {(Object.keys(staffRoleLabels) as StaffRole[]).map(role => (
+                <label key={role} className="flex items-center justify-between gap-2 text-slate-300">
+                  {staffRoleLabels[role]}
+                  <input
+                    type="number"
+                    min={0}
+                    step={5000}
+                    value={band.salaries[role]}
+                    onChange={(e) => updateBand({ salaries: { ...band.salaries, [role]: Math.max(0, Number(e.target.value) || 0) } })}
+                    className={`${numberInput} w-24`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center justify-between gap-2 text-slate-300">
+                Loading ×
+                <input
+                  type="number"
+                  min={1}
+                  step={0.01}
+                  value={band.loading}
+                  onChange={(e) => updateBand({ loading: Math.max(1, Number(e.target.value) || 1) })}
+                  className={`${numberInput} w-24`}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2 text-slate-300">
+                Min Tuition
+                <span className="flex items-center gap-1">
+                  <select
+                    value={band.minExclusive ? 'gt' : 'gte'}
+                    onChange={(e) => updateBand({ minExclusive: e.target.value === 'gt' })}
+                    className="border border-slate-600 rounded px-1 py-1 text-xs bg-slate-700 text-white"
+                    title="Above (>) or from (≥) the minimum"
+                  >
+                    <option value="gte">≥</option>
+                    <option value="gt">&gt;</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={band.minTuition}
+                    onChange={(e) => updateBand({ minTuition: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${numberInput} w-24`}
+                  />
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-medium text-slate-400 uppercase mb-2">Size Tiers</h4>
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr className="border-b border-slate-700/50">
+                    <th className="py-1.5 pr-2 text-left text-slate-400 font-medium">From Students</th>
+                    {tierFields.map(f => (
+                      <th key={f.key} className="py-1.5 px-1 text-left text-slate-400 font-medium">{f.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {band.tiers.map((tier, idx) => (
+                    <tr key={idx} className="border-b border-slate-700/30">
+                      <td className="py-1.5 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={tier.minStudents}
+                          disabled={idx === 0}
+                          onChange={(e) => updateTier(idx, { minStudents: Math.max(0, Number(e.target.value) || 0) })}
+                          className={`${numberInput} w-16 disabled:opacity-50`}
+                        />
+                      </td>
+                      {tierFields.map(f => (
+                        <td key={f.key} className="py-1.5 px-1">
+                          <input
+                            type="number"
+                            min={f.key === 'guideRatio' ? 1 : 0}
+                            step={f.step}
+                            value={tier[f.key]}
+                            onChange={(e) => updateTier(idx, { [f.key]: Math.max(f.key === 'guideRatio' ? 1 : 0, Number(e.target.value) || 0) })}
+                            className={`${numberInput} w-14`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">Students / Lead = 0 means a fixed lead count (Min Leads). Leads count toward the guide ratio.</p>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-medium text-slate-400 uppercase mb-2">Roster Preview</h4>
+          <div className="flex items-center gap-4 mb-3 text-sm text-slate-300">
+            <label className="flex items-center gap-2">
+              Enrollment
+              <input
+                type="number"
+                min={0}
+                value={previewStudents}
+                onChange={(e) => setPreviewStudents(Math.max(0, Number(e.target.value) || 0))}
+                className={numberInput}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Tuition
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={tuition}
+                onChange={(e) => setPreviewTuition(Math.max(0, Number(e.target.value) || 0))}
+                className={`${numberInput} w-24`}
+              />
+            </label>
+          </div>
+          {roster.band.id !== band.id && (
+            <p className="text-xs text-amber-400 mb-2">Tuition ${tuition.toLocaleString()} falls in {roster.band.label} — preview uses that band.</p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="py-1.5 text-left text-slate-400 font-medium">Role</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">HC</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Base</th>
+                <th className="py-1.5 text-right text-slate-400 font-medium">Loaded Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roster.lines.map(line => (
+                <tr key={line.role} className="border-b border-slate-700/30">
+                  <td className="py-1.5 text-slate-200">{staffRoleLabels[line.role]}</td>
+                  <td className="py-1.5 text-right text-slate-300">{line.count}</td>
+                  <td className="py-1.5 text-right text-slate-300">{formatCurrency(line.salary)}</td>
+                  <td className="py-1.5 text-right text-slate-200">{formatCurrency(line.loadedCost)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2 text-white">Total</td>
+                <td className="py-2 text-right text-white">{roster.headcount}</td>
+                <td className="py-2 text-right text-slate-300">{formatCurrency(roster.baseSalaries)}</td>
+                <td className="py-2 text-right text-white">{formatCurrency(roster.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="mt-3 text-xs text-slate-400">
+            {formatCurrency(roster.total / Math.max(previewStudents, 1))}/student | {previewStudents > 0 ? `${(previewStudents / Math.max(roster.headcount, 1)).toFixed(1)} students per staff` : 'No students'} | {tuition > 0 && previewStudents > 0 ? `${((roster.total / (tuition * previewStudents)) * 100).toFixed(0)}% of tuition` : ''}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+/**
+ * Margin-target settings — tuition bands → target % of tuition.
+ *
+ * Edits flow straight into health scoring, the Unit Economics tab and the
+ * Summary "at target" counts. The policy is saved in the browser.
+ */
+
+import React from 'react';
+import {
+  defaultTargetPolicy,
+  getTargetBand,
+  sortBandsDescending,
+  type SchoolData,
+  type TargetBand,
+  type TargetPolicy,
+} from '../data/facilitiesCapexData';
+
+export const TargetPolicyPanel: React.FC<{
+  policy: TargetPolicy;
+  schools: SchoolData[];
+  onChange: (policy: TargetPolicy) => void;
+}> = ({ policy, schools, onChange }) => {
+  const bands = sortBandsDescending(policy.bands);
+  const isDefault = JSON.stringify(bands) === JSON.stringify(defaultTargetPolicy.bands);
+
+  // Rows re-sort as min tuition changes, so edits go by id
+  const updateBand = (id: string, patch: Partial<TargetBand>) => {
+    onChange({ bands: bands.map(b => (b.id === id ? { ...b, ...patch } : b)) });
+  };
+
+  const addBand = () => {
+    const lowest = bands[bands.length - 1];
+    const minTuition = lowest && lowest.minTuition > 0 ? Math.floor(lowest.minTuition / 2) : 0;
+    const id = `band-${Date.now().toString(36)}`;
+    onChange({ bands: [...bands, { id, minTuition, targetPct: 5, label: `$${Math.round(minTuition / 1000)}k+ → 5%` }] });
+  };
+
+  const removeBand = (id: string) => {
+    if (bands.length <= 1) return;
+    onChange({ bands: bands.filter(b => b.id !== id) });
+  };
+
+  const schoolsInBand = (band: TargetBand) =>
+    schools.filter(s => getTargetBand(s.tuition, policy) === band).length;
+
+  return (
+    <div className="table-card overflow-hidden">
+      <div className="px-5 py-3 bg-slate-800 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Margin Targets</h3>
+          <p className="text-xs text-slate-300 mt-0.5">A school uses the highest band its tuition reaches. Target = facilities cost as max % of tuition.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={addBand} className="text-xs text-blue-400 hover:text-blue-300 font-medium">+ Add band</button>
+          <button
+            onClick={() => onChange(defaultTargetPolicy)}
+            disabled={isDefault}
+            className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-700/50">
+            <th className="px-5 py-2 text-left text-slate-400 font-medium">Min Tuition</th>
+            <th className="px-3 py-2 text-left text-slate-400 font-medium">Target %</th>
+            <th className="px-3 py-2 text-left text-slate-400 font-medium">Label</th>
+            <th className="px-3 py-2 text-right text-slate-400 font-medium">Schools</th>
+            <th className="px-5 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {bands.map(band => (
+            <tr key={band.id} className="border-b border-slate-700/30">
+              <td className="px-5 py-2 flex items-center gap-1">
+                <select
+                  value={band.minExclusive ? 'gt' : 'gte'}
+                  onChange={(e) => updateBand(band.id, { minExclusive: e.target.value === 'gt' })}
+                  className="border border-slate-600 rounded px-1 py-1 text-xs bg-slate-700 text-white"
+                  title="Above (>) or from (≥) the minimum"
+                >
+                  <option value="gte">≥</option>
+                  <option value="gt">&gt;</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={band.minTuition}
+                  onChange={(e) => updateBand(band.id, { minTuition: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-28 border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={band.targetPct}
+                  onChange={(e) => updateBand(band.id, { targetPct: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-20 border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="text"
+                  value={band.label}
+                  onChange={(e) => updateBand(band.id, { label: e.target.value })}
+                  className="w-full border border-slate-600 rounded px-2 py-1 text-xs bg-slate-700 text-white"
+                />
+              </td>
+              <td className="px-3 py-2 text-right text-slate-300">{schoolsInBand(band)}</td>
+              <td className="px-5 py-2 text-right">
+                <button
+                  onClick={() => removeBand(band.id)}
+                  disabled={bands.length <= 1}
+                  className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-30"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * Formatting helpers and small components shared by the dashboard tabs,
+ * settings panels and drawers.
+ */
+
+import React from 'react';
+import type { HealthScore, PortfolioSummary } from '../data/facilitiesCapexData';
+
+export const formatCurrency = (val: number): string => {
+  if (Math.abs(val) >= 1000000) return `$${(val / 1000000).toFixed(2)}M`;
+  if (Math.abs(val) >= 1000) return `$${(val / 1000).toFixed(0)}K`;
+  return `$${val.toFixed(0)}`;
+};
+
+export const HealthBadge: React.FC<{ score: HealthScore; verdict: string }> = ({ score, verdict }) => {
+  const config: Record<HealthScore, { bg: string; dot: string }> = {
+    green: { bg: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+    yellow: { bg: 'bg-amber-100 text-amber-800', dot: 'bg-amber-500' },
+    red: { bg: 'bg-red-100 text-red-800', dot: 'bg-red-500' },
+    gray: { bg: 'bg-gray-100 text-slate-400', dot: 'bg-gray-400' },
+  };
+  const { bg, dot } = config[score];
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 text-xs px-2 py-1 rounded ${bg}`} title={verdict}>
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      {verdict}
+    </span>
+  );
+};
+
+// Portfolio metrics shown before/after; lowerIsBetter drives the change colour
+const impactRows: { label: string; value: (s: PortfolioSummary) => number; format: (v: number) => string; lowerIsBetter?: boolean }[] = [
+  { label: 'Schools', value: s => s.totalSchools, format: v => String(v) },
+  { label: 'Enrollment', value: s => s.totalEnrollment, format: v => v.toLocaleString() },
+  { label: 'Capacity', value: s => s.totalCapacity, format: v => `${v.toLocaleString()} seats` },
+  { label: 'Utilization', value: s => s.avgUtilization, format: v => `${v.toFixed(1)}%` },
+  { label: 'Total Facilities Cost', value: s => s.grandTotal, format: formatCurrency, lowerIsBetter: true },
+  { label: 'Avg $/Student', value: s => s.avgCostPerStudent, format: formatCurrency, lowerIsBetter: true },
+  { label: 'Fac % of Revenue', value: s => s.facilitiesPctOfRevenue, format: v => `${v.toFixed(1)}%`, lowerIsBetter: true },
+  { label: 'Revenue at Capacity', value: s => s.totalRevenueAtCapacity, format: formatCurrency },
+  { label: 'Fac % at Full Capacity', value: s => (s.totalRevenueAtCapacity > 0 ? (s.grandTotal / s.totalRevenueAtCapacity) * 100 : 0), format: v => `${v.toFixed(1)}%`, lowerIsBetter: true },
+  { label: 'Avg Lease / Sq Ft', value: s => s.avgLeasePerSqft, format: v => `$${v.toFixed(2)}`, lowerIsBetter: true },
+  { label: 'CapEx Buildout', value: s => s.totalCapexBuildout, format: formatCurrency, lowerIsBetter: true },
+];
+
+export const PortfolioImpactTable: React.FC<{ before: PortfolioSummary; after: PortfolioSummary; afterLabel: string }> = ({ before, after, afterLabel }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="border-b border-slate-700/50">
+        <th className="py-1.5 text-left text-slate-400 font-medium">Metric</th>
+        <th className="py-1.5 text-right text-slate-400 font-medium">Today</th>
+        <th className="py-1.5 text-right text-slate-400 font-medium">{afterLabel}</th>
+        <th className="py-1.5 text-right text-slate-400 font-medium">Change</th>
+      </tr>
+    </thead>
+    <tbody>
+      {impactRows.map(row => {
+        const b = row.value(before);
+        const a = row.value(after);
+        const diff = a - b;
+        const flat = Math.abs(diff) < 0.05;
+        const worse = row.lowerIsBetter !== undefined && (row.lowerIsBetter ? diff > 0 : diff < 0);
+        return (
+          <tr key={row.label} className="border-b border-slate-700/30">
+            <td className="py-1.5 text-slate-200">{row.label}</td>
+            <td className="py-1.5 text-right text-slate-300">{row.format(b)}</td>
+            <td className="py-1.5 text-right font-medium text-white">{row.format(a)}</td>
+            <td className={`py-1.5 text-right ${flat ? 'text-slate-500' : row.lowerIsBetter === undefined ? 'text-blue-400' : worse ? 'text-red-400' : 'text-green-400'}`}>
+              {flat ? '—' : `${diff > 0 ? '+' : '-'}${row.format(Math.abs(diff))}`}
+            </td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
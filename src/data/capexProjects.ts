@@ -0,0 +1,178 @@
+/**
+ * CapEx Project Ledger
+ *
+ * The buildout behind each school's capexBuildout: line items with vendor,
+ * committed (PO / contract) and spent (invoiced) amounts and approval status.
+ * Until a school's ledger is marked complete it is reconciled against the
+ * reported buildout — approved items account for part of it, the rest shows as
+ * unallocated. A complete ledger, or one that already exceeds the reported
+ * figure, replaces the buildout, so budget.capexBuildout / capexDelta show what
+ * the overrun was made of rather than a single number. Depreciation is left as
+ * reported.
+ */
+
+import type { SchoolData } from './facilitiesCapexData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CapexCategory =
+  | 'construction'
+  | 'hvac'
+  | 'electrical-plumbing'
+  | 'permits'
+  | 'furniture'
+  | 'technology'
+  | 'design'
+  | 'other';
+
+export const capexCategoryLabels: Record<CapexCategory, string> = {
+  construction: 'General Construction',
+  hvac: 'HVAC',
+  'electrical-plumbing': 'Electrical & Plumbing',
+  permits: 'Permits & Fees',
+  furniture: 'Furniture & Fixtures',
+  technology: 'Technology / AV',
+  design: 'Design & PM',
+  other: 'Other',
+};
+
+export type CapexApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export const capexStatusLabels: Record<CapexApprovalStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export interface CapexLineItem {
+  id: string;
+  schoolId: string;
+  category: CapexCategory;
+  description: string;
+  vendor: string;
+  committed: number; // PO / contract value
+  spent: number;     // invoiced to date
+  status: CapexApprovalStatus;
+}
+
+export function newCapexLineItem(schoolId: string, category: CapexCategory = 'construction'): CapexLineItem {
+  return {
+    id: `capex-${Date.now().toString(36)}`,
+    schoolId,
+    category,
+    description: '',
+    vendor: '',
+    committed: 0,
+    spent: 0,
+    status: 'pending',
+  };
+}
+
+// ============================================================================
+// ROLLUP
+// ============================================================================
+
+// What an approved item costs: the commitment, or the spend once it runs over
+export const capexLineAmount = (item: CapexLineItem) => Math.max(item.committed, item.spent);
+
+export interface CapexCategoryTotals {
+  committed: number;
+  spent: number;
+  total: number; // Σ capexLineAmount
+}
+
+export interface CapexLedgerSummary {
+  itemCount: number;
+  approved: CapexCategoryTotals;
+  pendingCommitted: number;   // awaiting approval — not in the buildout yet
+  overrunCount: number;       // approved items spent past their commitment
+  overrunAmount: number;
+  byCategory: Record<CapexCategory, CapexCategoryTotals>;
+}
+
+// Approved items only in the totals; pending shown separately, rejected ignored
+export function summarizeCapexLedger(items: CapexLineItem[]): CapexLedgerSummary {
+  const blank = (): CapexCategoryTotals => ({ committed: 0, spent: 0, total: 0 });
+  const byCategory = Object.fromEntries(
+    (Object.keys(capexCategoryLabels) as CapexCategory[]).map(c => [c, blank()]),
+  ) as Record<CapexCategory, CapexCategoryTotals>;
+  const approved = blank();
+  let pendingCommitted = 0;
+  let overrunCount = 0;
+  let overrunAmount = 0;
+
+  for (const item of items) {
+    if (item.status === 'pending') pendingCommitted += item.committed;
+    if (item.status !== 'approved') continue;
+    const amount = capexLineAmount(item);
+    for (const totals of [approved, byCategory[item.category]]) {
+      totals.committed += item.committed;
+      totals.spent += item.spent;
+      totals.total += amount;
+    }
+    if (item.spent > item.committed) {
+      overrunCount++;
+      overrunAmount += item.spent - item.committed;
+    }
+  }
+
+  return { itemCount: items.length, approved, pendingCommitted, overrunCount, overrunAmount, byCategory };
+}
+
+export const hasApprovedCapex = (items: CapexLineItem[], schoolId: string) =>
+  items.some(i => i.schoolId === schoolId && i.status === 'approved');
+
+export interface CapexReconciliation {
+  ledger: number;       // approved total
+  unallocated: number;  // buildout not yet accounted for by approved items
+  fromLedger: boolean;  // the ledger sets the buildout
+}
+
+// Works on the reported or the ledger-applied school: once the ledger sets the
+// buildout, capexBuildout is the ledger total and nothing is left unallocated
+export function reconcileCapexLedger(school: SchoolData, items: CapexLineItem[], complete: boolean): CapexReconciliation {
+  const ledger = summarizeCapexLedger(items.filter(i => i.schoolId === school.id)).approved.total;
+  const fromLedger = hasApprovedCapex(items, school.id) && (complete || ledger >= school.costs.capexBuildout);
+  return { ledger, unallocated: fromLedger ? 0 : Math.max(school.costs.capexBuildout - ledger, 0), fromLedger };
+}
+
+// A complete ledger, or one past the reported buildout, replaces it; the model
+// (capexBudget) is untouched, so capexDelta becomes ledger − model
+export function applyCapexLedger(schools: SchoolData[], items: CapexLineItem[], completeSchoolIds: string[] = []): SchoolData[] {
+  if (items.length === 0) return schools;
+  return schools.map(school => {
+    const { ledger: capexBuildout, fromLedger } = reconcileCapexLedger(school, items, completeSchoolIds.includes(school.id));
+    if (!fromLedger) return school;
+    const capexDelta = capexBuildout - school.budget.capexBudget;
+    return {
+      ...school,
+      costs: { ...school.costs, capexBuildout },
+      budget: {
+        ...school.budget,
+        capexBuildout,
+        capexDelta,
+        capexDeltaPct: school.budget.capexBudget > 0 ? (capexDelta / school.budget.capexBudget) * 100 : 0,
+        capexPerSeat: capexBuildout / school.capacity,
+      },
+    };
+  });
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isCapexLineItemList(value: unknown): value is CapexLineItem[] {
+  const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  return Array.isArray(value) && value.every(i =>
+    typeof i?.id === 'string' && typeof i?.schoolId === 'string' &&
+    typeof i?.category === 'string' && i.category in capexCategoryLabels &&
+    typeof i?.description === 'string' && typeof i?.vendor === 'string' &&
+    isNum(i.committed) && isNum(i.spent) &&
+    typeof i?.status === 'string' && i.status in capexStatusLabels);
+}
+
+export const isSchoolIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
@@ -0,0 +1,239 @@
+/**
+ * Portfolio Cash-Flow Forecast
+ *
+ * Everything else in the model is annual accrual. This is the monthly cash
+ * view for finance: tuition when it is collected (deposit + installment plan),
+ * rent when it is due (lease schedule, escalators and free rent included),
+ * capex when it is drawn, and operating costs paid evenly through the year.
+ * Depreciation is non-cash and left out.
+ *
+ * - Operating schools hold current enrollment; pre-opening schools open at the
+ *   next school-year start and follow their ramp curve (RampProjection).
+ * - Capex: pre-opening schools draw the buildout not yet spent over the months
+ *   before opening; operating schools draw approved ledger commitments not yet
+ *   invoiced over the next few months.
+ *
+ * Cumulative cash starts at zero — it's the change from today, so the trough
+ * is the most cash the portfolio needs before collections catch up.
+ */
+
+import { capexLineAmount, type CapexLineItem } from './capexProjects';
+import {
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  type SchoolData,
+  type StaffingModel,
+} from './facilitiesCapexData';
+import { addMonths, currentMonth, monthsBetween, rentBetween, resolveLeaseSchedule, type LeaseRecord } from './leaseSchedule';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+export interface TuitionPaymentPlan {
+  depositPct: number;          // collected in depositMonth ahead of the school year
+  depositMonth: number;        // calendar month, 1–12
+  installmentMonths: number[]; // calendar months the balance is split evenly across
+}
+
+export interface CashFlowAssumptions {
+  paymentPlan: TuitionPaymentPlan;
+  collectionRatePct: number;     // share of billed tuition actually collected
+  schoolYearStartMonth: number;  // calendar month, 1–12
+  capexDrawMonths: number;
+}
+
+export const FORECAST_MONTHS = 24;
+
+export const defaultCashFlowAssumptions: CashFlowAssumptions = {
+  paymentPlan: { depositPct: 10, depositMonth: 3, installmentMonths: [8, 9, 10, 11, 12, 1, 2, 3, 4, 5] },
+  collectionRatePct: 98,
+  schoolYearStartMonth: 8,
+  capexDrawMonths: 6,
+};
+
+// ============================================================================
+// FORECAST
+// ============================================================================
+
+export interface CashFlowLines {
+  tuition: number;
+  rent: number;
+  operating: number;
+  capex: number;
+  net: number; // tuition − rent − operating − capex
+}
+
+export interface CashFlowMonth extends CashFlowLines {
+  month: string; // 'YYYY-MM'
+  cumulative: number;
+}
+
+export interface SchoolCashFlow extends CashFlowLines {
+  schoolId: string;
+  openingMonth: string | null; // pre-opening schools only
+}
+
+export interface CashFlowForecast {
+  startMonth: string;
+  months: CashFlowMonth[];
+  bySchool: SchoolCashFlow[];
+  totals: CashFlowLines;
+  troughMonth: string;
+  troughCumulative: number; // lowest cumulative position (0 if the portfolio never dips)
+  endingCumulative: number;
+}
+
+const calendarMonth = (month: string) => Number(month.slice(5, 7));
+
+// Latest school-year start on or before the month
+function schoolYearStart(month: string, startMonth: number): string {
+  const back = (calendarMonth(month) - startMonth + 12) % 12;
+  return addMonths(month, -back);
+}
+
+// Share of a school year's tuition collected in each month, keyed by month
+function collectionSchedule(yearStart: string, plan: TuitionPaymentPlan): Record<string, number> {
+  const schedule: Record<string, number> = {};
+  const add = (month: string, share: number) => { schedule[month] = (schedule[month] ?? 0) + share; };
+  const installments = Array.from({ length: 12 }, (_, k) => addMonths(yearStart, k))
+    .filter(m => plan.installmentMonths.includes(calendarMonth(m)));
+  const deposit = installments.length > 0 ? plan.depositPct / 100 : 1;
+  // Deposit lands in the last depositMonth on or before the year starts
+  add(addMonths(yearStart, -((calendarMonth(yearStart) - plan.depositMonth + 12) % 12)), deposit);
+  for (const m of installments) add(m, (1 - deposit) / installments.length);
+  return schedule;
+}
+
+// Annual operating cash cost (staffing, facilities ex-lease, programs, misc, Timeback) at an enrollment
+function annualOperatingCost(school: SchoolData, students: number, staffingModel: StaffingModel): number {
+  const facilitiesExLease = school.costs.fixedFacilities.total + school.costs.variableFacilities.total + school.costs.studentServices.total;
+  return calculateUnitEconomics(school.tuition, students, facilitiesExLease, 0, staffingModel).totalCosts;
+}
+
+function forecastSchool(
+  school: SchoolData,
+  lease: LeaseRecord,
+  ledger: CapexLineItem[],
+  months: string[],
+  assumptions: CashFlowAssumptions,
+  staffingModel: StaffingModel,
+): { lines: Record<string, CashFlowLines>; openingMonth: string | null } {
+  const asOf = months[0];
+  const firstStart = schoolYearStart(asOf, assumptions.schoolYearStartMonth);
+  const openingMonth = school.isOperating ? null : (firstStart === asOf ? asOf : addMonths(firstStart, 12));
+  // A deposit can fall before the school year, so start one year back
+  const yearStarts = Array.from({ length: Math.ceil(months.length / 12) + 2 }, (_, i) => addMonths(firstStart, 12 * i));
+
+  const enrollmentFor = (yearStart: string): number => {
+    if (school.isOperating) return school.currentEnrollment;
+    if (!school.ramp || openingMonth === null || monthsBetween(openingMonth, yearStart) < 0) return 0;
+    const year = monthsBetween(openingMonth, yearStart) / 12;
+    return school.ramp.years[Math.min(year, school.ramp.years.length - 1)].enrollment;
+  };
+
+  // Tuition collections
+  const tuition: Record<string, number> = {};
+  for (const yearStart of yearStarts) {
+    const billed = enrollmentFor(yearStart) * school.tuition * assumptions.collectionRatePct / 100;
+    if (billed <= 0) continue;
+    for (const [month, share] of Object.entries(collectionSchedule(yearStart, assumptions.paymentPlan))) {
+      tuition[month] = (tuition[month] ?? 0) + billed * share;
+    }
+  }
+
+  // Capex draws
+  const approved = ledger.filter(i => i.schoolId === school.id && i.status === 'approved');
+  const capex: Record<string, number> = {};
+  const draw = (amount: number, from: string, count: number) => {
+    for (let k = 0; k < count; k++) capex[addMonths(from, k)] = amount / count;
+  };
+  if (openingMonth !== null) {
+    const spent = approved.reduce((s, i) => s + i.spent, 0);
+    const drawFrom = monthsBetween(asOf, addMonths(openingMonth, -assumptions.capexDrawMonths)) > 0
+      ? addMonths(openingMonth, -assumptions.capexDrawMonths)
+      : asOf;
+    draw(Math.max(school.costs.capexBuildout - spent, 0), drawFrom, Math.max(monthsBetween(drawFrom, openingMonth), 1));
+  } else {
+    const outstanding = approved.reduce((s, i) => s + capexLineAmount(i) - i.spent, 0);
+    draw(outstanding, asOf, Math.max(assumptions.capexDrawMonths, 1));
+  }
+
+  const lines: Record<string, CashFlowLines> = {};
+  for (const month of months) {
+    const students = enrollmentFor(schoolYearStart(month, assumptions.schoolYearStartMonth));
+    const open = openingMonth === null || monthsBetween(openingMonth, month) >= 0;
+    const line = {
+      tuition: tuition[month] ?? 0,
+      rent: rentBetween(lease, month, addMonths(month, 1)),
+      operating: open ? annualOperatingCost(school, students, staffingModel) / 12 : 0,
+      capex: capex[month] ?? 0,
+    };
+    lines[month] = { ...line, net: line.tuition - line.rent - line.operating - line.capex };
+  }
+  return { lines, openingMonth };
+}
+
+export function forecastCashFlow(
+  schools: SchoolData[],
+  leaseRecords: LeaseRecord[] = [],
+  capexLedger: CapexLineItem[] = [],
+  assumptions: CashFlowAssumptions = defaultCashFlowAssumptions,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  asOf: string = currentMonth(),
+  horizonMonths: number = FORECAST_MONTHS,
+): CashFlowForecast {
+  const monthList = Array.from({ length: horizonMonths }, (_, i) => addMonths(asOf, i));
+  const leases = resolveLeaseSchedule(schools, leaseRecords, asOf);
+  const zero = (): CashFlowLines => ({ tuition: 0, rent: 0, operating: 0, capex: 0, net: 0 });
+  const accumulate = (into: CashFlowLines, line: CashFlowLines) => {
+    into.tuition += line.tuition;
+    into.rent += line.rent;
+    into.operating += line.operating;
+    into.capex += line.capex;
+    into.net += line.net;
+  };
+
+  const byMonth: Record<string, CashFlowLines> = Object.fromEntries(monthList.map(m => [m, zero()]));
+  const bySchool = schools.map((school, i): SchoolCashFlow => {
+    const { lines, openingMonth } = forecastSchool(school, leases[i], capexLedger, monthList, assumptions, staffingModel);
+    const total = zero();
+    for (const month of monthList) {
+      accumulate(byMonth[month], lines[month]);
+      accumulate(total, lines[month]);
+    }
+    return { schoolId: school.id, openingMonth, ...total };
+  });
+
+  let cumulative = 0;
+  const months = monthList.map((month): CashFlowMonth => {
+    cumulative += byMonth[month].net;
+    return { month, ...byMonth[month], cumulative };
+  });
+  const trough = months.reduce((low, m) => (m.cumulative < low.cumulative ? m : low), months[0]);
+  const totals = zero();
+  for (const m of months) accumulate(totals, m);
+
+  return {
+    startMonth: asOf,
+    months,
+    bySchool,
+    totals,
+    troughMonth: trough.month,
+    troughCumulative: Math.min(trough.cumulative, 0),
+    endingCumulative: cumulative,
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isCashFlowAssumptions(value: unknown): value is CashFlowAssumptions {
+  const a = value as CashFlowAssumptions | null;
+  const isMonth = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 12;
+  return typeof a?.collectionRatePct === 'number' && typeof a?.capexDrawMonths === 'number' &&
+    isMonth(a?.schoolYearStartMonth) &&
+    typeof a?.paymentPlan?.depositPct === 'number' && isMonth(a.paymentPlan.depositMonth) &&
+    Array.isArray(a.paymentPlan.installmentMonths) && a.paymentPlan.installmentMonths.every(isMonth);
+}
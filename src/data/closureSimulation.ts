@@ -0,0 +1,325 @@
+/**
+ * Close / Consolidate Simulation
+ *
+ * The follow-up to an "At Risk" verdict: close one or more schools at a chosen
+ * month and optionally move a share of their students to a receiving school.
+ * Closed schools drop out of the portfolio; receiving schools are rebuilt at
+ * their new enrollment (lines re-split per the active expense preset) and the
+ * result runs through calculatePortfolioSummary() like any other portfolio.
+ *
+ * Closing saves the controllable lines. Lease and depreciation do not go away
+ * with the students — the lease is owed until it can be exited (leaseSchedule)
+ * and the buildout's net book value (fixed-asset register) is written off at
+ * closing. The same exit cost backs the per-school obligations in the drawer.
+ */
+
+import {
+  buildSchoolData,
+  calculatePortfolioSummary,
+  defaultTargetPolicy,
+  resolveExpenseRules,
+  schoolToRawEntry,
+  YEAR_END_PERIOD,
+  type ExpensePresetRef,
+  type ExpenseRuleSet,
+  type PortfolioSummary,
+  type SchoolData,
+  type TargetPolicy,
+} from './facilitiesCapexData';
+import { assumedFixedAsset, netBookValue, type FixedAsset } from './fixedAssets';
+import {
+  currentMonth,
+  exitCost,
+  leaseExpiration,
+  remainingCommitment,
+  resolveLeaseSchedule,
+  type ExitCost,
+  type LeaseRecord,
+} from './leaseSchedule';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SchoolClosure {
+  schoolId: string;
+  closeMonth: string;               // 'YYYY-MM', first month closed
+  transferPct: number;              // % of current students who move to the receiving school
+  receivingSchoolId: string | null;
+}
+
+export interface ClosedSchoolResult {
+  schoolId: string;
+  displayName: string;
+  closeMonth: string;
+  enrollment: number;
+  transferredStudents: number;
+  receivingSchoolId: string | null; // null when no valid receiving school was picked
+  savedControllable: number;        // annual fixed + variable facilities + student services
+  sunkLease: number;                // annual, carried until the lease is exited
+  sunkDepreciation: number;         // annual, carried until written off
+  lostRevenue: number;              // annual tuition from all current students
+  exit: SchoolExit;
+  assumedLease: boolean;
+}
+
+export interface ReceivingSchoolResult {
+  schoolId: string;
+  displayName: string;
+  capacity: number;
+  enrollmentBefore: number;
+  incomingStudents: number;
+  enrollmentAfter: number;
+  seatsOver: number;                // students above capacity (0 when they fit)
+  revenueGained: number;
+  addedCosts: number;               // annual cost of the extra students
+  rebuilt: SchoolData;
+}
+
+export interface ClosureSimulation {
+  closed: ClosedSchoolResult[];
+  receiving: ReceivingSchoolResult[];
+  before: PortfolioSummary;
+  after: PortfolioSummary;
+
+  savedControllable: number;
+  remainingSunkLease: number;
+  remainingSunkDepreciation: number;
+  exitObligation: number;           // lease still owed after closing + unamortized capex written off
+  lostRevenue: number;
+  retainedRevenue: number;          // tuition the transferred students bring to their new school
+  netLostRevenue: number;
+  receivingAddedCosts: number;
+  netAnnualImpact: number;          // saved controllable - receiving added costs - net lost revenue
+  overCapacity: boolean;
+}
+
+// Closing at the end of the current calendar year, nobody moving yet
+export function defaultClosure(schoolId: string, asOf: string = currentMonth()): SchoolClosure {
+  return { schoolId, closeMonth: `${Number(asOf.slice(0, 4)) + 1}-01`, transferPct: 0, receivingSchoolId: null };
+}
+
+// ============================================================================
+// OBLIGATION & EXIT COST PER SCHOOL
+// ============================================================================
+
+// The school's assets on the register; without any, the reported buildout as one
+// assumed asset placed in service at lease commencement (asOf for an assumed lease)
+const bookAssets = (school: SchoolData, lease: LeaseRecord, assetRegister: FixedAsset[]): FixedAsset[] => {
+  const entered = assetRegister.filter(a => a.schoolId === school.id);
+  return entered.length > 0
+    ? entered
+    : [assumedFixedAsset(school.id, school.costs.capexBuildout, school.costs.annualDepreciation.total, lease.commencementDate)];
+};
+
+// Net book value of the buildout at a month — what closing then writes off
+export function unamortizedCapex(school: SchoolData, lease: LeaseRecord, month: string, assetRegister: FixedAsset[] = []): number {
+  return bookAssets(school, lease, assetRegister).reduce((total, asset) => total + netBookValue(asset, month), 0);
+}
+
+export interface SchoolExit {
+  closeMonth: string;        // first month closed
+  lease: ExitCost;           // rent / termination penalty still owed after closing
+  unamortizedCapex: number;  // buildout written off at closing
+  total: number;
+}
+
+export interface SchoolObligation {
+  schoolId: string;
+  assumedLease: boolean;
+  assumedCapex: boolean;     // nothing on the register and no lease — write-off is close to the full buildout
+  expiration: string;
+  remainingRent: number;     // contractual rent from asOf through expiration
+  unamortizedCapex: number;  // as of asOf
+  exitThisYear: SchoolExit;  // close at the end of asOf's calendar year
+  exitNextYear: SchoolExit;  // close at the end of the following year
+}
+
+export function schoolExit(school: SchoolData, lease: LeaseRecord, closeMonth: string, assetRegister: FixedAsset[] = []): SchoolExit {
+  const leaseExit = exitCost(lease, closeMonth);
+  const capex = unamortizedCapex(school, lease, closeMonth, assetRegister);
+  return { closeMonth, lease: leaseExit, unamortizedCapex: capex, total: leaseExit.total + capex };
+}
+
+export function calculateObligations(
+  schools: SchoolData[],
+  records: LeaseRecord[],
+  asOf: string,
+  assetRegister: FixedAsset[] = [],
+): Record<string, SchoolObligation> {
+  const year = Number(asOf.slice(0, 4));
+  const leases = resolveLeaseSchedule(schools, records, asOf);
+  const byId: Record<string, SchoolObligation> = {};
+  schools.forEach((school, idx) => {
+    const lease = leases[idx];
+    byId[school.id] = {
+      schoolId: school.id,
+      assumedLease: lease.assumed,
+      assumedCapex: lease.assumed && !assetRegister.some(a => a.schoolId === school.id),
+      expiration: leaseExpiration(lease),
+      remainingRent: remainingCommitment(lease, asOf),
+      unamortizedCapex: unamortizedCapex(school, lease, asOf, assetRegister),
+      exitThisYear: schoolExit(school, lease, `${year + 1}-01`, assetRegister),
+      exitNextYear: schoolExit(school, lease, `${year + 2}-01`, assetRegister),
+    };
+  });
+  return byId;
+}
+
+// ============================================================================
+// RECEIVING SCHOOLS
+// ============================================================================
+
+const scaleLine = (amount: number, rule: { fixed: number; variable: number }, ratio: number) =>
+  amount * (rule.fixed + rule.variable * ratio);
+
+// Rebuild a school at a new enrollment; lease and depreciation stay, the other
+// lines move with their preset variable share (as in adjustCostsForEnrollment,
+// scaling a pre-opening school's run-rate costs from capacity)
+function rebuildAtEnrollment(
+  school: SchoolData,
+  enrollment: number,
+  rules: ExpenseRuleSet,
+  targetPolicy: TargetPolicy,
+): SchoolData {
+  const raw = schoolToRawEntry(school);
+  const baseEnrollment = school.currentEnrollment > 0 ? school.currentEnrollment : school.capacity;
+  const ratio = enrollment / Math.max(baseEnrollment, 1);
+  const lines = {
+    security: scaleLine(raw.security, rules.security, ratio),
+    itMaintenance: scaleLine(raw.itMaintenance, rules.itMaintenance, ratio),
+    landscaping: scaleLine(raw.landscaping, rules.landscaping, ratio),
+    janitorial: scaleLine(raw.janitorial, rules.janitorial, ratio),
+    utilities: scaleLine(raw.utilities, rules.utilities, ratio),
+    maintenance: scaleLine(raw.maintenance, rules.repairs, ratio),
+    foodServices: scaleLine(raw.foodServices, rules.foodServices, ratio),
+    transportation: scaleLine(raw.transportation, rules.transportation, ratio),
+  };
+  const added = (Object.keys(lines) as (keyof typeof lines)[]).reduce((total, k) => total + lines[k] - raw[k], 0);
+
+  const [rebuilt] = buildSchoolData({
+    [school.id]: {
+      ...raw,
+      ...lines,
+      currentEnrollment: enrollment,
+      totalExcCapex: raw.totalExcCapex + added,
+      totalIncCapex: raw.totalIncCapex + added,
+    },
+  }, YEAR_END_PERIOD, targetPolicy);
+  // Capex doesn't move with enrollment — keep the original's register-based depreciation and model
+  const { capexBuildout, capexBudget, capexDelta, capexDeltaPct, capexPerSeat, depreciationYears } = school.budget;
+  return {
+    ...rebuilt,
+    costs: { ...rebuilt.costs, annualDepreciation: school.costs.annualDepreciation },
+    budget: { ...rebuilt.budget, capexBuildout, capexBudget, capexDelta, capexDeltaPct, capexPerSeat, depreciationYears },
+    period: school.period,
+    history: school.history,
+  };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+const sum = <T>(items: T[], value: (item: T) => number) => items.reduce((total, item) => total + value(item), 0);
+
+export function simulateClosures(
+  schools: SchoolData[],
+  closures: SchoolClosure[],
+  leaseRecords: LeaseRecord[],
+  assetRegister: FixedAsset[] = [],
+  preset: ExpensePresetRef = 'dashboard',
+  targetPolicy: TargetPolicy = defaultTargetPolicy,
+  asOf: string = currentMonth(),
+): ClosureSimulation {
+  const rules = resolveExpenseRules(preset);
+  const byId = new Map(schools.map(s => [s.id, s]));
+  const active = closures.filter(c => byId.has(c.schoolId));
+  const closedIds = new Set(active.map(c => c.schoolId));
+  const closedSchools = active.map(c => byId.get(c.schoolId)!);
+  const leases = resolveLeaseSchedule(closedSchools, leaseRecords, asOf);
+
+  const incoming = new Map<string, number>();
+  const closed = active.map((closure, idx): ClosedSchoolResult => {
+    const school = closedSchools[idx];
+    // Students can only move to an open school in the portfolio
+    const receivingSchoolId = closure.receivingSchoolId && byId.has(closure.receivingSchoolId) && !closedIds.has(closure.receivingSchoolId)
+      ? closure.receivingSchoolId
+      : null;
+    const transferPct = Math.min(Math.max(closure.transferPct, 0), 100);
+    const transferredStudents = receivingSchoolId ? Math.round(school.currentEnrollment * transferPct / 100) : 0;
+    if (receivingSchoolId) incoming.set(receivingSchoolId, (incoming.get(receivingSchoolId) ?? 0) + transferredStudents);
+
+    return {
+      schoolId: school.id,
+      displayName: school.displayName,
+      closeMonth: closure.closeMonth,
+      enrollment: school.currentEnrollment,
+      transferredStudents,
+      receivingSchoolId,
+      savedControllable: school.controllableCosts,
+      sunkLease: school.costs.lease.total,
+      sunkDepreciation: school.costs.annualDepreciation.total,
+      lostRevenue: school.revenue.current,
+      exit: schoolExit(school, leases[idx], closure.closeMonth, assetRegister),
+      assumedLease: leases[idx].assumed,
+    };
+  });
+
+  const receiving = [...incoming.entries()].map(([id, students]): ReceivingSchoolResult => {
+    const school = byId.get(id)!;
+    const enrollmentAfter = school.currentEnrollment + students;
+    const rebuilt = rebuildAtEnrollment(school, enrollmentAfter, rules, targetPolicy);
+    return {
+      schoolId: id,
+      displayName: school.displayName,
+      capacity: school.capacity,
+      enrollmentBefore: school.currentEnrollment,
+      incomingStudents: students,
+      enrollmentAfter,
+      seatsOver: Math.max(enrollmentAfter - school.capacity, 0),
+      revenueGained: students * school.tuition,
+      addedCosts: rebuilt.costs.grandTotal - school.costs.grandTotal,
+      rebuilt,
+    };
+  });
+
+  const rebuiltById = new Map(receiving.map(r => [r.schoolId, r.rebuilt]));
+  const remaining = schools
+    .filter(s => !closedIds.has(s.id))
+    .map(s => rebuiltById.get(s.id) ?? s);
+
+  const savedControllable = sum(closed, c => c.savedControllable);
+  const lostRevenue = sum(closed, c => c.lostRevenue);
+  const retainedRevenue = sum(receiving, r => r.revenueGained);
+  const receivingAddedCosts = sum(receiving, r => r.addedCosts);
+
+  return {
+    closed,
+    receiving,
+    before: calculatePortfolioSummary(schools),
+    after: calculatePortfolioSummary(remaining),
+    savedControllable,
+    remainingSunkLease: sum(closed, c => c.sunkLease),
+    remainingSunkDepreciation: sum(closed, c => c.sunkDepreciation),
+    exitObligation: sum(closed, c => c.exit.total),
+    lostRevenue,
+    retainedRevenue,
+    netLostRevenue: lostRevenue - retainedRevenue,
+    receivingAddedCosts,
+    netAnnualImpact: savedControllable - receivingAddedCosts - (lostRevenue - retainedRevenue),
+    overCapacity: receiving.some(r => r.seatsOver > 0),
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isSchoolClosureList(value: unknown): value is SchoolClosure[] {
+  return Array.isArray(value) && value.every(c =>
+    typeof c?.schoolId === 'string' &&
+    typeof c?.closeMonth === 'string' && /^\d{4}-\d{2}$/.test(c.closeMonth) &&
+    typeof c?.transferPct === 'number' && Number.isFinite(c.transferPct) &&
+    (c.receivingSchoolId === null || typeof c.receivingSchoolId === 'string'));
+}
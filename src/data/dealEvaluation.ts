@@ -0,0 +1,437 @@
+/**
+ * Deal Evaluation
+ *
+ * Before signing: what does a new site cost, what's the exit, and what does it
+ * do to the portfolio? Full unit economics (staffing model, programs, misc,
+ * timeback) come from calculateUnitEconomics(); portfolio impact runs the deal
+ * through buildSchoolData() / calculatePortfolioSummary() like any other school.
+ *
+ * Andy rule: no lease without a model.
+ */
+
+import {
+  buildSchoolData,
+  calculatePortfolioSummary,
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  defaultTargetPolicy,
+  getTargetPct,
+  schoolTypeLabels,
+  tuitionTierRanges,
+  type PortfolioSummary,
+  type RawSchoolEntry,
+  type SchoolData,
+  type SchoolType,
+  type StaffingModel,
+  type TargetPolicy,
+  type TuitionTier,
+  type UnitEconomicsResult,
+} from './facilitiesCapexData';
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+export interface DealInputs {
+  name: string;
+  schoolType: SchoolType;
+  leaseAmount: number;         // annual
+  tuition: number;
+  capacity: number;
+  sqft: number;
+  fixedFacilitiesPct: number;  // security + IT + landscaping, as % of lease
+  variableCostPerStudent: number; // variable facilities + student services, $/student
+  capexBuildout: number;
+  amortYears: number;
+  leaseTerm: number;           // years
+  earlyWalkYears: number;      // years of rent owed if we walk early
+  impactUtilizationPct: number; // enrollment assumed for portfolio impact (0 = pre-opening)
+}
+
+export const defaultDealInputs: DealInputs = {
+  name: '',
+  schoolType: 'alpha-school',
+  leaseAmount: 600000,
+  tuition: 50000,
+  capacity: 150,
+  sqft: 15000,
+  fixedFacilitiesPct: 15,
+  variableCostPerStudent: 2500,
+  capexBuildout: 1500000,
+  amortYears: 10,
+  leaseTerm: 10,
+  earlyWalkYears: 3,
+  impactUtilizationPct: 0,
+};
+
+export const dealScenarioUtilizations = [25, 50, 75, 100];
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export type DealVerdict = 'At Target' | 'Acceptable' | 'Warning' | 'Too High';
+
+export interface DealScenario {
+  utilizationPct: number;
+  students: number;
+  revenue: number;
+  facilitiesTotal: number; // lease + fixed + variable, excl. depreciation
+  facilitiesPctOfTuition: number; // incl. depreciation, as the dashboard's % of tuition
+  costPerStudent: number;
+  verdict: DealVerdict;
+  unitEconomics: UnitEconomicsResult;
+}
+
+export interface DealEvaluation {
+  inputs: DealInputs;
+  targetPct: number;
+  annualDepreciation: number;
+  fixedFacCost: number;
+  totalFixed: number;        // lease + fixed facilities + depreciation
+  totalCommitment: number;   // lease × term + buildout
+  earlyWalkExposure: number; // lease × early-walk years + buildout
+  leasePerSqft: number;
+  breakEvenStudents: number; // facilities at target % of tuition
+  canReachTarget: boolean;
+  marginBreakEvenStudents: number | null; // full unit economics ≥ 0; null if not within 150% of capacity
+  scenarios: DealScenario[];
+  dealSchool: SchoolData;
+  portfolioBefore: PortfolioSummary;
+  portfolioAfter: PortfolioSummary;
+}
+
+// ============================================================================
+// DEAL → RAW ENTRY
+// ============================================================================
+
+const tierForTuition = (tuition: number): TuitionTier =>
+  (Object.entries(tuitionTierRanges) as [TuitionTier, { min: number; max: number }][])
+    .find(([, range]) => tuition >= range.min && tuition <= range.max)?.[0] ?? 'economy';
+
+// Spread a total across line items in the portfolio's own mix (even split if the portfolio has none)
+function allocateByMix<K extends string>(total: number, portfolioTotals: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(portfolioTotals) as K[];
+  const sum = keys.reduce((s, k) => s + portfolioTotals[k], 0);
+  return Object.fromEntries(
+    keys.map(k => [k, sum > 0 ? total * (portfolioTotals[k] / sum) : total / keys.length]),
+  ) as Record<K, number>;
+}
+
+// Portfolio totals per controllable line, grouped the way the six categories group them
+function portfolioLineTotals(portfolio: SchoolData[]) {
+  const sum = (pick: (s: SchoolData) => number) => portfolio.reduce((total, s) => total + pick(s), 0);
+  return {
+    fixed: {
+      security: sum(s => s.costs.fixedFacilities.security),
+      itMaintenance: sum(s => s.costs.fixedFacilities.itMaintenance),
+      landscaping: sum(s => s.costs.fixedFacilities.landscaping),
+    },
+    variable: {
+      janitorial: sum(s => s.costs.variableFacilities.janitorial),
+      utilities: sum(s => s.costs.variableFacilities.utilities),
+      maintenance: sum(s => s.costs.variableFacilities.repairs),
+    },
+    services: {
+      foodServices: sum(s => s.costs.studentServices.foodServices),
+      transportation: sum(s => s.costs.studentServices.transportation),
+    },
+  };
+}
+
+// The deal as a RawSchoolEntry at a given enrollment, so it flows through buildSchoolData()
+export function dealToRawEntry(inputs: DealInputs, students: number, portfolio: SchoolData[] = []): RawSchoolEntry {
+  const fixedFacCost = inputs.leaseAmount * (inputs.fixedFacilitiesPct / 100);
+  const variableTotal = inputs.variableCostPerStudent * students;
+  const annualDepreciation = inputs.capexBuildout / Math.max(inputs.amortYears, 1);
+
+  const mix = portfolioLineTotals(portfolio);
+  const fixed = allocateByMix(fixedFacCost, mix.fixed);
+  const variable = allocateByMix(variableTotal, { ...mix.variable, ...mix.services });
+
+  const totalExcCapex = inputs.leaseAmount + fixedFacCost + variableTotal;
+  const capacity = Math.max(inputs.capacity, 1);
+
+  return {
+    displayName: inputs.name.trim() || 'New Deal',
+    currentEnrollment: students,
+    capacity,
+    schoolType: inputs.schoolType,
+    tuitionTier: tierForTuition(inputs.tuition),
+    tuition: inputs.tuition,
+    sqft: inputs.sqft,
+    lease: inputs.leaseAmount,
+    capexBuildout: inputs.capexBuildout,
+    ...fixed,
+    ...variable,
+    totalExcCapex,
+    totalIncCapex: totalExcCapex + annualDepreciation,
+    // The deal is its own model until an approved model exists
+    modelFacPerStudent: totalExcCapex / capacity,
+    modelCapexPerStudent: annualDepreciation / capacity,
+    modelTotalCostPerStudent: (totalExcCapex + annualDepreciation) / capacity,
+    delta: 0,
+  };
+}
+
+// ============================================================================
+// EVALUATE
+// ============================================================================
+
+export function evaluateDeal(
+  inputs: DealInputs,
+  portfolio: SchoolData[],
+  staffingModel: StaffingModel = defaultStaffingModel,
+  targetPolicy: TargetPolicy = defaultTargetPolicy,
+): DealEvaluation {
+  const capacity = Math.max(inputs.capacity, 1);
+  const annualDepreciation = inputs.capexBuildout / Math.max(inputs.amortYears, 1);
+  const fixedFacCost = inputs.leaseAmount * (inputs.fixedFacilitiesPct / 100);
+  const totalFixed = inputs.leaseAmount + fixedFacCost + annualDepreciation;
+  const totalCommitment = inputs.leaseAmount * inputs.leaseTerm + inputs.capexBuildout;
+  const earlyWalkExposure = inputs.leaseAmount * inputs.earlyWalkYears + inputs.capexBuildout;
+  const leasePerSqft = inputs.sqft > 0 ? inputs.leaseAmount / inputs.sqft : 0;
+  const targetPct = getTargetPct(inputs.tuition, targetPolicy);
+
+  const unitEconomicsAt = (students: number) =>
+    calculateUnitEconomics(
+      inputs.tuition,
+      students,
+      inputs.leaseAmount + fixedFacCost + inputs.variableCostPerStudent * students,
+      annualDepreciation,
+      staffingModel,
+    );
+
+  const scenarios = dealScenarioUtilizations.map((pct): DealScenario => {
+    const students = pct === 100 ? capacity : Math.floor(capacity * pct / 100);
+    const facilitiesTotal = inputs.leaseAmount + fixedFacCost + inputs.variableCostPerStudent * students;
+    const revenue = students * inputs.tuition;
+    const facilitiesPctOfTuition = revenue > 0 ? ((facilitiesTotal + annualDepreciation) / revenue) * 100 : 0;
+    const verdict: DealVerdict =
+      facilitiesPctOfTuition <= targetPct ? 'At Target'
+        : facilitiesPctOfTuition <= targetPct * 1.5 ? 'Acceptable'
+          : facilitiesPctOfTuition <= targetPct * 2.5 ? 'Warning'
+            : 'Too High';
+    return {
+      utilizationPct: pct,
+      students,
+      revenue,
+      facilitiesTotal,
+      facilitiesPctOfTuition,
+      costPerStudent: students > 0 ? (facilitiesTotal + annualDepreciation) / students : 0,
+      verdict,
+      unitEconomics: unitEconomicsAt(students),
+    };
+  });
+
+  // Facilities at target: (fixed + v·s) / (s · tuition) ≤ target  →  s ≥ fixed / (target · tuition − v)
+  const targetHeadroom = (targetPct / 100) * inputs.tuition - inputs.variableCostPerStudent;
+  const breakEvenStudents = targetHeadroom > 0 ? Math.ceil(totalFixed / targetHeadroom) : Infinity;
+
+  // Staffing steps with headcount, so scan rather than solve
+  let marginBreakEvenStudents: number | null = null;
+  for (let s = 1; s <= Math.ceil(capacity * 1.5); s++) {
+    if (unitEconomicsAt(s).margin >= 0) {
+      marginBreakEvenStudents = s;
+      break;
+    }
+  }
+
+  const impactStudents = Math.floor(capacity * inputs.impactUtilizationPct / 100);
+  const [dealSchool] = buildSchoolData(
+    { new_deal: dealToRawEntry(inputs, impactStudents, portfolio) },
+    undefined,
+    targetPolicy,
+  );
+
+  return {
+    inputs,
+    targetPct,
+    annualDepreciation,
+    fixedFacCost,
+    totalFixed,
+    totalCommitment,
+    earlyWalkExposure,
+    leasePerSqft,
+    breakEvenStudents,
+    canReachTarget: breakEvenStudents <= capacity,
+    marginBreakEvenStudents,
+    scenarios,
+    dealSchool,
+    portfolioBefore: calculatePortfolioSummary(portfolio),
+    portfolioAfter: calculatePortfolioSummary([...portfolio, dealSchool]),
+  };
+}
+
+// ============================================================================
+// DEAL PIPELINE
+// ============================================================================
+
+export interface DealRecord extends DealInputs {
+  id: string;
+  savedAt: string; // ISO timestamp of last save
+}
+
+export type DealRankKey = 'breakEvenStudents' | 'facPctAt75' | 'facPctAt100' | 'earlyWalkExposure';
+
+export const dealRankLabels: Record<DealRankKey, string> = {
+  breakEvenStudents: 'Break-even students',
+  facPctAt75: 'Fac % at 75%',
+  facPctAt100: 'Fac % at 100%',
+  earlyWalkExposure: 'Early-walk exposure',
+};
+
+export interface DealPipelineRow {
+  deal: DealRecord;
+  evaluation: DealEvaluation;
+  rank: Record<DealRankKey, number>;
+}
+
+const facPctAt = (evaluation: DealEvaluation, utilizationPct: number) =>
+  evaluation.scenarios.find(s => s.utilizationPct === utilizationPct)?.facilitiesPctOfTuition ?? Infinity;
+
+// Evaluate every saved deal and order them best-first (lower is better on every rank key)
+export function rankDeals(
+  deals: DealRecord[],
+  portfolio: SchoolData[],
+  rankBy: DealRankKey = 'breakEvenStudents',
+  staffingModel: StaffingModel = defaultStaffingModel,
+  targetPolicy: TargetPolicy = defaultTargetPolicy,
+): DealPipelineRow[] {
+  return deals
+    .map((deal): DealPipelineRow => {
+      const evaluation = evaluateDeal(deal, portfolio, staffingModel, targetPolicy);
+      return {
+        deal,
+        evaluation,
+        rank: {
+          breakEvenStudents: evaluation.breakEvenStudents,
+          facPctAt75: facPctAt(evaluation, 75),
+          facPctAt100: facPctAt(evaluation, 100),
+          earlyWalkExposure: evaluation.earlyWalkExposure,
+        },
+      };
+    })
+    .sort((a, b) => a.rank[rankBy] - b.rank[rankBy] || a.deal.name.localeCompare(b.deal.name));
+}
+
+export function isDealRecordList(value: unknown): value is DealRecord[] {
+  const numericKeys = (Object.keys(defaultDealInputs) as (keyof DealInputs)[])
+    .filter(k => typeof defaultDealInputs[k] === 'number');
+  return Array.isArray(value) && value.every(d =>
+    typeof d?.id === 'string' && typeof d?.name === 'string' && typeof d?.savedAt === 'string' &&
+    typeof d?.schoolType === 'string' && d.schoolType in schoolTypeLabels &&
+    numericKeys.every(k => typeof d[k] === 'number'));
+}
+
+// ============================================================================
+// PROMOTE TO PORTFOLIO
+// ============================================================================
+
+// Controllable lines estimated for a promoted deal (lease and capex come from the deal itself)
+export type EstimatedCostLine =
+  | 'security' | 'itMaintenance' | 'landscaping'
+  | 'janitorial' | 'utilities' | 'maintenance'
+  | 'foodServices' | 'transportation';
+
+export const estimatedCostLineLabels: Record<EstimatedCostLine, string> = {
+  security: 'Security',
+  itMaintenance: 'IT Maintenance',
+  landscaping: 'Landscaping',
+  janitorial: 'Janitorial',
+  utilities: 'Utilities',
+  maintenance: 'Repairs & Maintenance',
+  foodServices: 'Food Services',
+  transportation: 'Transportation',
+};
+
+export interface PromotedSchool {
+  id: string;            // school id in the portfolio
+  dealId: string;        // pipeline deal it came from
+  promotedAt: string;    // ISO timestamp
+  deal: DealInputs;      // deal as signed
+  estimates: Record<EstimatedCostLine, number>;          // from portfolio per-sqft averages at promotion
+  overrides: Partial<Record<EstimatedCostLine, number>>; // finance-entered replacements
+}
+
+// Portfolio $/sqft by category × the deal's sqft, split across lines in the portfolio's mix
+export function estimateControllableCosts(
+  sqft: number,
+  summary: PortfolioSummary,
+  portfolio: SchoolData[],
+): Record<EstimatedCostLine, number> {
+  const mix = portfolioLineTotals(portfolio);
+  const round = (lines: Record<string, number>) =>
+    Object.fromEntries(Object.entries(lines).map(([k, v]) => [k, Math.round(v)]));
+  return {
+    ...round(allocateByMix(summary.avgFixedFacPerSqft * sqft, mix.fixed)),
+    ...round(allocateByMix(summary.avgVariableFacPerSqft * sqft, mix.variable)),
+    ...round(allocateByMix(summary.avgStudentSvcPerSqft * sqft, mix.services)),
+  } as Record<EstimatedCostLine, number>;
+}
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'new_school';
+
+// Signed deal → pre-opening school; the id follows rawSchoolData's snake_case naming so a later import can replace it
+export function promoteDeal(
+  deal: DealRecord,
+  portfolio: SchoolData[],
+  existingIds: string[] = portfolio.map(s => s.id),
+): PromotedSchool {
+  const base = slugify(deal.name);
+  let id = base;
+  for (let n = 2; existingIds.includes(id); n++) id = `${base}_${n}`;
+
+  const { id: dealId, savedAt: _savedAt, ...inputs } = deal;
+  return {
+    id,
+    dealId,
+    promotedAt: new Date().toISOString(),
+    deal: inputs,
+    estimates: estimateControllableCosts(inputs.sqft, calculatePortfolioSummary(portfolio), portfolio),
+    overrides: {},
+  };
+}
+
+export function promotedSchoolToRawEntry(school: PromotedSchool): RawSchoolEntry {
+  const lines = { ...school.estimates, ...school.overrides };
+  const controllable = Object.values(lines).reduce((sum, v) => sum + v, 0);
+  const annualDepreciation = school.deal.capexBuildout / Math.max(school.deal.amortYears, 1);
+  const totalExcCapex = school.deal.leaseAmount + controllable;
+  const capacity = Math.max(school.deal.capacity, 1);
+
+  return {
+    ...dealToRawEntry(school.deal, 0),
+    ...lines,
+    totalExcCapex,
+    totalIncCapex: totalExcCapex + annualDepreciation,
+    modelFacPerStudent: totalExcCapex / capacity,
+    modelCapexPerStudent: annualDepreciation / capacity,
+    modelTotalCostPerStudent: (totalExcCapex + annualDepreciation) / capacity,
+    estimated: true,
+  };
+}
+
+// Add promoted schools to the raw data; any id already present (imported actuals) wins over the estimate
+export function withPromotedSchools(
+  rawData: Record<string, RawSchoolEntry>,
+  promoted: PromotedSchool[],
+): Record<string, RawSchoolEntry> {
+  const merged = { ...rawData };
+  for (const school of promoted) {
+    if (!(school.id in merged)) merged[school.id] = promotedSchoolToRawEntry(school);
+  }
+  return merged;
+}
+
+export function isPromotedSchoolList(value: unknown): value is PromotedSchool[] {
+  const lines = Object.keys(estimatedCostLineLabels);
+  return Array.isArray(value) && value.every(p =>
+    typeof p?.id === 'string' && typeof p?.dealId === 'string' && typeof p?.promotedAt === 'string' &&
+    isDealRecordList([{ ...p.deal, id: p.dealId, savedAt: p.promotedAt }]) &&
+    typeof p.estimates === 'object' && p.estimates !== null &&
+    lines.every(k => typeof p.estimates[k] === 'number') &&
+    typeof p.overrides === 'object' && p.overrides !== null &&
+    Object.entries(p.overrides).every(([k, v]) => lines.includes(k) && typeof v === 'number'));
+}
@@ -12,8 +12,18 @@
  * Data Source: "Facilities & Capex Costs (1).xlsx" - Summary - Based on Expense down
  * Enrollment Source: "Schools Data Sheet .xlsx" - School Data (confirmed enrollments)
  * Year-end actual costs for 26 schools with operational data.
+ * Imported files may add fiscal-year / monthly history per school (see REPORTING PERIODS).
  */
 
+import {
+  assumedFixedAsset,
+  depreciationBetween,
+  weightedUsefulLife,
+  type FixedAsset,
+} from './fixedAssets';
+import { currentMonth, EXPIRATION_WARNING_MONTHS, type LeaseScheduleSummary } from './leaseSchedule';
+import { rampCurveFor, rampEnrollment, type RampOverrides, type RampProjection } from './rampCurves';
+
 // ============================================================================
 // 6-CATEGORY COST STRUCTURE
 // ============================================================================
@@ -46,6 +56,7 @@ export interface StudentServicesCategory {
 export interface AnnualDepreciationCategory {
   depreciation: number;
   total: number;
+  fromRegister: boolean; // false = as reported (totalIncCapex − totalExcCapex)
 }
 
 export interface SixCategoryCosts {
@@ -79,6 +90,19 @@ export interface ExpenseRuleSet {
   transportation: { fixed: number; variable: number };
 }
 
+export type FacilitiesLine = keyof ExpenseRuleSet;
+
+export const facilitiesLineLabels: Record<FacilitiesLine, string> = {
+  security: 'Security',
+  itMaintenance: 'IT Maintenance',
+  landscaping: 'Landscaping',
+  janitorial: 'Janitorial',
+  utilities: 'Utilities',
+  repairs: 'Repairs / Maintenance',
+  foodServices: 'Food Services',
+  transportation: 'Transportation',
+};
+
 export const expensePresets: Record<ExpensePreset, ExpenseRuleSet> = {
   dashboard: {
     security: { fixed: 0.90, variable: 0.10 },
@@ -107,6 +131,58 @@ export const presetLabels: Record<ExpensePreset, string> = {
   'expense-report': 'Expense Report Splits',
 };
 
+// Ops-defined presets (e.g. "post-renegotiation food contract"), saved in the browser.
+// Anything that takes an ExpensePresetRef accepts a built-in key or one of these.
+export interface CustomExpensePreset {
+  id: string;
+  label: string;
+  rules: ExpenseRuleSet;
+}
+
+export type ExpensePresetRef = ExpensePreset | CustomExpensePreset;
+
+export interface ExpensePresetOption {
+  id: string;
+  label: string;
+  rules: ExpenseRuleSet;
+  builtIn: boolean;
+}
+
+export const expenseRuleLines: { key: keyof ExpenseRuleSet; label: string }[] = [
+  { key: 'security', label: 'Security' },
+  { key: 'itMaintenance', label: 'IT Maintenance' },
+  { key: 'landscaping', label: 'Landscaping' },
+  { key: 'janitorial', label: 'Janitorial' },
+  { key: 'utilities', label: 'Utilities' },
+  { key: 'repairs', label: 'Repairs / Maintenance' },
+  { key: 'foodServices', label: 'Food Services' },
+  { key: 'transportation', label: 'Transportation' },
+];
+
+export function resolveExpenseRules(preset: ExpensePresetRef): ExpenseRuleSet {
+  return typeof preset === 'string' ? expensePresets[preset] ?? expensePresets.dashboard : preset.rules;
+}
+
+export function listExpensePresets(custom: CustomExpensePreset[] = []): ExpensePresetOption[] {
+  return [
+    ...(Object.keys(expensePresets) as ExpensePreset[]).map(id => ({ id, label: presetLabels[id], rules: expensePresets[id], builtIn: true })),
+    ...custom.map(p => ({ ...p, builtIn: false })),
+  ];
+}
+
+// Built-in key or custom id → preset; unknown ids fall back to 'dashboard'
+export function findExpensePreset(id: string, custom: CustomExpensePreset[] = []): ExpensePresetRef {
+  if (id in expensePresets) return id as ExpensePreset;
+  return custom.find(p => p.id === id) ?? 'dashboard';
+}
+
+// Guards custom presets restored from storage
+export function isCustomExpensePresetList(value: unknown): value is CustomExpensePreset[] {
+  return Array.isArray(value) && value.every(p =>
+    typeof p?.id === 'string' && typeof p?.label === 'string' &&
+    expenseRuleLines.every(({ key }) => typeof p.rules?.[key]?.fixed === 'number' && typeof p.rules?.[key]?.variable === 'number'));
+}
+
 // ============================================================================
 // SCHOOL DATA TYPES
 // ============================================================================
@@ -128,12 +204,16 @@ export interface SchoolData {
   utilizationRate: number;
   tuition: number;
   isOperating: boolean;
+  isEstimated: boolean; // Costs are pre-opening estimates until actuals replace them
 
   sqft: number;
   sqftPerStudent: number;
 
   costs: SixCategoryCosts;
 
+  period: string; // Reporting period the costs/enrollment above come from (see REPORTING PERIODS)
+  history: SchoolPeriodActuals[]; // Dated series, oldest first (empty when only the year-end snapshot exists)
+
   revenue: {
     current: number;
     atCapacity: number;
@@ -142,6 +222,7 @@ export interface SchoolData {
 
   healthScore: HealthScore;
   healthVerdict: string;
+  ramp: RampProjection | null; // pre-opening schools only — per-student metrics use its year-1 enrollment
 
   marginalCostPerStudent: number;
   sunkCosts: number;
@@ -183,6 +264,7 @@ export interface SchoolData {
     capexPerSeat: number;
     annualDepreciation: number;
     depreciationPerSeat: number;
+    depreciationYears: number;     // cost-weighted useful life from the fixed-asset register (or assumed asset)
     totalVariance: number;
   };
 }
@@ -246,7 +328,7 @@ export const categoryColors = {
 // RAW SCHOOL DATA (from "Summary - Based on Expense down" sheet)
 // ============================================================================
 
-interface RawSchoolEntry {
+export interface RawSchoolEntry {
   displayName: string;
   currentEnrollment: number;
   capacity: number;
@@ -272,9 +354,13 @@ interface RawSchoolEntry {
   modelCapexPerStudent: number;    // Col X: CapEx cost p/s
   modelTotalCostPerStudent: number; // Col Y: Total cost p/s (= W + X)
   delta: number;
+  // Optional dated actuals (fiscal years and/or months). The fields above remain the year-end snapshot.
+  history?: RawPeriodEntry[];
+  // Pre-opening estimate (a promoted deal) rather than actuals — see promoteDeal() in dealEvaluation
+  estimated?: boolean;
 }
 
-const rawSchoolData: Record<string, RawSchoolEntry> = {
+export const rawSchoolData: Record<string, RawSchoolEntry> = {
   alpha_miami: {
     displayName: 'Alpha Miami',
     currentEnrollment: 69,
@@ -927,11 +1013,161 @@ const rawSchoolData: Record<string, RawSchoolEntry> = {
   },
 };
 
+// ============================================================================
+// REPORTING PERIODS
+// Each school carries a year-end snapshot (the fields on RawSchoolEntry) plus
+// an optional dated series of fiscal-year ('FY2025') or month ('2025-07') actuals.
+// Month figures are annualized (×12) when selected on their own so $/student and
+// % of tuition stay comparable with annual tuition. TTM sums the trailing twelve
+// months ending at the latest month in the portfolio.
+// ============================================================================
+
+export const YEAR_END_PERIOD = 'year-end';
+export const TTM_PERIOD = 'ttm';
+
+export type PeriodKind = 'fiscal-year' | 'month';
+
+type PeriodCostField =
+  | 'lease' | 'utilities' | 'maintenance' | 'itMaintenance' | 'landscaping'
+  | 'janitorial' | 'security' | 'foodServices' | 'transportation'
+  | 'totalExcCapex' | 'totalIncCapex';
+
+const periodCostFields: PeriodCostField[] = [
+  'lease', 'utilities', 'maintenance', 'itMaintenance', 'landscaping',
+  'janitorial', 'security', 'foodServices', 'transportation',
+  'totalExcCapex', 'totalIncCapex',
+];
+
+export type RawPeriodEntry = Pick<RawSchoolEntry, PeriodCostField | 'currentEnrollment'> & {
+  period: string; // 'FY2025' or 'YYYY-MM'
+};
+
+export interface SchoolPeriodActuals {
+  period: string;
+  kind: PeriodKind;
+  enrollment: number;
+  costs: SixCategoryCosts; // As reported — months are NOT annualized here
+}
+
+export function getPeriodKind(period: string): PeriodKind {
+  return /^\d{4}-\d{2}$/.test(period) ? 'month' : 'fiscal-year';
+}
+
+const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function formatPeriodLabel(period: string): string {
+  if (period === YEAR_END_PERIOD) return 'Year-End Actuals';
+  if (period === TTM_PERIOD) return 'Trailing 12 Months';
+  if (getPeriodKind(period) === 'month') {
+    const [year, month] = period.split('-');
+    return `${monthNames[Number(month) - 1] ?? month} ${year}`;
+  }
+  return period;
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [y, m] = month.split('-').map(Number);
+  const idx = y * 12 + (m - 1) + delta;
+  return `${Math.floor(idx / 12)}-${String((idx % 12) + 1).padStart(2, '0')}`;
+}
+
+function latestMonth(rawData: Record<string, RawSchoolEntry>): string | null {
+  let latest: string | null = null;
+  for (const raw of Object.values(rawData)) {
+    for (const h of raw.history ?? []) {
+      if (getPeriodKind(h.period) === 'month' && (latest === null || h.period > latest)) latest = h.period;
+    }
+  }
+  return latest;
+}
+
+// Period keys available for the selector: year-end, TTM (if any months), then history newest first
+export function listAvailablePeriods(rawData: Record<string, RawSchoolEntry>): string[] {
+  const keys = new Set<string>();
+  for (const raw of Object.values(rawData)) {
+    for (const h of raw.history ?? []) keys.add(h.period);
+  }
+  const history = [...keys].sort((a, b) => {
+    const kindA = getPeriodKind(a);
+    const kindB = getPeriodKind(b);
+    if (kindA !== kindB) return kindA === 'fiscal-year' ? -1 : 1;
+    return b.localeCompare(a);
+  });
+  return [
+    YEAR_END_PERIOD,
+    ...(latestMonth(rawData) ? [TTM_PERIOD] : []),
+    ...history,
+  ];
+}
+
+function scalePeriodLines(entries: RawPeriodEntry[], factor: number): Pick<RawSchoolEntry, PeriodCostField> {
+  const lines = {} as Pick<RawSchoolEntry, PeriodCostField>;
+  for (const field of periodCostFields) {
+    lines[field] = entries.reduce((sum, e) => sum + e[field], 0) * factor;
+  }
+  return lines;
+}
+
+// Resolve the entry buildSchoolData() derives from for the selected period.
+// Returns null when the school has no actuals in that period.
+function resolvePeriodEntry(
+  raw: RawSchoolEntry,
+  period: string,
+  ttmEnd: string | null,
+): RawSchoolEntry | null {
+  if (period === YEAR_END_PERIOD) return raw;
+  const history = raw.history ?? [];
+
+  if (period === TTM_PERIOD) {
+    if (!ttmEnd) return null;
+    const start = shiftMonth(ttmEnd, -11);
+    const months = history.filter(h =>
+      getPeriodKind(h.period) === 'month' && h.period >= start && h.period <= ttmEnd);
+    if (months.length === 0) return null;
+    // Partial windows (school opened mid-year) are annualized from the months present
+    return {
+      ...raw,
+      ...scalePeriodLines(months, 12 / months.length),
+      currentEnrollment: Math.round(months.reduce((sum, m) => sum + m.currentEnrollment, 0) / months.length),
+    };
+  }
+
+  const entry = history.find(h => h.period === period);
+  if (!entry) return null;
+  const factor = getPeriodKind(period) === 'month' ? 12 : 1;
+  return { ...raw, ...scalePeriodLines([entry], factor), currentEnrollment: entry.currentEnrollment };
+}
+
+// Year-end snapshot for a school that only has dated rows: latest fiscal year, else TTM of its months
+export function snapshotFromHistory(raw: RawSchoolEntry): RawSchoolEntry {
+  const history = raw.history ?? [];
+  const fiscalYears = history.filter(h => getPeriodKind(h.period) === 'fiscal-year')
+    .sort((a, b) => b.period.localeCompare(a.period));
+  if (fiscalYears.length > 0) {
+    return resolvePeriodEntry(raw, fiscalYears[0].period, null) ?? raw;
+  }
+  const months = history.map(h => h.period).sort();
+  const end = months.length > 0 ? months[months.length - 1] : null;
+  return resolvePeriodEntry(raw, TTM_PERIOD, end) ?? raw;
+}
+
+function buildPeriodHistory(raw: RawSchoolEntry): SchoolPeriodActuals[] {
+  return [...(raw.history ?? [])]
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .map(h => ({
+      period: h.period,
+      kind: getPeriodKind(h.period),
+      enrollment: h.currentEnrollment,
+      costs: transformToSixCategories({ ...raw, ...h }),
+    }));
+}
+
 // ============================================================================
 // TRANSFORM RAW DATA TO 6-CATEGORY STRUCTURE
 // ============================================================================
 
-function transformToSixCategories(raw: RawSchoolEntry): SixCategoryCosts {
+// registerDepreciation replaces the reported figure for schools on the fixed-asset register
+function transformToSixCategories(raw: RawSchoolEntry, registerDepreciation: number | null = null): SixCategoryCosts {
   const lease: LeaseCategory = {
     rent: raw.lease,
     total: raw.lease,
@@ -957,12 +1193,14 @@ function transformToSixCategories(raw: RawSchoolEntry): SixCategoryCosts {
     total: raw.foodServices + raw.transportation,
   };
 
+  const depreciation = registerDepreciation ?? raw.totalIncCapex - raw.totalExcCapex;
   const annualDepreciation: AnnualDepreciationCategory = {
-    depreciation: raw.totalIncCapex - raw.totalExcCapex,
-    total: raw.totalIncCapex - raw.totalExcCapex,
+    depreciation,
+    total: depreciation,
+    fromRegister: registerDepreciation !== null,
   };
 
-  const grandTotal = raw.totalIncCapex;
+  const grandTotal = raw.totalExcCapex + depreciation;
   const totalExcludingLease = grandTotal - raw.lease;
 
   return {
@@ -977,20 +1215,70 @@ function transformToSixCategories(raw: RawSchoolEntry): SixCategoryCosts {
   };
 }
 
+// Register depreciation for the selected period, annualized like the cost lines.
+// Fiscal years are read as calendar years; the year-end snapshot as the current one.
+function registerDepreciation(assets: FixedAsset[], period: string, ttmEnd: string | null): number {
+  if (period === TTM_PERIOD && ttmEnd) return depreciationBetween(assets, shiftMonth(ttmEnd, -11), shiftMonth(ttmEnd, 1));
+  if (getPeriodKind(period) === 'month') return depreciationBetween(assets, period, shiftMonth(period, 1)) * 12;
+  const fiscalYear = Number(period.replace(/^FY/i, ''));
+  const year = Number.isInteger(fiscalYear) && fiscalYear > 0 ? fiscalYear : Number(currentMonth().slice(0, 4));
+  return depreciationBetween(assets, `${year}-01`, `${year + 1}-01`);
+}
+
 // ============================================================================
 // MARGIN TARGETS BY TUITION TIER
 // ============================================================================
 
-export function getTargetPct(tuition: number): number {
-  if (tuition >= 65000) return 20;
-  if (tuition > 40000) return 10;
-  return 5;
+// Finance resets these every planning cycle — edited in the Targets settings panel.
+// A school falls in the band with the highest minTuition it meets.
+export interface TargetBand {
+  id: string;
+  minTuition: number;      // lower bound ($/student/year)
+  minExclusive?: boolean;  // tuition must exceed minTuition rather than reach it
+  targetPct: number;       // margin target, % of tuition
+  label: string;
+}
+
+// Highest bound first; at equal minTuition the exclusive bound is the higher one
+export const sortBandsDescending = <T extends { minTuition: number; minExclusive?: boolean }>(bands: T[]): T[] =>
+  [...bands].sort((a, b) => b.minTuition - a.minTuition || Number(Boolean(b.minExclusive)) - Number(Boolean(a.minExclusive)));
+
+// Lower bound check shared by target and staffing bands
+export const meetsMinTuition = (tuition: number, band: { minTuition: number; minExclusive?: boolean }) =>
+  band.minExclusive ? tuition > band.minTuition : tuition >= band.minTuition;
+
+export interface TargetPolicy {
+  bands: TargetBand[];
+}
+
+export const defaultTargetPolicy: TargetPolicy = {
+  bands: [
+    { id: 'premium', minTuition: 65000, targetPct: 20, label: '$65k+ → 20%' },
+    { id: 'alpha', minTuition: 40000, minExclusive: true, targetPct: 10, label: '$50k → 10%' },
+    { id: 'base', minTuition: 0, targetPct: 5, label: '≤$40k → 5%' },
+  ],
+};
+
+// Guards policies restored from storage
+export function isTargetPolicy(value: unknown): value is TargetPolicy {
+  const bands = (value as TargetPolicy | null)?.bands;
+  return Array.isArray(bands) && bands.length > 0 && bands.every(b =>
+    typeof b?.id === 'string' && typeof b?.minTuition === 'number' && typeof b?.targetPct === 'number' && b.targetPct > 0 && typeof b?.label === 'string');
+}
+
+export function getTargetBand(tuition: number, policy: TargetPolicy = defaultTargetPolicy): TargetBand {
+  const sorted = sortBandsDescending(policy.bands);
+  return sorted.find(b => meetsMinTuition(tuition, b))
+    ?? sorted[sorted.length - 1]
+    ?? defaultTargetPolicy.bands[defaultTargetPolicy.bands.length - 1];
 }
 
-export function getTargetLabel(tuition: number): string {
-  if (tuition >= 65000) return '$65k+ → 20%';
-  if (tuition > 40000) return '$50k → 10%';
-  return '≤$40k → 5%';
+export function getTargetPct(tuition: number, policy: TargetPolicy = defaultTargetPolicy): number {
+  return getTargetBand(tuition, policy).targetPct;
+}
+
+export function getTargetLabel(tuition: number, policy: TargetPolicy = defaultTargetPolicy): string {
+  return getTargetBand(tuition, policy).label;
 }
 
 // ============================================================================
@@ -1022,71 +1310,182 @@ export function getTimeback(tuition: number): number {
 
 // ============================================================================
 // STAFFING MODELS (from 2HL Approved Models)
-// Different tiers have different staffing structures and ratios
+// Different tiers have different staffing structures and ratios.
+// Parameters live in StaffingModel so they can be edited in Settings.
 // ============================================================================
 
-export function getStaffingCost(tuition: number, students: number): number {
-  const loading = 1.15;
-
-  if (tuition <= 15000) {
-    // LOW DOLLAR: $75K guides, 13:1 small / 25:1 large, room assistants at scale
-    if (students < 100) {
-      // Small: 1 Lead Guide + regular guides at 13:1, no admin/HoS
-      const totalGuides = Math.max(2, Math.ceil(students / 13));
-      const leadGuides = 1;
-      const regularGuides = totalGuides - leadGuides;
-      return (leadGuides * 150000 + regularGuides * 75000) * loading;
-    } else {
-      // Large: 25:1 guides + 2 Room Assistants + HoS + Admin
-      const guides = Math.ceil(students / 25);
-      const guideCost = guides * 75000;
-      const otherHC = 2 * 40000 + 150000 + 60000; // 2 Room Asst + HoS + Admin
-      return (guideCost + otherHC) * loading;
-    }
-  }
+export type StaffRole = 'headOfSchool' | 'leadGuide' | 'guide' | 'admin' | 'roomAssistant';
 
-  if (tuition <= 25000) {
-    // ALTERNATIVE ($25K): $100K guides, 13:1 small / 25:1 large, room assistants at scale
-    if (students < 100) {
-      // Small: 1 Lead Guide + regular guides at 13:1, no admin/HoS
-      const totalGuides = Math.max(2, Math.ceil(students / 13));
-      const leadGuides = 1;
-      const regularGuides = totalGuides - leadGuides;
-      return (leadGuides * 150000 + regularGuides * 100000) * loading;
-    } else {
-      // Large: 2 Leads + guides at 25:1 + 2 Room Asst + HoS + Admin
-      const totalGuides = Math.ceil(students / 25);
-      const leadGuides = Math.min(2, totalGuides);
-      const regularGuides = Math.max(0, totalGuides - leadGuides);
-      const guideCost = leadGuides * 150000 + regularGuides * 100000;
-      const otherHC = 2 * 60000 + 200000 + 60000; // 2 Room Asst + HoS + Admin
-      return (guideCost + otherHC) * loading;
-    }
-  }
+export const staffRoleLabels: Record<StaffRole, string> = {
+  headOfSchool: 'Head of School',
+  leadGuide: 'Lead Guide',
+  guide: 'Guide',
+  admin: 'Admin',
+  roomAssistant: 'Room Assistant',
+};
+
+// Staffing structure from minStudents up to the next tier's minStudents
+export interface StaffingSizeTier {
+  minStudents: number;
+  guideRatio: number;          // students per guide (leads count toward the total)
+  minGuides: number;           // floor on total guides
+  studentsPerLeadGuide: number; // 0 = fixed lead count (minLeadGuides)
+  minLeadGuides: number;
+  maxLeadGuides: number;
+  headOfSchool: number;        // fixed headcount
+  admin: number;
+  roomAssistants: number;
+}
+
+export interface StaffingBand {
+  id: string;
+  minTuition: number;      // lower bound — highest band reached applies (as TargetPolicy)
+  minExclusive?: boolean;  // tuition must exceed minTuition rather than reach it
+  label: string;
+  loading: number;    // benefits/payroll tax multiplier on base salaries
+  salaries: Record<StaffRole, number>;
+  tiers: StaffingSizeTier[];
+}
+
+export interface StaffingModel {
+  bands: StaffingBand[];
+}
+
+const alphaTiers = (): StaffingSizeTier[] => [
+  // Admin always 1; lead guides 1 per ~38 students, max 4
+  { minStudents: 0, guideRatio: 11, minGuides: 0, studentsPerLeadGuide: 38, minLeadGuides: 1, maxLeadGuides: 4, headOfSchool: 0, admin: 1, roomAssistants: 0 },
+  // Head of School required at ≥100 students
+  { minStudents: 100, guideRatio: 11, minGuides: 0, studentsPerLeadGuide: 38, minLeadGuides: 1, maxLeadGuides: 4, headOfSchool: 1, admin: 1, roomAssistants: 0 },
+];
+
+export const defaultStaffingModel: StaffingModel = {
+  bands: [
+    {
+      // LOW DOLLAR: $75K guides, 13:1 small / 25:1 large, room assistants at scale
+      id: 'low-dollar',
+      minTuition: 0,
+      label: 'Low Dollar (≤$15K)',
+      loading: 1.15,
+      salaries: { headOfSchool: 150000, leadGuide: 150000, guide: 75000, admin: 60000, roomAssistant: 40000 },
+      tiers: [
+        { minStudents: 0, guideRatio: 13, minGuides: 2, studentsPerLeadGuide: 0, minLeadGuides: 1, maxLeadGuides: 1, headOfSchool: 0, admin: 0, roomAssistants: 0 },
+        { minStudents: 100, guideRatio: 25, minGuides: 0, studentsPerLeadGuide: 0, minLeadGuides: 0, maxLeadGuides: 0, headOfSchool: 1, admin: 1, roomAssistants: 2 },
+      ],
+    },
+    {
+      // ALTERNATIVE ($25K): $100K guides, 13:1 small / 25:1 large, room assistants at scale
+      id: 'alternative',
+      minTuition: 15000,
+      minExclusive: true,
+      label: 'Alternative (≤$25K)',
+      loading: 1.15,
+      salaries: { headOfSchool: 200000, leadGuide: 150000, guide: 100000, admin: 60000, roomAssistant: 60000 },
+      tiers: [
+        { minStudents: 0, guideRatio: 13, minGuides: 2, studentsPerLeadGuide: 0, minLeadGuides: 1, maxLeadGuides: 1, headOfSchool: 0, admin: 0, roomAssistants: 0 },
+        { minStudents: 100, guideRatio: 25, minGuides: 0, studentsPerLeadGuide: 0, minLeadGuides: 2, maxLeadGuides: 2, headOfSchool: 1, admin: 1, roomAssistants: 2 },
+      ],
+    },
+    {
+      // ALPHA ($40K+): 11:1 ratio, lead guides, HoS at 100+
+      id: 'alpha',
+      minTuition: 25000,
+      minExclusive: true,
+      label: 'Alpha (<$50K)',
+      loading: 1.15,
+      salaries: { headOfSchool: 200000, leadGuide: 150000, guide: 100000, admin: 60000, roomAssistant: 0 },
+      tiers: alphaTiers(),
+    },
+    {
+      id: 'premium',
+      minTuition: 50000,
+      label: 'Alpha Premium ($50K+)',
+      loading: 1.15,
+      salaries: { headOfSchool: 300000, leadGuide: 200000, guide: 120000, admin: 75000, roomAssistant: 0 },
+      tiers: alphaTiers(),
+    },
+  ],
+};
 
-  // ALPHA ($40K+): 11:1 ratio, lead guides, HoS at 100+
-  const isPremium = tuition >= 50000;
-  const hosBase = isPremium ? 300000 : 200000;
-  const leadBase = isPremium ? 200000 : 150000;
-  const guideBase = isPremium ? 120000 : 100000;
-  const adminBase = isPremium ? 75000 : 60000;
+// Guards models restored from storage
+export function isStaffingModel(value: unknown): value is StaffingModel {
+  const bands = (value as StaffingModel | null)?.bands;
+  return Array.isArray(bands) && bands.length > 0 && bands.every(b =>
+    typeof b?.id === 'string' && typeof b?.minTuition === 'number' && typeof b?.loading === 'number' &&
+    typeof b?.salaries === 'object' && b.salaries !== null &&
+    (Object.keys(staffRoleLabels) as StaffRole[]).every(r => typeof b.salaries[r] === 'number') &&
+    Array.isArray(b.tiers) && b.tiers.length > 0 && b.tiers.every(t => typeof t?.guideRatio === 'number' && t.guideRatio > 0));
+}
 
-  // Admin: always 1
-  let cost = adminBase * loading;
+export function getStaffingBand(tuition: number, model: StaffingModel = defaultStaffingModel): StaffingBand {
+  const sorted = sortBandsDescending(model.bands);
+  return sorted.find(b => meetsMinTuition(tuition, b)) ?? sorted[sorted.length - 1];
+}
 
-  // Head of School: required at ≥100 students
-  if (students >= 100) cost += hosBase * loading;
+export interface StaffingRosterLine {
+  role: StaffRole;
+  count: number;
+  salary: number;     // base, per head
+  loadedCost: number; // count × salary × loading
+}
+
+export interface StaffingRoster {
+  band: StaffingBand;
+  tier: StaffingSizeTier;
+  students: number;
+  lines: StaffingRosterLine[];
+  headcount: number;
+  baseSalaries: number;
+  total: number; // loaded
+}
 
-  // Guides: 11:1 ratio
-  const totalGuides = Math.ceil(students / 11);
-  // Lead guides: 1 per ~38 students, max 4
-  const leadGuides = Math.min(4, Math.max(1, Math.ceil(students / 38)));
+export function buildStaffingRoster(
+  tuition: number,
+  students: number,
+  model: StaffingModel = defaultStaffingModel,
+): StaffingRoster {
+  const band = getStaffingBand(tuition, model);
+  const tier = [...band.tiers].sort((a, b) => b.minStudents - a.minStudents)
+    .find(t => students >= t.minStudents) ?? band.tiers[0];
+
+  const totalGuides = Math.max(tier.minGuides, Math.ceil(students / tier.guideRatio));
+  const leadTarget = tier.studentsPerLeadGuide > 0 ? Math.ceil(students / tier.studentsPerLeadGuide) : tier.minLeadGuides;
+  const leadGuides = Math.min(tier.maxLeadGuides, Math.max(tier.minLeadGuides, leadTarget));
   const regularGuides = Math.max(0, totalGuides - leadGuides);
 
-  cost += leadGuides * leadBase * loading;
-  cost += regularGuides * guideBase * loading;
+  const counts: Record<StaffRole, number> = {
+    headOfSchool: tier.headOfSchool,
+    leadGuide: leadGuides,
+    guide: regularGuides,
+    admin: tier.admin,
+    roomAssistant: tier.roomAssistants,
+  };
+
+  const lines = (Object.keys(counts) as StaffRole[])
+    .filter(role => counts[role] > 0)
+    .map(role => ({
+      role,
+      count: counts[role],
+      salary: band.salaries[role],
+      loadedCost: counts[role] * band.salaries[role] * band.loading,
+    }));
 
-  return cost;
+  return {
+    band,
+    tier,
+    students,
+    lines,
+    headcount: lines.reduce((sum, l) => sum + l.count, 0),
+    baseSalaries: lines.reduce((sum, l) => sum + l.count * l.salary, 0),
+    total: lines.reduce((sum, l) => sum + l.loadedCost, 0),
+  };
+}
+
+export function getStaffingCost(
+  tuition: number,
+  students: number,
+  model: StaffingModel = defaultStaffingModel,
+): number {
+  return buildStaffingRoster(tuition, students, model).total;
 }
 
 // Full unit economics: Revenue - All Costs = Margin
@@ -1113,17 +1512,21 @@ export interface UnitEconomicsResult {
   marginPct: number;
 }
 
+// tierTuition picks the staffing band and the programs / misc / Timeback rates;
+// pass the list price there when only the price charged moves (flex, discount)
 export function calculateUnitEconomics(
   tuition: number,
   students: number,
   facilitiesTotal: number,
   capexAnnual: number,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  tierTuition: number = tuition,
 ): UnitEconomicsResult {
   const revenue = tuition * students;
-  const staffing = getStaffingCost(tuition, students);
-  const programs = getProgramsPerStudent(tuition, students) * students;
-  const misc = getMiscPerStudent(tuition, students) * students;
-  const timeback = getTimeback(tuition) * students;
+  const staffing = getStaffingCost(tierTuition, students, staffingModel);
+  const programs = getProgramsPerStudent(tierTuition, students) * students;
+  const misc = getMiscPerStudent(tierTuition, students) * students;
+  const timeback = getTimeback(tierTuition) * students;
 
   const totalCosts = staffing + facilitiesTotal + capexAnnual + programs + misc + timeback;
   const margin = revenue - totalCosts;
@@ -1156,12 +1559,74 @@ export function calculateUnitEconomics(
 // BUILD SCHOOL DATA
 // ============================================================================
 
-export function buildSchoolData(): SchoolData[] {
-  const schools: SchoolData[] = [];
+// Health score — uses tier-specific targetPct, NOT hardcoded thresholds
+// Red = can't reach target even at 100% capacity
+// Green = well utilized AND within target
+// Yellow = either under-utilized or over target
+export function scoreHealth(
+  isOperating: boolean,
+  utilizationRate: number,
+  pctOfTuitionCurrent: number,
+  pctAt100Capacity: number,
+  targetPct: number,
+): { healthScore: HealthScore; healthVerdict: string } {
+  if (!isOperating) return { healthScore: 'gray', healthVerdict: 'Pre-Opening' };
+  // Even at full capacity, costs exceed 1.5× the tuition-tier target — structural problem
+  if (pctAt100Capacity > targetPct * 1.5) return { healthScore: 'red', healthVerdict: 'At Risk' };
+  if (utilizationRate >= 0.7 && pctOfTuitionCurrent <= targetPct) return { healthScore: 'green', healthVerdict: 'Keeper' };
+  // Seats are filled but costs still above target
+  if (utilizationRate >= 0.7) return { healthScore: 'yellow', healthVerdict: 'Fix It' };
+  // Under-utilized — fill seats first
+  return { healthScore: 'yellow', healthVerdict: 'Fill It' };
+}
+
+// Run-rate cost estimate against the ramp: pre-opening costs are budgeted for an
+// operating school, so they're held flat and only enrollment moves
+function projectRamp(
+  curve: number[],
+  overridden: boolean,
+  raw: RawSchoolEntry,
+  grandTotal: number,
+  pctAt100Capacity: number,
+  targetPct: number,
+): RampProjection {
+  const years = curve.map((utilizationPct, i) => {
+    const enrollment = rampEnrollment(raw.capacity, utilizationPct);
+    const revenue = enrollment * raw.tuition;
+    return { yearOfOperation: i + 1, utilizationPct, enrollment, pctOfTuition: revenue > 0 ? (grandTotal / revenue) * 100 : Infinity };
+  });
+  const stabilized = years[years.length - 1];
+  const { healthScore, healthVerdict } = scoreHealth(
+    stabilized.enrollment > 0, stabilized.utilizationPct / 100, stabilized.pctOfTuition, pctAt100Capacity, targetPct,
+  );
+  return {
+    curve,
+    overridden,
+    years,
+    openingEnrollment: years[0].enrollment,
+    stabilizedEnrollment: stabilized.enrollment,
+    healthScore,
+    healthVerdict,
+    targetYear: years.find(y => y.pctOfTuition <= targetPct)?.yearOfOperation ?? null,
+  };
+}
 
-  for (const [id, raw] of Object.entries(rawSchoolData)) {
-    const costs = transformToSixCategories(raw);
-    const enrollment = Math.max(raw.currentEnrollment, 1);
+export function buildSchoolData(
+  rawData: Record<string, RawSchoolEntry> = rawSchoolData,
+  period: string = YEAR_END_PERIOD,
+  targetPolicy: TargetPolicy = defaultTargetPolicy,
+  assetRegister: FixedAsset[] = [],
+  rampOverrides: RampOverrides = {},
+): SchoolData[] {
+  const schools: SchoolData[] = [];
+  const ttmEnd = period === TTM_PERIOD ? latestMonth(rawData) : null;
+
+  for (const [id, source] of Object.entries(rawData)) {
+    // Schools without actuals in the selected period drop out of that view
+    const raw = resolvePeriodEntry(source, period, ttmEnd);
+    if (!raw) continue;
+    const assets = assetRegister.filter(a => a.schoolId === id);
+    const costs = transformToSixCategories(raw, assets.length > 0 ? registerDepreciation(assets, period, ttmEnd) : null);
     const utilizationRate = raw.currentEnrollment / raw.capacity;
     const isOperating = raw.currentEnrollment > 0;
 
@@ -1169,10 +1634,9 @@ export function buildSchoolData(): SchoolData[] {
     const revenueAtCapacity = raw.capacity * raw.tuition;
     const revenueGap = revenueAtCapacity - revenueCurrent;
 
-    const tuitionRevenueCurrent = enrollment * raw.tuition;
     const tuitionRevenueCapacity = raw.capacity * raw.tuition;
 
-    const schoolTargetPct = getTargetPct(raw.tuition);
+    const schoolTargetPct = getTargetPct(raw.tuition, targetPolicy);
     const targetFraction = schoolTargetPct / 100;
     const studentsForTarget = Math.ceil(costs.grandTotal / (targetFraction * raw.tuition));
     const studentsFor20Pct = Math.ceil(costs.grandTotal / (0.20 * raw.tuition));
@@ -1184,6 +1648,12 @@ export function buildSchoolData(): SchoolData[] {
       ? (costs.grandTotal / tuitionRevenueCapacity) * 100
       : 0;
 
+    // Pre-opening: per-student figures on the projected opening enrollment, not on 1 student
+    const ramp = isOperating
+      ? null
+      : projectRamp(rampCurveFor(id, raw.schoolType, rampOverrides), id in rampOverrides, raw, costs.grandTotal, pctAt100Capacity, schoolTargetPct);
+    const enrollment = Math.max(ramp ? ramp.openingEnrollment : raw.currentEnrollment, 1);
+
     const sqftPerStudent = raw.sqft / enrollment;
     const costPerSqft = raw.sqft > 0 ? costs.grandTotal / raw.sqft : 0;
     const leasePerSqft = raw.sqft > 0 ? costs.lease.total / raw.sqft : 0;
@@ -1193,6 +1663,7 @@ export function buildSchoolData(): SchoolData[] {
     const depreciationPerSqft = raw.sqft > 0 ? costs.annualDepreciation.total / raw.sqft : 0;
     const netFacFeePerSqft = raw.sqft > 0 ? raw.totalExcCapex / raw.sqft : 0;
 
+    const tuitionRevenueCurrent = enrollment * raw.tuition;
     const pctOfTuitionCurrent = (costs.grandTotal / tuitionRevenueCurrent) * 100;
 
     // Sunk vs controllable
@@ -1202,35 +1673,9 @@ export function buildSchoolData(): SchoolData[] {
 
     // Marginal cost = variable-only costs per student (what the NEXT student costs)
     const variableTotal = costs.variableFacilities.total + costs.studentServices.total;
-    const marginalCostPerStudent = isOperating
-      ? variableTotal / raw.currentEnrollment
-      : variableTotal > 0 ? variableTotal : 0;
-
-    // Health score — uses tier-specific targetPct, NOT hardcoded thresholds
-    // Red = can't reach target even at 100% capacity
-    // Green = well utilized AND within target
-    // Yellow = either under-utilized or over target
-    let healthScore: HealthScore;
-    let healthVerdict: string;
-    if (!isOperating) {
-      healthScore = 'gray';
-      healthVerdict = 'Pre-Opening';
-    } else if (pctAt100Capacity > schoolTargetPct * 1.5) {
-      // Even at full capacity, costs exceed 1.5× the tuition-tier target — structural problem
-      healthScore = 'red';
-      healthVerdict = 'At Risk';
-    } else if (utilizationRate >= 0.7 && pctOfTuitionCurrent <= schoolTargetPct) {
-      healthScore = 'green';
-      healthVerdict = 'Keeper';
-    } else if (utilizationRate >= 0.7) {
-      // Seats are filled but costs still above target
-      healthScore = 'yellow';
-      healthVerdict = 'Fix It';
-    } else {
-      // Under-utilized — fill seats first
-      healthScore = 'yellow';
-      healthVerdict = 'Fill It';
-    }
+    const marginalCostPerStudent = variableTotal / enrollment;
+
+    const { healthScore, healthVerdict } = scoreHealth(isOperating, utilizationRate, pctOfTuitionCurrent, pctAt100Capacity, schoolTargetPct);
 
     // Budget: from cols W-Y of "Summary - Based on Expense down"
     // W = modelFacPerStudent (fac ex-capex), X = modelCapexPerStudent, Y = modelTotalCostPerStudent
@@ -1243,8 +1688,10 @@ export function buildSchoolData(): SchoolData[] {
 
     // CapEx budget = rate × capacity × depreciation period
     // rate varies by school type: Alpha=$1000, Growth=$750, Micro=$500
-    const annualDeprAmount = costs.annualDepreciation.total;
-    const deprPeriod = annualDeprAmount > 0 ? raw.capexBuildout / annualDeprAmount : 10; // default 10yr
+    // Period = the register's cost-weighted useful life (assumed asset if nothing is entered)
+    const deprPeriod = weightedUsefulLife(assets.length > 0
+      ? assets
+      : [assumedFixedAsset(id, raw.capexBuildout, costs.annualDepreciation.total)]);
     const capexRate = capexBudgetRatePerStudent[raw.schoolType];
     const capexBudgetDerived = capexRate * raw.capacity * deprPeriod;
     const capexDelta = raw.capexBuildout - capexBudgetDerived;
@@ -1265,12 +1712,16 @@ export function buildSchoolData(): SchoolData[] {
       utilizationRate,
       tuition: raw.tuition,
       isOperating,
+      isEstimated: source.estimated === true,
       sqft: raw.sqft,
       sqftPerStudent,
       costs,
+      period,
+      history: buildPeriodHistory(source),
       revenue: { current: revenueCurrent, atCapacity: revenueAtCapacity, revenueGap },
       healthScore,
       healthVerdict,
+      ramp,
       marginalCostPerStudent,
       sunkCosts,
       controllableCosts,
@@ -1310,6 +1761,7 @@ export function buildSchoolData(): SchoolData[] {
         capexPerSeat: raw.capexBuildout / raw.capacity,
         annualDepreciation: costs.annualDepreciation.total,
         depreciationPerSeat: costs.annualDepreciation.total / raw.capacity,
+        depreciationYears: deprPeriod,
         totalVariance,
       },
     });
@@ -1318,10 +1770,61 @@ export function buildSchoolData(): SchoolData[] {
   return schools.sort((a, b) => b.costs.grandTotal - a.costs.grandTotal);
 }
 
+// Inverse of transformToSixCategories — lets simulations edit a built school and
+// run it back through buildSchoolData(). History is dropped: the entry is the
+// school as built for its current period.
+export function schoolToRawEntry(school: SchoolData): RawSchoolEntry {
+  const { costs, budget } = school;
+  return {
+    displayName: school.displayName,
+    currentEnrollment: school.currentEnrollment,
+    capacity: school.capacity,
+    schoolType: school.schoolType,
+    tuitionTier: school.tuitionTier,
+    tuition: school.tuition,
+    sqft: school.sqft,
+    lease: costs.lease.total,
+    capexBuildout: costs.capexBuildout,
+    utilities: costs.variableFacilities.utilities,
+    maintenance: costs.variableFacilities.repairs,
+    itMaintenance: costs.fixedFacilities.itMaintenance,
+    landscaping: costs.fixedFacilities.landscaping,
+    janitorial: costs.variableFacilities.janitorial,
+    security: costs.fixedFacilities.security,
+    foodServices: costs.studentServices.foodServices,
+    transportation: costs.studentServices.transportation,
+    totalExcCapex: costs.grandTotal - costs.annualDepreciation.total,
+    totalIncCapex: costs.grandTotal,
+    modelFacPerStudent: budget.modelFacPerStudent,
+    modelCapexPerStudent: budget.modelCapexPerStudent,
+    modelTotalCostPerStudent: budget.modelNetFacPerStudent,
+    delta: 0,
+    ...(school.isEstimated ? { estimated: true } : {}),
+  };
+}
+
 // ============================================================================
 // SCENARIO MODELING
 // ============================================================================
 
+// Per-school adjusted costs at the scenario enrollment
+export interface ScenarioSchoolResult {
+  id: string;
+  displayName: string;
+  schoolType: SchoolType;
+  currentEnrollment: number;
+  scenarioEnrollment: number;
+  lease: number;
+  fixedFacilities: number;
+  variableFacilities: number;
+  studentServices: number;
+  annualDepreciation: number;
+  adjustedTotal: number;
+  currentTotal: number;
+  costPerStudent: number;
+  pctOfTuition: number;
+}
+
 export interface ScenarioResult {
   utilizationPct: number;
   totalEnrollment: number;
@@ -1329,56 +1832,83 @@ export interface ScenarioResult {
   avgPctOfTuition: number;
   fixedCostPerStudent: number;
   savingsVsCurrent: number;
+  schools: ScenarioSchoolResult[];
+}
+
+interface AdjustedCosts {
+  lease: number;
+  fixedFacilities: number;
+  variableFacilities: number;
+  studentServices: number;
+  annualDepreciation: number;
+  adjustedTotal: number;
+}
+
+// Costs at a different enrollment: lease + depreciation fixed, other lines split per preset.
+// Pre-opening costs are run-rate estimates for an operating school, so they scale from capacity.
+function adjustCostsForEnrollment(school: SchoolData, scenarioEnrollment: number, rules: ExpenseRuleSet): AdjustedCosts {
+  const baseEnrollment = school.currentEnrollment > 0 ? school.currentEnrollment : school.capacity;
+  const enrollmentRatio = scenarioEnrollment / Math.max(baseEnrollment, 1);
+
+  // Fixed costs stay the same, variable costs scale with enrollment ratio
+  const adjustedFixedFac =
+    school.costs.fixedFacilities.security * rules.security.fixed +
+    school.costs.fixedFacilities.security * rules.security.variable * enrollmentRatio +
+    school.costs.fixedFacilities.itMaintenance * rules.itMaintenance.fixed +
+    school.costs.fixedFacilities.itMaintenance * rules.itMaintenance.variable * enrollmentRatio +
+    school.costs.fixedFacilities.landscaping * rules.landscaping.fixed +
+    school.costs.fixedFacilities.landscaping * rules.landscaping.variable * enrollmentRatio;
+
+  const adjustedVarFac =
+    school.costs.variableFacilities.janitorial * rules.janitorial.fixed +
+    school.costs.variableFacilities.janitorial * rules.janitorial.variable * enrollmentRatio +
+    school.costs.variableFacilities.utilities * rules.utilities.fixed +
+    school.costs.variableFacilities.utilities * rules.utilities.variable * enrollmentRatio +
+    school.costs.variableFacilities.repairs * rules.repairs.fixed +
+    school.costs.variableFacilities.repairs * rules.repairs.variable * enrollmentRatio;
+
+  const adjustedStudentSvc =
+    school.costs.studentServices.foodServices * rules.foodServices.fixed +
+    school.costs.studentServices.foodServices * rules.foodServices.variable * enrollmentRatio +
+    school.costs.studentServices.transportation * rules.transportation.fixed +
+    school.costs.studentServices.transportation * rules.transportation.variable * enrollmentRatio;
+
+  const adjustedTotal =
+    school.costs.lease.total +
+    adjustedFixedFac +
+    adjustedVarFac +
+    adjustedStudentSvc +
+    school.costs.annualDepreciation.total;
+
+  return {
+    lease: school.costs.lease.total,
+    fixedFacilities: adjustedFixedFac,
+    variableFacilities: adjustedVarFac,
+    studentServices: adjustedStudentSvc,
+    annualDepreciation: school.costs.annualDepreciation.total,
+    adjustedTotal,
+  };
 }
 
 export function calculateScenario(
   schools: SchoolData[],
   targetUtilizationPct: number,
-  preset: ExpensePreset = 'dashboard'
+  preset: ExpensePresetRef = 'dashboard'
 ): ScenarioResult {
   const targetUtilization = targetUtilizationPct / 100;
-  const rules = expensePresets[preset];
+  const rules = resolveExpenseRules(preset);
 
   let totalEnrollment = 0;
   let totalAdjustedCosts = 0;
   let totalTuitionRevenue = 0;
   let totalFixedCosts = 0;
   let currentTotalEnrollment = 0;
+  const schoolResults: ScenarioSchoolResult[] = [];
 
   for (const school of schools) {
     const scenarioEnrollment = Math.floor(school.capacity * targetUtilization);
-    const currentEnrollment = Math.max(school.currentEnrollment, 1);
-    const enrollmentRatio = scenarioEnrollment / currentEnrollment;
-
-    // Fixed costs stay the same, variable costs scale with enrollment ratio
-    const adjustedFixedFac =
-      school.costs.fixedFacilities.security * rules.security.fixed +
-      school.costs.fixedFacilities.security * rules.security.variable * enrollmentRatio +
-      school.costs.fixedFacilities.itMaintenance * rules.itMaintenance.fixed +
-      school.costs.fixedFacilities.itMaintenance * rules.itMaintenance.variable * enrollmentRatio +
-      school.costs.fixedFacilities.landscaping;
-
-    const adjustedVarFac =
-      school.costs.variableFacilities.janitorial * rules.janitorial.fixed +
-      school.costs.variableFacilities.janitorial * rules.janitorial.variable * enrollmentRatio +
-      school.costs.variableFacilities.utilities * rules.utilities.fixed +
-      school.costs.variableFacilities.utilities * rules.utilities.variable * enrollmentRatio +
-      school.costs.variableFacilities.repairs * rules.repairs.fixed +
-      school.costs.variableFacilities.repairs * rules.repairs.variable * enrollmentRatio;
-
-    const adjustedStudentSvc =
-      school.costs.studentServices.foodServices * rules.foodServices.fixed +
-      school.costs.studentServices.foodServices * rules.foodServices.variable * enrollmentRatio +
-      school.costs.studentServices.transportation * rules.transportation.fixed +
-      school.costs.studentServices.transportation * rules.transportation.variable * enrollmentRatio;
-
-    const adjustedTotal =
-      school.costs.lease.total +
-      adjustedFixedFac +
-      adjustedVarFac +
-      adjustedStudentSvc +
-      school.costs.annualDepreciation.total;
-
+    const adjusted = adjustCostsForEnrollment(school, scenarioEnrollment, rules);
+    const adjustedTotal = adjusted.adjustedTotal;
     const scenarioRevenue = scenarioEnrollment * school.tuition;
 
     totalEnrollment += scenarioEnrollment;
@@ -1386,6 +1916,18 @@ export function calculateScenario(
     totalTuitionRevenue += scenarioRevenue;
     totalFixedCosts += school.costs.lease.total + school.costs.annualDepreciation.total;
     currentTotalEnrollment += school.currentEnrollment;
+
+    schoolResults.push({
+      id: school.id,
+      displayName: school.displayName,
+      schoolType: school.schoolType,
+      currentEnrollment: school.currentEnrollment,
+      scenarioEnrollment,
+      ...adjusted,
+      currentTotal: school.costs.grandTotal,
+      costPerStudent: scenarioEnrollment > 0 ? adjustedTotal / scenarioEnrollment : 0,
+      pctOfTuition: scenarioRevenue > 0 ? (adjustedTotal / scenarioRevenue) * 100 : 0,
+    });
   }
 
   const avgCostPerStudent = totalEnrollment > 0 ? totalAdjustedCosts / totalEnrollment : 0;
@@ -1407,9 +1949,147 @@ export function calculateScenario(
     avgPctOfTuition,
     fixedCostPerStudent,
     savingsVsCurrent,
+    schools: schoolResults,
   };
 }
 
+// ============================================================================
+// PER-SCHOOL ENROLLMENT SCENARIOS
+// Each school gets its own target (e.g. Alpha NY at 60%, Nova Bastrop at 95%);
+// schools without one use the scenario default, or stay at current enrollment.
+// ============================================================================
+
+export type EnrollmentTargetMode = 'utilization' | 'enrollment';
+
+export interface SchoolEnrollmentTarget {
+  mode: EnrollmentTargetMode;
+  value: number; // % of capacity, or student count
+}
+
+export interface EnrollmentScenario {
+  id: string;
+  name: string;
+  defaultTarget: SchoolEnrollmentTarget | null; // null = current enrollment
+  schoolTargets: Record<string, SchoolEnrollmentTarget>;
+  presetId: string;
+}
+
+export interface EnrollmentScenarioSchoolResult extends ScenarioSchoolResult {
+  capacity: number;
+  utilizationRate: number;
+  tuition: number;
+  revenue: number;
+  targetPct: number;
+  healthScore: HealthScore;
+  healthVerdict: string;
+  hasOverride: boolean;
+}
+
+export interface EnrollmentScenarioTotals {
+  enrollment: number;
+  currentEnrollment: number;
+  capacity: number;
+  utilizationRate: number;
+  revenue: number;
+  adjustedCosts: number;
+  currentCosts: number;
+  costPerStudent: number;
+  pctOfTuition: number;
+  healthCounts: Record<HealthScore, number>;
+}
+
+export interface EnrollmentScenarioResult {
+  scenarioId: string;
+  schools: EnrollmentScenarioSchoolResult[];
+  totals: EnrollmentScenarioTotals;
+}
+
+export function resolveScenarioEnrollment(school: SchoolData, scenario: EnrollmentScenario): number {
+  const target = scenario.schoolTargets[school.id] ?? scenario.defaultTarget;
+  if (!target) return school.currentEnrollment;
+  const students = target.mode === 'utilization'
+    ? Math.floor(school.capacity * target.value / 100)
+    : Math.round(target.value);
+  return Math.max(0, students);
+}
+
+export function calculateEnrollmentScenario(
+  schools: SchoolData[],
+  scenario: EnrollmentScenario,
+  preset: ExpensePresetRef = 'dashboard',
+): EnrollmentScenarioResult {
+  const rules = resolveExpenseRules(preset);
+  const healthCounts: Record<HealthScore, number> = { green: 0, yellow: 0, red: 0, gray: 0 };
+
+  const results = schools.map((school): EnrollmentScenarioSchoolResult => {
+    const scenarioEnrollment = resolveScenarioEnrollment(school, scenario);
+    const adjusted = adjustCostsForEnrollment(school, scenarioEnrollment, rules);
+    const revenue = scenarioEnrollment * school.tuition;
+    const utilizationRate = school.capacity > 0 ? scenarioEnrollment / school.capacity : 0;
+    const pctOfTuition = revenue > 0 ? (adjusted.adjustedTotal / revenue) * 100 : 0;
+    // Structural (red) test stays on the school's own at-capacity figure, so an
+    // unchanged school scores the same as in buildSchoolData()
+    const { healthScore, healthVerdict } = scoreHealth(
+      scenarioEnrollment > 0, utilizationRate, pctOfTuition, school.breakeven.pctAt100Capacity, school.targetPct,
+    );
+    healthCounts[healthScore]++;
+
+    return {
+      id: school.id,
+      displayName: school.displayName,
+      schoolType: school.schoolType,
+      currentEnrollment: school.currentEnrollment,
+      scenarioEnrollment,
+      ...adjusted,
+      currentTotal: school.costs.grandTotal,
+      costPerStudent: scenarioEnrollment > 0 ? adjusted.adjustedTotal / scenarioEnrollment : 0,
+      pctOfTuition,
+      capacity: school.capacity,
+      utilizationRate,
+      tuition: school.tuition,
+      revenue,
+      targetPct: school.targetPct,
+      healthScore,
+      healthVerdict,
+      hasOverride: school.id in scenario.schoolTargets,
+    };
+  });
+
+  const enrollment = results.reduce((s, r) => s + r.scenarioEnrollment, 0);
+  const capacity = results.reduce((s, r) => s + r.capacity, 0);
+  const revenue = results.reduce((s, r) => s + r.revenue, 0);
+  const adjustedCosts = results.reduce((s, r) => s + r.adjustedTotal, 0);
+
+  return {
+    scenarioId: scenario.id,
+    schools: results,
+    totals: {
+      enrollment,
+      currentEnrollment: results.reduce((s, r) => s + r.currentEnrollment, 0),
+      capacity,
+      utilizationRate: capacity > 0 ? enrollment / capacity : 0,
+      revenue,
+      adjustedCosts,
+      currentCosts: results.reduce((s, r) => s + r.currentTotal, 0),
+      costPerStudent: enrollment > 0 ? adjustedCosts / enrollment : 0,
+      pctOfTuition: revenue > 0 ? (adjustedCosts / revenue) * 100 : 0,
+      healthCounts,
+    },
+  };
+}
+
+// Guards saved scenarios restored from storage
+export function isEnrollmentScenarioList(value: unknown): value is EnrollmentScenario[] {
+  const isTarget = (t: unknown) =>
+    typeof (t as SchoolEnrollmentTarget)?.value === 'number' &&
+    ((t as SchoolEnrollmentTarget).mode === 'utilization' || (t as SchoolEnrollmentTarget).mode === 'enrollment');
+  return Array.isArray(value) && value.every(sc =>
+    typeof sc?.id === 'string' && typeof sc?.name === 'string' && typeof sc?.presetId === 'string' &&
+    (sc.defaultTarget === null || isTarget(sc.defaultTarget)) &&
+    typeof sc.schoolTargets === 'object' && sc.schoolTargets !== null &&
+    Object.values(sc.schoolTargets).every(isTarget));
+}
+
 // ============================================================================
 // AGGREGATION BY SCHOOL TYPE & TUITION TIER
 // ============================================================================
@@ -1762,20 +2442,34 @@ export interface Insight {
   unit?: string;
 }
 
-export function generateInsights(summary: PortfolioSummary): Insight[] {
+// With a lease schedule, the lease-commitment insight reports rent owed through expiration instead of one year's rent
+export function generateInsights(summary: PortfolioSummary, leaseSchedule?: LeaseScheduleSummary): Insight[] {
   const fixedPortion =
     summary.totalLease + summary.totalFixedFacilities + summary.totalAnnualDepreciation;
   const fixedPct = summary.grandTotal > 0 ? (fixedPortion / summary.grandTotal) * 100 : 0;
+  const leasePct = summary.grandTotal > 0 ? ((summary.totalLease / summary.grandTotal) * 100).toFixed(0) : 0;
+  const formatUsd = (n: number) => n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+  const leaseCommitment: Insight = leaseSchedule
+    ? {
+        id: 'lease-commitment',
+        category: 'fixed-cost-warning',
+        title: 'Lease Commitment',
+        description: `${leasePct}% of facilities costs are locked into lease agreements. ${formatUsd(leaseSchedule.totalRemainingCommitment)} of rent remains through expiration (${leaseSchedule.weightedAvgRemainingYears.toFixed(1)} yrs weighted avg); ${leaseSchedule.expiringSoon.length} ${leaseSchedule.expiringSoon.length === 1 ? 'lease expires' : 'leases expire'} within ${EXPIRATION_WARNING_MONTHS} months.${leaseSchedule.assumedCount > 0 ? ` ${leaseSchedule.assumedCount} of ${leaseSchedule.leaseCount} use assumed terms.` : ''}`,
+        metric: leaseSchedule.totalRemainingCommitment,
+        unit: '$ remaining lease commitment',
+      }
+    : {
+        id: 'lease-commitment',
+        category: 'fixed-cost-warning',
+        title: 'Lease Commitment',
+        description: `${leasePct}% of facilities costs are locked into lease agreements. This is the cost you commit to on day 1.`,
+        metric: summary.totalLease,
+        unit: '$ annual lease',
+      };
 
   return [
-    {
-      id: 'lease-commitment',
-      category: 'fixed-cost-warning',
-      title: 'Lease Commitment',
-      description: `${summary.grandTotal > 0 ? ((summary.totalLease / summary.grandTotal) * 100).toFixed(0) : 0}% of facilities costs are locked into lease agreements. This is the cost you commit to on day 1.`,
-      metric: summary.totalLease,
-      unit: '$ annual lease',
-    },
+    leaseCommitment,
     {
       id: 'fixed-cost-burden',
       category: 'fixed-cost-warning',
@@ -1796,7 +2490,7 @@ export function generateInsights(summary: PortfolioSummary): Insight[] {
       id: 'capex-exposure',
       category: 'fixed-cost-warning',
       title: 'Total CapEx Exposure',
-      description: `${summary.totalCapexBuildout.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })} in one-time buildout costs across the portfolio.`,
+      description: `${formatUsd(summary.totalCapexBuildout)} in one-time buildout costs across the portfolio.`,
       metric: summary.totalCapexBuildout,
       unit: '$ total capex',
     },
@@ -1827,8 +2521,8 @@ export interface ExpenseRule {
   description: string;
 }
 
-export function getExpenseRules(preset: ExpensePreset = 'dashboard'): ExpenseRule[] {
-  const rules = expensePresets[preset];
+export function getExpenseRules(preset: ExpensePresetRef = 'dashboard'): ExpenseRule[] {
+  const rules = resolveExpenseRules(preset);
   return [
     {
       id: 'rent',
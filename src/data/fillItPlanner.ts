@@ -0,0 +1,137 @@
+/**
+ * Fill-It Enrollment Planner
+ *
+ * "Fill It" schools have the cost structure to hit target once the seats are
+ * filled, so the plan is enrollment: the gap from current enrollment to
+ * breakeven.studentsForTarget (capped at capacity), spread over the months
+ * until an enrollment deadline and run backwards through the marketing funnel
+ * — enrollments → applications → tours → leads — to give monthly activity
+ * targets and an acquisition cost per school.
+ *
+ * The portfolio roll-up is ordered by revenue per seat filled (tuition less
+ * marginalCostPerStudent): where an extra student is worth most.
+ */
+
+import { defaultCashFlowAssumptions } from './cashFlowForecast';
+import type { SchoolData } from './facilitiesCapexData';
+import { addMonths, currentMonth, monthsBetween } from './leaseSchedule';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+export interface FunnelAssumptions {
+  deadline: string;               // 'YYYY-MM' — students enrolled by the start of this month
+  leadToTourPct: number;
+  tourToApplicationPct: number;
+  applicationToEnrollPct: number;
+  costPerLead: number;
+}
+
+// Deadline defaults to the next school-year start
+export function defaultFunnelAssumptions(
+  asOf: string = currentMonth(),
+  schoolYearStartMonth: number = defaultCashFlowAssumptions.schoolYearStartMonth,
+): FunnelAssumptions {
+  const year = Number(asOf.slice(0, 4));
+  const thisYearStart = `${year}-${String(schoolYearStartMonth).padStart(2, '0')}`;
+  return {
+    deadline: monthsBetween(asOf, thisYearStart) > 0 ? thisYearStart : addMonths(thisYearStart, 12),
+    leadToTourPct: 30,
+    tourToApplicationPct: 50,
+    applicationToEnrollPct: 60,
+    costPerLead: 150,
+  };
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export interface FillItPlan {
+  schoolId: string;
+  currentEnrollment: number;
+  targetEnrollment: number;       // studentsForTarget, capped at capacity
+  targetAboveCapacity: boolean;   // filling every seat still misses target
+  studentsNeeded: number;
+  months: number;                 // to the deadline, at least 1
+  enrollmentsPerMonth: number;
+  applicationsPerMonth: number;
+  toursPerMonth: number;
+  leadsPerMonth: number;
+  acquisitionCost: number;        // all leads × cost per lead
+  costPerEnrollment: number;
+  revenuePerSeat: number;         // tuition − marginal cost per student
+  annualRevenueGain: number;      // studentsNeeded × revenuePerSeat
+  paybackMonths: number | null;   // acquisition cost per enrollment ÷ monthly revenue per seat
+}
+
+const rate = (pct: number) => Math.max(pct, 0.1) / 100;
+
+export function planFillIt(
+  school: SchoolData,
+  assumptions: FunnelAssumptions,
+  asOf: string = currentMonth(),
+): FillItPlan {
+  const targetEnrollment = Math.min(school.breakeven.studentsForTarget, school.capacity);
+  const studentsNeeded = Math.max(0, targetEnrollment - school.currentEnrollment);
+  const months = Math.max(1, monthsBetween(asOf, assumptions.deadline));
+
+  const applications = studentsNeeded / rate(assumptions.applicationToEnrollPct);
+  const tours = applications / rate(assumptions.tourToApplicationPct);
+  const leads = tours / rate(assumptions.leadToTourPct);
+  const acquisitionCost = leads * assumptions.costPerLead;
+  const costPerEnrollment = studentsNeeded > 0 ? acquisitionCost / studentsNeeded : 0;
+  const revenuePerSeat = school.tuition - school.marginalCostPerStudent;
+
+  return {
+    schoolId: school.id,
+    currentEnrollment: school.currentEnrollment,
+    targetEnrollment,
+    targetAboveCapacity: school.breakeven.studentsForTarget > school.capacity,
+    studentsNeeded,
+    months,
+    enrollmentsPerMonth: studentsNeeded / months,
+    applicationsPerMonth: applications / months,
+    toursPerMonth: tours / months,
+    leadsPerMonth: leads / months,
+    acquisitionCost,
+    costPerEnrollment,
+    revenuePerSeat,
+    annualRevenueGain: studentsNeeded * revenuePerSeat,
+    paybackMonths: revenuePerSeat > 0 ? costPerEnrollment / (revenuePerSeat / 12) : null,
+  };
+}
+
+export interface FillItRollup {
+  plans: FillItPlan[];            // highest revenue per seat first
+  studentsNeeded: number;
+  leadsPerMonth: number;
+  toursPerMonth: number;
+  acquisitionCost: number;
+  annualRevenueGain: number;
+}
+
+// Every Fill It school in view. includeAtRisk adds red schools that are also
+// under-utilized, where filling seats is part (not all) of the answer.
+export function planFillItSchools(
+  schools: SchoolData[],
+  assumptions: FunnelAssumptions,
+  includeAtRisk = false,
+  asOf: string = currentMonth(),
+): FillItRollup {
+  const plans = schools
+    .filter(s => s.healthVerdict === 'Fill It' || (includeAtRisk && s.healthScore === 'red' && s.isOperating && s.utilizationRate < 0.7))
+    .map(s => planFillIt(s, assumptions, asOf))
+    .sort((a, b) => b.revenuePerSeat - a.revenuePerSeat);
+  const sum = (key: 'studentsNeeded' | 'leadsPerMonth' | 'toursPerMonth' | 'acquisitionCost' | 'annualRevenueGain') =>
+    plans.reduce((s, p) => s + p[key], 0);
+  return {
+    plans,
+    studentsNeeded: sum('studentsNeeded'),
+    leadsPerMonth: sum('leadsPerMonth'),
+    toursPerMonth: sum('toursPerMonth'),
+    acquisitionCost: sum('acquisitionCost'),
+    annualRevenueGain: sum('annualRevenueGain'),
+  };
+}
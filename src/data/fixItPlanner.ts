@@ -0,0 +1,192 @@
+/**
+ * Fix-It Action Planner
+ *
+ * "Fix It" schools are full but their facilities cost is still over target, so
+ * the lever is cost, not enrollment. For each such school, every facilities
+ * subcategory is benchmarked against the operating portfolio and the ones
+ * above the median become levers: savings if the line moved to the median and
+ * to P25, ranked by dollar impact weighted by how controllable the line is.
+ *
+ * The benchmark basis follows ExpenseRule.costType: fixed lines (security,
+ * IT, landscaping) are driven by the building, so they compare per sqft;
+ * semi-variable and variable lines compare per enrolled student. Controllability
+ * follows the same split — variable lines can be renegotiated or re-scoped
+ * now, fixed lines usually wait for the contract to turn. Rent and
+ * depreciation are left out: neither moves without a lease or capex event.
+ *
+ * Peers are operating schools that carry the line at all, so a school with no
+ * transportation doesn't pull the median to zero.
+ */
+
+import {
+  facilitiesLineLabels,
+  getExpenseRules,
+  type CostBehavior,
+  type ExpensePresetRef,
+  type FacilitiesLine,
+  type SchoolData,
+} from './facilitiesCapexData';
+import { facilitiesLineAmounts } from './schoolProjection';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BenchmarkBasis = 'student' | 'sqft';
+
+export interface CostLever {
+  line: FacilitiesLine;
+  label: string;
+  costType: CostBehavior;
+  basis: BenchmarkBasis;
+  actual: number;            // annual $
+  perUnit: number;           // $ per student or per sqft
+  medianPerUnit: number;
+  p25PerUnit: number;
+  savingsToMedian: number;   // annual $
+  savingsToP25: number;
+  controllability: number;   // 0–1 weight from costType
+  score: number;             // savingsToMedian × controllability — ranking key
+}
+
+export interface FixItPlan {
+  schoolId: string;
+  overTarget: number;        // annual $ above the school's facilities target
+  levers: CostLever[];       // highest score first; only lines above the median
+  savingsToMedian: number;
+  savingsToP25: number;
+  closesGapAtMedian: boolean;
+  closesGapAtP25: boolean;
+}
+
+export const controllabilityWeights: Record<CostBehavior, number> = {
+  variable: 1,
+  'semi-variable': 0.7,
+  fixed: 0.4,
+};
+
+export const controllabilityLabels: Record<CostBehavior, string> = {
+  variable: 'High',
+  'semi-variable': 'Medium',
+  fixed: 'Low',
+};
+
+// ExpenseRule ids behind each ExpenseRuleSet line
+const ruleIdByLine: Record<FacilitiesLine, string> = {
+  security: 'security',
+  itMaintenance: 'it-maintenance',
+  landscaping: 'landscaping',
+  janitorial: 'janitorial',
+  utilities: 'utilities',
+  repairs: 'repairs',
+  foodServices: 'food-services',
+  transportation: 'transportation',
+};
+
+// ============================================================================
+// BENCHMARKS
+// ============================================================================
+
+// Linear interpolation between order statistics
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const i = q * (sorted.length - 1);
+  const lo = Math.floor(i);
+  const hi = Math.ceil(i);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+}
+
+const basisUnits = (school: SchoolData, basis: BenchmarkBasis) =>
+  basis === 'sqft' ? school.sqft : school.currentEnrollment;
+
+export interface LineBenchmark {
+  costType: CostBehavior;
+  basis: BenchmarkBasis;
+  median: number;
+  p25: number;
+  peers: number;
+}
+
+export function lineBenchmarks(
+  peers: SchoolData[],
+  preset: ExpensePresetRef = 'dashboard',
+): Record<FacilitiesLine, LineBenchmark> {
+  const rules = getExpenseRules(preset);
+  const operating = peers.filter(s => s.isOperating);
+  const result = {} as Record<FacilitiesLine, LineBenchmark>;
+  for (const line of Object.keys(ruleIdByLine) as FacilitiesLine[]) {
+    const costType = rules.find(r => r.id === ruleIdByLine[line])?.costType ?? 'fixed';
+    const basis: BenchmarkBasis = costType === 'fixed' ? 'sqft' : 'student';
+    const values = operating
+      .map(s => ({ amount: facilitiesLineAmounts(s)[line], units: basisUnits(s, basis) }))
+      .filter(v => v.amount > 0 && v.units > 0)
+      .map(v => v.amount / v.units)
+      .sort((a, b) => a - b);
+    result[line] = { costType, basis, median: quantile(values, 0.5), p25: quantile(values, 0.25), peers: values.length };
+  }
+  return result;
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export function planFixIt(
+  school: SchoolData,
+  benchmarks: Record<FacilitiesLine, LineBenchmark>,
+): FixItPlan {
+  const amounts = facilitiesLineAmounts(school);
+  const levers: CostLever[] = [];
+  for (const line of Object.keys(benchmarks) as FacilitiesLine[]) {
+    const b = benchmarks[line];
+    const units = basisUnits(school, b.basis);
+    if (b.peers === 0 || units <= 0) continue;
+    const perUnit = amounts[line] / units;
+    if (perUnit <= b.median) continue;
+    const controllability = controllabilityWeights[b.costType];
+    const savingsToMedian = (perUnit - b.median) * units;
+    levers.push({
+      line,
+      label: facilitiesLineLabels[line],
+      costType: b.costType,
+      basis: b.basis,
+      actual: amounts[line],
+      perUnit,
+      medianPerUnit: b.median,
+      p25PerUnit: b.p25,
+      savingsToMedian,
+      savingsToP25: (perUnit - b.p25) * units,
+      controllability,
+      score: savingsToMedian * controllability,
+    });
+  }
+  levers.sort((a, b) => b.score - a.score);
+
+  const overTarget = Math.max(0, (school.metrics.pctOfTuitionCurrent - school.targetPct) / 100 * school.revenue.current);
+  const savingsToMedian = levers.reduce((s, l) => s + l.savingsToMedian, 0);
+  const savingsToP25 = levers.reduce((s, l) => s + l.savingsToP25, 0);
+  return {
+    schoolId: school.id,
+    overTarget,
+    levers,
+    savingsToMedian,
+    savingsToP25,
+    closesGapAtMedian: savingsToMedian >= overTarget,
+    closesGapAtP25: savingsToP25 >= overTarget,
+  };
+}
+
+// Plans for every Fix It school in view, largest gap first; peers set the benchmarks.
+// includeAtRisk adds the red schools, whose cost problem is the same but deeper.
+export function planFixItSchools(
+  schools: SchoolData[],
+  peers: SchoolData[],
+  preset: ExpensePresetRef = 'dashboard',
+  includeAtRisk = false,
+): FixItPlan[] {
+  const benchmarks = lineBenchmarks(peers, preset);
+  return schools
+    .filter(s => s.healthVerdict === 'Fix It' || (includeAtRisk && s.healthScore === 'red'))
+    .map(s => planFixIt(s, benchmarks))
+    .sort((a, b) => b.overTarget - a.overTarget);
+}
@@ -0,0 +1,158 @@
+/**
+ * Fixed-Asset Register
+ *
+ * Buildout and equipment per school with asset class, in-service month,
+ * useful life and method. Schools with assets on the register take their
+ * annual depreciation (AnnualDepreciationCategory) and depreciation period
+ * from it; everyone else gets an assumed single asset that reproduces the
+ * reported depreciation — flagged so nobody mistakes it for the register.
+ *
+ * Months are 'YYYY-MM' strings, as in the lease schedule.
+ */
+
+import { addMonths, currentMonth, monthsBetween } from './leaseSchedule';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssetClass =
+  | 'leasehold-improvements'
+  | 'building-systems'
+  | 'furniture-fixtures'
+  | 'equipment'
+  | 'technology';
+
+// Default useful lives; the register entry's own life always wins
+export const assetClasses: Record<AssetClass, { label: string; usefulLifeYears: number }> = {
+  'leasehold-improvements': { label: 'Leasehold Improvements', usefulLifeYears: 10 },
+  'building-systems': { label: 'Building Systems', usefulLifeYears: 15 },
+  'furniture-fixtures': { label: 'Furniture & Fixtures', usefulLifeYears: 7 },
+  equipment: { label: 'Equipment', usefulLifeYears: 5 },
+  technology: { label: 'Technology', usefulLifeYears: 3 },
+};
+
+// Straight-line only for now; other methods slot in here and in monthlyDepreciation()
+export type DepreciationMethod = 'straight-line';
+
+export const depreciationMethodLabels: Record<DepreciationMethod, string> = {
+  'straight-line': 'Straight-line',
+};
+
+export interface FixedAsset {
+  id: string;
+  schoolId: string;
+  description: string;
+  assetClass: AssetClass;
+  cost: number;
+  inServiceDate: string; // 'YYYY-MM'
+  usefulLifeYears: number;
+  method: DepreciationMethod;
+}
+
+export function newFixedAsset(
+  schoolId: string,
+  assetClass: AssetClass = 'leasehold-improvements',
+  asOf: string = currentMonth(),
+): FixedAsset {
+  return {
+    id: `asset-${Date.now().toString(36)}`,
+    schoolId,
+    description: '',
+    assetClass,
+    cost: 0,
+    inServiceDate: asOf,
+    usefulLifeYears: assetClasses[assetClass].usefulLifeYears,
+    method: 'straight-line',
+  };
+}
+
+// Stand-in for a school with nothing on the register: the whole buildout as one
+// leasehold improvement, with the life that reproduces reported depreciation
+export function assumedFixedAsset(
+  schoolId: string,
+  capexBuildout: number,
+  reportedDepreciation: number,
+  asOf: string = currentMonth(),
+): FixedAsset {
+  const usefulLifeYears = capexBuildout > 0 && reportedDepreciation > 0
+    ? capexBuildout / reportedDepreciation
+    : assetClasses['leasehold-improvements'].usefulLifeYears;
+  return {
+    id: `assumed-${schoolId}`,
+    schoolId,
+    description: 'Reported buildout (assumed)',
+    assetClass: 'leasehold-improvements',
+    cost: capexBuildout,
+    inServiceDate: asOf,
+    usefulLifeYears,
+    method: 'straight-line',
+  };
+}
+
+// ============================================================================
+// DEPRECIATION
+// ============================================================================
+
+const lifeMonths = (asset: FixedAsset) => Math.max(Math.round(asset.usefulLifeYears * 12), 1);
+
+// Depreciation charged in a calendar month (0 before in-service and after the asset is fully depreciated)
+export function monthlyDepreciation(asset: FixedAsset, month: string): number {
+  const m = monthsBetween(asset.inServiceDate, month);
+  if (m < 0 || m >= lifeMonths(asset)) return 0;
+  switch (asset.method) {
+    case 'straight-line':
+      return asset.cost / lifeMonths(asset);
+  }
+}
+
+// Depreciation over [from, to) — 'to' exclusive
+export function depreciationBetween(assets: FixedAsset[], from: string, to: string): number {
+  let total = 0;
+  for (let month = from; monthsBetween(month, to) > 0; month = addMonths(month, 1)) {
+    for (const asset of assets) total += monthlyDepreciation(asset, month);
+  }
+  return total;
+}
+
+// Cost less depreciation charged before the month
+export function netBookValue(asset: FixedAsset, month: string): number {
+  return Math.max(asset.cost - depreciationBetween([asset], asset.inServiceDate, month), 0);
+}
+
+export interface DepreciationYear {
+  year: number;
+  byAsset: Record<string, number>;
+  total: number;
+}
+
+// Calendar-year depreciation from startYear forward
+export function depreciationByYear(assets: FixedAsset[], startYear: number, years = 10): DepreciationYear[] {
+  return Array.from({ length: years }, (_, i) => {
+    const year = startYear + i;
+    const byAsset: Record<string, number> = {};
+    for (const asset of assets) byAsset[asset.id] = depreciationBetween([asset], `${year}-01`, `${year + 1}-01`);
+    return { year, byAsset, total: Object.values(byAsset).reduce((s, v) => s + v, 0) };
+  });
+}
+
+// Cost-weighted useful life — the register's depreciation period
+export function weightedUsefulLife(assets: FixedAsset[]): number {
+  const cost = assets.reduce((s, a) => s + a.cost, 0);
+  if (cost <= 0) return assets[0]?.usefulLifeYears ?? assetClasses['leasehold-improvements'].usefulLifeYears;
+  return assets.reduce((s, a) => s + a.cost * a.usefulLifeYears, 0) / cost;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isFixedAssetList(value: unknown): value is FixedAsset[] {
+  const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  return Array.isArray(value) && value.every(a =>
+    typeof a?.id === 'string' && typeof a?.schoolId === 'string' && typeof a?.description === 'string' &&
+    typeof a?.assetClass === 'string' && a.assetClass in assetClasses &&
+    isNum(a.cost) && isNum(a.usefulLifeYears) && a.usefulLifeYears > 0 &&
+    typeof a?.inServiceDate === 'string' && /^\d{4}-\d{2}$/.test(a.inServiceDate) &&
+    typeof a?.method === 'string' && a.method in depreciationMethodLabels);
+}
@@ -0,0 +1,263 @@
+/**
+ * Goal Seek
+ *
+ * breakeven.studentsForTarget only solves facilities cost against targetPct at
+ * current tuition. This solves the full unit-economics margin instead: what
+ * enrollment, tuition, maximum rent or maximum food cost per student gets a
+ * school to a net margin %, with every other input held. The margin defaults
+ * to the school's Margin Targets band — the same figure the Unit Economics tab
+ * counts schools "at target" against — not a facilities ceiling.
+ *
+ * Margin is not monotonic in enrollment or tuition — getStaffingCost() steps at
+ * each new guide, at the 100-student tier and at each tuition band, and
+ * programs / misc / Timeback per student step with tuition — so those two are
+ * solved by scanning every candidate value rather than bisecting, and the
+ * result notes when a later step falls back below target. Rent and food are
+ * linear in margin and solve in closed form.
+ *
+ * Facility lines move with enrollment under the active expense preset's
+ * fixed/variable split, scaled from current enrollment (capacity for
+ * pre-opening schools, whose costs are run-rate estimates).
+ */
+
+import {
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  resolveExpenseRules,
+  type ExpensePresetRef,
+  type SchoolData,
+  type StaffingModel,
+  type UnitEconomicsResult,
+} from './facilitiesCapexData';
+import { facilitiesAtEnrollment } from './schoolProjection';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GoalSeekVariable = 'enrollment' | 'tuition' | 'rent' | 'foodPerStudent';
+
+export const goalSeekVariableLabels: Record<GoalSeekVariable, string> = {
+  enrollment: 'Required Enrollment',
+  tuition: 'Required Tuition',
+  rent: 'Maximum Annual Rent',
+  foodPerStudent: 'Maximum Food Cost / Student',
+};
+
+export interface GoalSeekInputs {
+  targetMarginPct: number;        // net margin, % of revenue
+  students: number;               // basis for the tuition, rent and food solves
+  preset: ExpensePresetRef;
+  staffingModel: StaffingModel;
+}
+
+export type GoalSeekResult =
+  | {
+      variable: GoalSeekVariable;
+      feasible: true;
+      value: number;
+      current: number;
+      marginPctAtValue: number;
+      note?: string;              // e.g. a staffing step above the solution drops back below target
+    }
+  | {
+      variable: GoalSeekVariable;
+      feasible: false;
+      current: number;
+      reason: string;
+    };
+
+export const MAX_TUITION = 150000;
+const TUITION_STEP = 100;
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+// Margin for a school with enrollment, tuition, rent and food overridden
+interface Levers {
+  students: number;
+  tuition: number;
+  rent: number;
+  foodTotal: number | null;       // null = food scales with enrollment like the other lines
+}
+
+function evaluate(school: SchoolData, levers: Levers, inputs: GoalSeekInputs): UnitEconomicsResult {
+  const lines = facilitiesAtEnrollment(school, levers.students, resolveExpenseRules(inputs.preset));
+  if (levers.foodTotal !== null) lines.foodServices = levers.foodTotal;
+  const facilities = levers.rent + Object.values(lines).reduce((s, v) => s + v, 0);
+  return calculateUnitEconomics(levers.tuition, levers.students, facilities, school.costs.annualDepreciation.total, inputs.staffingModel);
+}
+
+const baseLevers = (school: SchoolData, students: number): Levers => ({
+  students,
+  tuition: school.tuition,
+  rent: school.costs.lease.total,
+  foodTotal: null,
+});
+
+const meets = (ue: UnitEconomicsResult, targetMarginPct: number) => ue.revenue > 0 && ue.marginPct >= targetMarginPct;
+
+// Food services at a given enrollment under the preset's split
+const scaledFood = (school: SchoolData, students: number, preset: ExpensePresetRef) =>
+  facilitiesAtEnrollment(school, students, resolveExpenseRules(preset)).foodServices;
+
+// ============================================================================
+// SOLVERS
+// ============================================================================
+
+// Smallest enrollment (1..capacity) at target
+function solveEnrollment(school: SchoolData, inputs: GoalSeekInputs): GoalSeekResult {
+  const current = school.currentEnrollment;
+  let best = { students: 0, marginPct: -Infinity };
+  let value: number | null = null;
+  let dropsAt: number | null = null;
+
+  for (let n = 1; n <= school.capacity; n++) {
+    const ue = evaluate(school, baseLevers(school, n), inputs);
+    if (ue.marginPct > best.marginPct) best = { students: n, marginPct: ue.marginPct };
+    if (value === null) {
+      if (meets(ue, inputs.targetMarginPct)) value = n;
+    } else if (dropsAt === null && !meets(ue, inputs.targetMarginPct)) {
+      dropsAt = n;
+    }
+  }
+
+  if (value === null) {
+    return {
+      variable: 'enrollment',
+      feasible: false,
+      current,
+      reason: best.students > 0
+        ? `No enrollment up to capacity (${school.capacity}) reaches ${inputs.targetMarginPct}%; best is ${best.marginPct.toFixed(1)}% at ${best.students} students.`
+        : 'School has no capacity.',
+    };
+  }
+  return {
+    variable: 'enrollment',
+    feasible: true,
+    value,
+    current,
+    marginPctAtValue: evaluate(school, baseLevers(school, value), inputs).marginPct,
+    note: dropsAt !== null ? `A staffing step at ${dropsAt} students drops margin back below target.` : undefined,
+  };
+}
+
+// Lowest tuition (whole dollars, up to MAX_TUITION) at target
+function solveTuition(school: SchoolData, inputs: GoalSeekInputs): GoalSeekResult {
+  const current = school.tuition;
+  if (inputs.students <= 0) {
+    return { variable: 'tuition', feasible: false, current, reason: 'No students to charge tuition to.' };
+  }
+  const at = (tuition: number) => evaluate(school, { ...baseLevers(school, inputs.students), tuition }, inputs);
+
+  let best = { tuition: 0, marginPct: -Infinity };
+  let lo = 0;
+  let hi: number | null = null;
+  for (let t = TUITION_STEP; t <= MAX_TUITION; t += TUITION_STEP) {
+    const ue = at(t);
+    if (ue.marginPct > best.marginPct) best = { tuition: t, marginPct: ue.marginPct };
+    if (meets(ue, inputs.targetMarginPct)) { hi = t; break; }
+    lo = t;
+  }
+
+  if (hi === null) {
+    return {
+      variable: 'tuition',
+      feasible: false,
+      current,
+      reason: `No tuition up to ${MAX_TUITION.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })} reaches ${inputs.targetMarginPct}% at ${inputs.students} students — Timeback, programs and staffing bands rise with tuition; best is ${best.marginPct.toFixed(1)}%.`,
+    };
+  }
+  // Band and per-student cost steps fall on whole dollars, so scan the last step dollar by dollar
+  let value = hi;
+  for (let t = lo + 1; t < hi; t++) {
+    if (meets(at(t), inputs.targetMarginPct)) { value = t; break; }
+  }
+
+  let dropsAt: number | null = null;
+  for (let t = Math.ceil((value + 1) / TUITION_STEP) * TUITION_STEP; t <= MAX_TUITION; t += TUITION_STEP) {
+    if (!meets(at(t), inputs.targetMarginPct)) { dropsAt = t; break; }
+  }
+
+  return {
+    variable: 'tuition',
+    feasible: true,
+    value,
+    current,
+    marginPctAtValue: at(value).marginPct,
+    note: dropsAt !== null
+      ? `Margin falls back below target from ${dropsAt.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })} (staffing band or per-student cost step).`
+      : undefined,
+  };
+}
+
+// Margin is revenue − rent − everything else, so the allowance is the margin at
+// zero of that line less the target margin
+function lineAllowance(ueAtZero: UnitEconomicsResult, targetMarginPct: number): number {
+  return ueAtZero.margin - ueAtZero.revenue * targetMarginPct / 100;
+}
+
+function solveRent(school: SchoolData, inputs: GoalSeekInputs): GoalSeekResult {
+  const current = school.costs.lease.total;
+  const ue = evaluate(school, { ...baseLevers(school, inputs.students), rent: 0 }, inputs);
+  if (ue.revenue <= 0) {
+    return { variable: 'rent', feasible: false, current, reason: 'No revenue at this enrollment.' };
+  }
+  const value = lineAllowance(ue, inputs.targetMarginPct);
+  if (value < 0) {
+    return {
+      variable: 'rent',
+      feasible: false,
+      current,
+      reason: `Even rent-free, margin is ${ue.marginPct.toFixed(1)}% — below the ${inputs.targetMarginPct}% target.`,
+    };
+  }
+  return { variable: 'rent', feasible: true, value, current, marginPctAtValue: inputs.targetMarginPct };
+}
+
+function solveFood(school: SchoolData, inputs: GoalSeekInputs): GoalSeekResult {
+  const students = inputs.students;
+  const current = students > 0 ? scaledFood(school, students, inputs.preset) / students : 0;
+  const ue = evaluate(school, { ...baseLevers(school, students), foodTotal: 0 }, inputs);
+  if (ue.revenue <= 0) {
+    return { variable: 'foodPerStudent', feasible: false, current, reason: 'No revenue at this enrollment.' };
+  }
+  const allowance = lineAllowance(ue, inputs.targetMarginPct);
+  if (allowance < 0) {
+    return {
+      variable: 'foodPerStudent',
+      feasible: false,
+      current,
+      reason: `Even with no food cost, margin is ${ue.marginPct.toFixed(1)}% — below the ${inputs.targetMarginPct}% target.`,
+    };
+  }
+  return { variable: 'foodPerStudent', feasible: true, value: allowance / students, current, marginPctAtValue: inputs.targetMarginPct };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+export function defaultGoalSeekStudents(school: SchoolData): number {
+  return school.currentEnrollment > 0 ? school.currentEnrollment : school.capacity;
+}
+
+export function goalSeek(
+  school: SchoolData,
+  variable: GoalSeekVariable,
+  targetMarginPct: number = school.targetPct,
+  students: number = defaultGoalSeekStudents(school),
+  preset: ExpensePresetRef = 'dashboard',
+  staffingModel: StaffingModel = defaultStaffingModel,
+): GoalSeekResult {
+  const inputs: GoalSeekInputs = { targetMarginPct, students, preset, staffingModel };
+  switch (variable) {
+    case 'enrollment': return solveEnrollment(school, inputs);
+    case 'tuition': return solveTuition(school, inputs);
+    case 'rent': return solveRent(school, inputs);
+    case 'foodPerStudent': return solveFood(school, inputs);
+  }
+}
+
+export const goalSeekVariables = Object.keys(goalSeekVariableLabels) as GoalSeekVariable[];
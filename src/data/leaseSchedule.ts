@@ -0,0 +1,248 @@
+/**
+ * Lease Schedule
+ *
+ * One lease record per school: commencement, term, escalator, free rent,
+ * renewal options and termination clause. The cost data only carries this
+ * year's rent (LeaseCategory), so schools without an entered record get an
+ * assumed lease built from current rent — flagged so nobody mistakes it for
+ * the document.
+ *
+ * Months are 'YYYY-MM' strings, matching the monthly periods in REPORTING PERIODS.
+ */
+
+import type { SchoolData } from './facilitiesCapexData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RentEscalation {
+  type: 'percent' | 'fixed';
+  amount: number; // % per lease year, or $ added to annual rent per lease year
+}
+
+export interface RenewalOption {
+  termMonths: number;
+  noticeMonths: number;   // notice required before expiration to exercise
+  rentChangePct: number;  // change vs final-year rent
+}
+
+export interface TerminationClause {
+  earliestMonth: number;      // lease month (from commencement) the tenant may terminate at
+  noticeMonths: number;
+  penaltyMonthsRent: number;  // penalty as months of then-current rent
+  penaltyFixed: number;       // plus unamortized TI / fixed fee
+}
+
+export interface LeaseRecord {
+  schoolId: string;
+  commencementDate: string; // 'YYYY-MM'
+  termMonths: number;
+  baseAnnualRent: number;   // lease-year-1 rent, before escalation and free rent
+  escalation: RentEscalation;
+  freeRentMonths: number;   // abated months at the start of the term
+  renewalOptions: RenewalOption[];
+  termination: TerminationClause | null;
+  assumed: boolean;         // placeholder from current rent, not from the lease document
+}
+
+export const EXPIRATION_WARNING_MONTHS = 24;
+
+// Placeholder terms for schools without a lease on file
+export const assumedLeaseTerms = {
+  remainingMonths: 120,
+  escalation: { type: 'percent', amount: 3 } as RentEscalation,
+};
+
+// ============================================================================
+// MONTH MATH
+// ============================================================================
+
+const toIndex = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return y * 12 + (m - 1);
+};
+
+const fromIndex = (index: number) =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+export const addMonths = (month: string, n: number) => fromIndex(toIndex(month) + n);
+
+export const monthsBetween = (from: string, to: string) => toIndex(to) - toIndex(from);
+
+export const currentMonth = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// ============================================================================
+// RENT
+// ============================================================================
+
+export function leaseExpiration(lease: LeaseRecord): string {
+  return addMonths(lease.commencementDate, lease.termMonths);
+}
+
+const annualRentForLeaseYear = (lease: LeaseRecord, leaseYear: number) =>
+  lease.escalation.type === 'percent'
+    ? lease.baseAnnualRent * Math.pow(1 + lease.escalation.amount / 100, leaseYear)
+    : lease.baseAnnualRent + lease.escalation.amount * leaseYear;
+
+// Rent due in a calendar month (0 outside the term and during free rent)
+export function monthlyRent(lease: LeaseRecord, month: string): number {
+  const m = monthsBetween(lease.commencementDate, month);
+  if (m < 0 || m >= lease.termMonths || m < lease.freeRentMonths) return 0;
+  return annualRentForLeaseYear(lease, Math.floor(m / 12)) / 12;
+}
+
+// Rent over [from, to) — 'to' exclusive
+export function rentBetween(lease: LeaseRecord, from: string, to: string): number {
+  let total = 0;
+  for (let i = toIndex(from); i < toIndex(to); i++) total += monthlyRent(lease, fromIndex(i));
+  return total;
+}
+
+export function remainingCommitment(lease: LeaseRecord, asOf: string): number {
+  return rentBetween(lease, asOf, leaseExpiration(lease));
+}
+
+export interface ExitCost {
+  exitMonth: string;    // first month no rent is owed
+  rentUntilExit: number;
+  penalty: number;
+  total: number;
+  viaClause: boolean;   // false = no usable clause, so the rest of the term is owed
+}
+
+// Cheapest way out as of a month: termination clause if there is one, else rent through expiration
+export function exitCost(lease: LeaseRecord, asOf: string): ExitCost {
+  const expiration = leaseExpiration(lease);
+  const fullTerm: ExitCost = {
+    exitMonth: monthsBetween(asOf, expiration) > 0 ? expiration : asOf,
+    rentUntilExit: remainingCommitment(lease, asOf),
+    penalty: 0,
+    total: remainingCommitment(lease, asOf),
+    viaClause: false,
+  };
+  const clause = lease.termination;
+  if (!clause) return fullTerm;
+
+  const earliest = addMonths(lease.commencementDate, clause.earliestMonth);
+  const afterNotice = addMonths(asOf, clause.noticeMonths);
+  const exitMonth = monthsBetween(earliest, afterNotice) > 0 ? afterNotice : earliest;
+  if (monthsBetween(exitMonth, expiration) <= 0) return fullTerm;
+
+  const rentUntilExit = rentBetween(lease, asOf, exitMonth);
+  const penalty = clause.penaltyMonthsRent * monthlyRent(lease, exitMonth) + clause.penaltyFixed;
+  const total = rentUntilExit + penalty;
+  return total < fullTerm.total ? { exitMonth, rentUntilExit, penalty, total, viaClause: true } : fullTerm;
+}
+
+// Current rent, a standard escalator and ten more years — until the real lease is entered
+export function assumedLeaseRecord(school: SchoolData, asOf: string): LeaseRecord {
+  return {
+    schoolId: school.id,
+    commencementDate: asOf,
+    termMonths: assumedLeaseTerms.remainingMonths,
+    baseAnnualRent: school.costs.lease.total,
+    escalation: { ...assumedLeaseTerms.escalation },
+    freeRentMonths: 0,
+    renewalOptions: [],
+    termination: null,
+    assumed: true,
+  };
+}
+
+// Entered records where they exist, assumed ones for everyone else
+export function resolveLeaseSchedule(schools: SchoolData[], records: LeaseRecord[], asOf: string): LeaseRecord[] {
+  return schools.map(s => records.find(r => r.schoolId === s.id) ?? assumedLeaseRecord(s, asOf));
+}
+
+// ============================================================================
+// PROJECTION & SUMMARY
+// ============================================================================
+
+export interface LeaseYearProjection {
+  year: number;
+  bySchool: Record<string, number>;
+  total: number;
+}
+
+// Calendar-year rent from asOf's year forward (the first year counts from asOf only)
+export function projectRentByYear(leases: LeaseRecord[], asOf: string, years = 10): LeaseYearProjection[] {
+  const startYear = Number(asOf.slice(0, 4));
+  return Array.from({ length: years }, (_, i) => {
+    const year = startYear + i;
+    const from = i === 0 ? asOf : `${year}-01`;
+    const to = `${year + 1}-01`;
+    const bySchool: Record<string, number> = {};
+    for (const lease of leases) bySchool[lease.schoolId] = rentBetween(lease, from, to);
+    return { year, bySchool, total: Object.values(bySchool).reduce((s, v) => s + v, 0) };
+  });
+}
+
+export interface LeaseExpirationFlag {
+  schoolId: string;
+  expiration: string;
+  monthsRemaining: number;
+  renewalNoticeBy: string | null; // deadline to exercise the first renewal option
+}
+
+export interface LeaseScheduleSummary {
+  asOf: string;
+  leaseCount: number;
+  assumedCount: number;
+  currentAnnualRent: number;        // next 12 months of rent
+  totalRemainingCommitment: number; // rent owed through each lease's expiration
+  weightedAvgRemainingYears: number; // weighted by remaining commitment
+  expiringSoon: LeaseExpirationFlag[]; // within EXPIRATION_WARNING_MONTHS, soonest first
+}
+
+export function summarizeLeaseSchedule(leases: LeaseRecord[], asOf: string): LeaseScheduleSummary {
+  let totalRemainingCommitment = 0;
+  let weightedMonths = 0;
+  const expiringSoon: LeaseExpirationFlag[] = [];
+
+  for (const lease of leases) {
+    const expiration = leaseExpiration(lease);
+    const monthsRemaining = Math.max(monthsBetween(asOf, expiration), 0);
+    const remaining = remainingCommitment(lease, asOf);
+    totalRemainingCommitment += remaining;
+    weightedMonths += remaining * monthsRemaining;
+    if (monthsRemaining <= EXPIRATION_WARNING_MONTHS) {
+      const option = lease.renewalOptions[0];
+      expiringSoon.push({
+        schoolId: lease.schoolId,
+        expiration,
+        monthsRemaining,
+        renewalNoticeBy: option ? addMonths(expiration, -option.noticeMonths) : null,
+      });
+    }
+  }
+
+  return {
+    asOf,
+    leaseCount: leases.length,
+    assumedCount: leases.filter(l => l.assumed).length,
+    currentAnnualRent: leases.reduce((s, l) => s + rentBetween(l, asOf, addMonths(asOf, 12)), 0),
+    totalRemainingCommitment,
+    weightedAvgRemainingYears: totalRemainingCommitment > 0 ? weightedMonths / totalRemainingCommitment / 12 : 0,
+    expiringSoon: expiringSoon.sort((a, b) => a.monthsRemaining - b.monthsRemaining),
+  };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isLeaseRecordList(value: unknown): value is LeaseRecord[] {
+  const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  return Array.isArray(value) && value.every(l =>
+    typeof l?.schoolId === 'string' &&
+    typeof l?.commencementDate === 'string' && /^\d{4}-\d{2}$/.test(l.commencementDate) &&
+    isNum(l.termMonths) && isNum(l.baseAnnualRent) && isNum(l.freeRentMonths) &&
+    (l.escalation?.type === 'percent' || l.escalation?.type === 'fixed') && isNum(l.escalation.amount) &&
+    Array.isArray(l.renewalOptions) &&
+    l.renewalOptions.every((o: RenewalOption) => isNum(o?.termMonths) && isNum(o?.noticeMonths) && isNum(o?.rentChangePct)) &&
+    (l.termination === null || (isNum(l.termination?.earliestMonth) && isNum(l.termination.noticeMonths) &&
+      isNum(l.termination.penaltyMonthsRent) && isNum(l.termination.penaltyFixed))) &&
+    typeof l.assumed === 'boolean');
+}
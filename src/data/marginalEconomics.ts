@@ -0,0 +1,109 @@
+/**
+ * Marginal Economics
+ *
+ * marginalCostPerStudent is an average — variable facilities and student
+ * services over enrollment — so it misses the fixed share of each line in the
+ * expense preset and the steps in getStaffingCost(): a new guide every
+ * guideRatio students, the larger roster at the 100-student tier. Here the
+ * school is re-run through calculateUnitEconomics() at each enrollment from
+ * current + 1 to current + N, and each step reports the change against today.
+ *
+ * Rent and depreciation don't move with enrollment, so the increment is
+ * revenue less the scaled facility lines, staffing, and programs / misc /
+ * Timeback (which also step with enrollment through their per-student rates).
+ */
+
+import {
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  resolveExpenseRules,
+  type ExpensePresetRef,
+  type ExpenseRuleSet,
+  type SchoolData,
+  type StaffingModel,
+  type UnitEconomicsResult,
+} from './facilitiesCapexData';
+import { facilitiesAtEnrollment } from './schoolProjection';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MarginalStep {
+  added: number;              // students added to current enrollment
+  students: number;
+  // Cumulative change against current enrollment
+  revenue: number;
+  facilities: number;
+  staffing: number;
+  other: number;              // programs + misc + Timeback
+  margin: number;
+  // This student alone (step from added − 1)
+  studentMargin: number;
+  staffingStep: number;       // staffing change at this student; > 0 marks a new hire
+}
+
+export interface MarginalEconomics {
+  schoolId: string;
+  baseStudents: number;
+  steps: MarginalStep[];
+  averageMarginPerStudent: number; // margin / added at the last step
+  staffingSteps: number[];    // added counts where staffing steps up
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+function unitEconomicsAt(
+  school: SchoolData,
+  students: number,
+  rules: ExpenseRuleSet,
+  staffingModel: StaffingModel,
+): UnitEconomicsResult {
+  const facilities = school.costs.lease.total + Object.values(facilitiesAtEnrollment(school, students, rules)).reduce((s, v) => s + v, 0);
+  return calculateUnitEconomics(school.tuition, students, facilities, school.costs.annualDepreciation.total, staffingModel);
+}
+
+// Seats left before capacity; at least 1 so a full school still shows the next student
+export const defaultMarginalStudents = (school: SchoolData) =>
+  Math.max(1, school.capacity - school.currentEnrollment);
+
+export function marginalEconomics(
+  school: SchoolData,
+  maxAdded: number = defaultMarginalStudents(school),
+  preset: ExpensePresetRef = 'dashboard',
+  staffingModel: StaffingModel = defaultStaffingModel,
+): MarginalEconomics {
+  const rules = resolveExpenseRules(preset);
+  const baseStudents = school.currentEnrollment;
+  const base = unitEconomicsAt(school, baseStudents, rules, staffingModel);
+  const other = (ue: UnitEconomicsResult) => ue.programs + ue.misc + ue.timeback;
+
+  const steps: MarginalStep[] = [];
+  let prev = base;
+  for (let added = 1; added <= maxAdded; added++) {
+    const ue = unitEconomicsAt(school, baseStudents + added, rules, staffingModel);
+    steps.push({
+      added,
+      students: baseStudents + added,
+      revenue: ue.revenue - base.revenue,
+      facilities: ue.facilities - base.facilities,
+      staffing: ue.staffing - base.staffing,
+      other: other(ue) - other(base),
+      margin: ue.margin - base.margin,
+      studentMargin: ue.margin - prev.margin,
+      staffingStep: ue.staffing - prev.staffing,
+    });
+    prev = ue;
+  }
+
+  const last = steps[steps.length - 1];
+  return {
+    schoolId: school.id,
+    baseStudents,
+    steps,
+    averageMarginPerStudent: last ? last.margin / last.added : 0,
+    staffingSteps: steps.filter(s => s.staffingStep > 0.5).map(s => s.added),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Monte Carlo Risk Simulation
+ *
+ * The dashboard's headline ratios are point estimates. Here each draw perturbs
+ * the schools' raw entries — enrollment per school, inflation per cost line
+ * (one draw per line, shared across the portfolio, since inflation is
+ * systemic), tuition discounting per school — and runs them back through
+ * buildSchoolData() / calculatePortfolioSummary(). Cost lines also move with
+ * enrollment under the active expense preset's fixed/variable split.
+ *
+ * A discount is a price concession, not a cheaper school: tuition tier, margin
+ * target and staffing band stay on list tuition, and only revenue and the
+ * figures measured against it (% of tuition, health) move.
+ *
+ * Pre-opening schools keep zero enrollment (they stay pre-opening) but their
+ * costs still inflate. Draws use a seeded generator so a run is repeatable.
+ *
+ * Runs in a Web Worker (workers/monteCarlo.worker.ts); the message types for
+ * both sides live here.
+ */
+
+import {
+  buildSchoolData,
+  calculatePortfolioSummary,
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  defaultTargetPolicy,
+  resolveExpenseRules,
+  scoreHealth,
+  type ExpensePresetRef,
+  type ExpenseRuleSet,
+  type RawSchoolEntry,
+  type SchoolData,
+  type StaffingModel,
+  type TargetPolicy,
+} from './facilitiesCapexData';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+export type MonteCarloCostLine = keyof ExpenseRuleSet | 'lease';
+
+export const monteCarloCostLineLabels: Record<MonteCarloCostLine, string> = {
+  lease: 'Lease',
+  security: 'Security',
+  itMaintenance: 'IT Maintenance',
+  landscaping: 'Landscaping',
+  janitorial: 'Janitorial',
+  utilities: 'Utilities',
+  repairs: 'Repairs / Maintenance',
+  foodServices: 'Food Services',
+  transportation: 'Transportation',
+};
+
+export interface NormalDistribution {
+  meanPct: number;
+  sdPct: number;
+}
+
+export interface MonteCarloAssumptions {
+  draws: number;
+  seed: number;
+  enrollmentSdPct: number;   // per school, as % of current enrollment
+  tuitionDiscount: NormalDistribution; // per school, floored at 0
+  costInflation: Record<MonteCarloCostLine, NormalDistribution>;
+}
+
+export const defaultMonteCarloAssumptions: MonteCarloAssumptions = {
+  draws: 2000,
+  seed: 1,
+  enrollmentSdPct: 15,
+  tuitionDiscount: { meanPct: 5, sdPct: 3 },
+  costInflation: {
+    lease: { meanPct: 3, sdPct: 1 },
+    security: { meanPct: 3, sdPct: 2 },
+    itMaintenance: { meanPct: 3, sdPct: 2 },
+    landscaping: { meanPct: 3, sdPct: 2 },
+    janitorial: { meanPct: 3.5, sdPct: 2 },
+    utilities: { meanPct: 4, sdPct: 4 },
+    repairs: { meanPct: 3.5, sdPct: 5 },
+    foodServices: { meanPct: 4, sdPct: 3 },
+    transportation: { meanPct: 3.5, sdPct: 3 },
+  },
+};
+
+// ============================================================================
+// RANDOM DRAWS
+// ============================================================================
+
+// mulberry32 — small, fast, seedable
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box–Muller
+function normal(random: () => number, mean: number, sd: number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// RawSchoolEntry field behind each cost line
+type RawCostField = 'lease' | 'security' | 'itMaintenance' | 'landscaping' | 'janitorial' | 'utilities' | 'maintenance' | 'foodServices' | 'transportation';
+
+const rawField: Record<MonteCarloCostLine, RawCostField> = {
+  lease: 'lease',
+  security: 'security',
+  itMaintenance: 'itMaintenance',
+  landscaping: 'landscaping',
+  janitorial: 'janitorial',
+  utilities: 'utilities',
+  repairs: 'maintenance',
+  foodServices: 'foodServices',
+  transportation: 'transportation',
+};
+
+const costLines = Object.keys(monteCarloCostLineLabels) as MonteCarloCostLine[];
+
+interface DrawnEntry {
+  entry: RawSchoolEntry;   // list tuition kept
+  discount: number;        // 0–1, applied to revenue by discountRevenue()
+}
+
+function drawEntry(
+  entry: RawSchoolEntry,
+  inflation: Record<MonteCarloCostLine, number>,
+  random: () => number,
+  assumptions: MonteCarloAssumptions,
+  rules: ExpenseRuleSet,
+): DrawnEntry {
+  const operating = entry.currentEnrollment > 0;
+  const enrollment = operating
+    ? Math.min(entry.capacity, Math.max(1, Math.round(normal(random, entry.currentEnrollment, entry.currentEnrollment * assumptions.enrollmentSdPct / 100))))
+    : 0;
+  const ratio = operating ? enrollment / entry.currentEnrollment : 1;
+  const discount = Math.min(Math.max(0, normal(random, assumptions.tuitionDiscount.meanPct, assumptions.tuitionDiscount.sdPct)) / 100, 1);
+
+  const next: RawSchoolEntry = { ...entry, currentEnrollment: enrollment };
+  let delta = 0;
+  for (const line of costLines) {
+    const field = rawField[line];
+    const base = entry[field];
+    const scale = line === 'lease' ? 1 : rules[line].fixed + rules[line].variable * ratio;
+    const value = base * scale * inflation[line];
+    next[field] = value;
+    delta += value - base;
+  }
+  next.totalExcCapex = entry.totalExcCapex + delta;
+  next.totalIncCapex = entry.totalIncCapex + delta;
+  return { entry: next, discount };
+}
+
+// Revenue at the discounted price; % of tuition and health follow, against the list-tuition target
+function discountRevenue(school: SchoolData, discount: number): SchoolData {
+  if (discount <= 0) return school;
+  const net = Math.max(1 - discount, Number.EPSILON);
+  const metrics = {
+    ...school.metrics,
+    pctOfTuitionCurrent: school.metrics.pctOfTuitionCurrent / net,
+    pctOfTuitionCapacity: school.metrics.pctOfTuitionCapacity / net,
+  };
+  const breakeven = {
+    ...school.breakeven,
+    pctAt75Capacity: school.breakeven.pctAt75Capacity / net,
+    pctAt100Capacity: school.breakeven.pctAt100Capacity / net,
+  };
+  return {
+    ...school,
+    revenue: {
+      current: school.revenue.current * net,
+      atCapacity: school.revenue.atCapacity * net,
+      revenueGap: school.revenue.revenueGap * net,
+    },
+    metrics,
+    breakeven,
+    ...scoreHealth(school.isOperating, school.utilizationRate, metrics.pctOfTuitionCurrent, breakeven.pctAt100Capacity, school.targetPct),
+  };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+export interface DrawMetrics {
+  facilitiesPctOfRevenue: number;
+  portfolioMargin: number;     // full unit-economics margin, operating schools
+  portfolioMarginPct: number;
+  redSchools: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export type MonteCarloMetric = keyof DrawMetrics;
+
+export const monteCarloMetricLabels: Record<MonteCarloMetric, string> = {
+  facilitiesPctOfRevenue: 'Facilities % of Revenue',
+  portfolioMargin: 'Portfolio Margin',
+  portfolioMarginPct: 'Portfolio Margin %',
+  redSchools: 'Red-Health Schools',
+};
+
+export interface MonteCarloResult {
+  draws: number;
+  base: DrawMetrics;                           // no uncertainty — the dashboard's point estimate
+  percentiles: Record<MonteCarloMetric, Percentiles>;
+  histogram: { from: number; to: number; count: number }[]; // facilitiesPctOfRevenue
+}
+
+function drawMetrics(schools: SchoolData[], staffingModel: StaffingModel, discounts: Record<string, number> = {}): DrawMetrics {
+  const discounted = schools.map(s => discountRevenue(s, discounts[s.id] ?? 0));
+  const summary = calculatePortfolioSummary(discounted);
+  let margin = 0;
+  let revenue = 0;
+  for (const s of schools.filter(s => s.isOperating)) {
+    const netTuition = s.tuition * (1 - (discounts[s.id] ?? 0));
+    const ue = calculateUnitEconomics(
+      netTuition, s.currentEnrollment, s.costs.grandTotal - s.costs.annualDepreciation.total, s.costs.annualDepreciation.total, staffingModel, s.tuition,
+    );
+    margin += ue.margin;
+    revenue += ue.revenue;
+  }
+  return {
+    facilitiesPctOfRevenue: summary.facilitiesPctOfRevenue,
+    portfolioMargin: margin,
+    portfolioMarginPct: revenue > 0 ? (margin / revenue) * 100 : 0,
+    redSchools: summary.schoolsByHealth.red,
+  };
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => {
+    const i = p * (sorted.length - 1);
+    const lo = Math.floor(i);
+    const hi = Math.ceil(i);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+  };
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9), mean: values.reduce((s, v) => s + v, 0) / values.length };
+}
+
+function histogram(values: number[], buckets = 20): MonteCarloResult['histogram'] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / buckets || 1;
+  const bins = Array.from({ length: buckets }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const v of values) bins[Math.min(Math.floor((v - min) / width), buckets - 1)].count++;
+  return bins;
+}
+
+// entries: the schools in view as raw entries (schoolToRawEntry), so ledger,
+// register and period selection are already applied
+export function runMonteCarlo(
+  entries: Record<string, RawSchoolEntry>,
+  assumptions: MonteCarloAssumptions = defaultMonteCarloAssumptions,
+  targetPolicy: TargetPolicy = defaultTargetPolicy,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  preset: ExpensePresetRef = 'dashboard',
+  onProgress?: (done: number) => void,
+): MonteCarloResult {
+  const random = seededRandom(assumptions.seed);
+  const rules = resolveExpenseRules(preset);
+  const ids = Object.keys(entries);
+  const samples: DrawMetrics[] = [];
+
+  for (let d = 0; d < assumptions.draws; d++) {
+    const inflation = {} as Record<MonteCarloCostLine, number>;
+    for (const line of costLines) {
+      const dist = assumptions.costInflation[line];
+      inflation[line] = Math.max(0, 1 + normal(random, dist.meanPct, dist.sdPct) / 100);
+    }
+    const drawn: Record<string, RawSchoolEntry> = {};
+    const discounts: Record<string, number> = {};
+    for (const id of ids) {
+      const { entry, discount } = drawEntry(entries[id], inflation, random, assumptions, rules);
+      drawn[id] = entry;
+      discounts[id] = discount;
+    }
+    samples.push(drawMetrics(buildSchoolData(drawn, undefined, targetPolicy), staffingModel, discounts));
+    if (onProgress && (d + 1) % 100 === 0) onProgress(d + 1);
+  }
+
+  const metrics = Object.keys(monteCarloMetricLabels) as MonteCarloMetric[];
+  return {
+    draws: samples.length,
+    base: drawMetrics(buildSchoolData(entries, undefined, targetPolicy), staffingModel),
+    percentiles: Object.fromEntries(metrics.map(m => [m, percentiles(samples.map(s => s[m]))])) as Record<MonteCarloMetric, Percentiles>,
+    histogram: histogram(samples.map(s => s.facilitiesPctOfRevenue)),
+  };
+}
+
+// ============================================================================
+// WORKER MESSAGES
+// ============================================================================
+
+export interface MonteCarloRequest {
+  runId: number;
+  entries: Record<string, RawSchoolEntry>;
+  assumptions: MonteCarloAssumptions;
+  targetPolicy: TargetPolicy;
+  staffingModel: StaffingModel;
+  preset: ExpensePresetRef;
+}
+
+export type MonteCarloResponse =
+  | { type: 'progress'; runId: number; done: number; total: number }
+  | { type: 'result'; runId: number; result: MonteCarloResult }
+  | { type: 'error'; runId: number; message: string };
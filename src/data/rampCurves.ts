@@ -0,0 +1,69 @@
+/**
+ * Enrollment Ramp Curves
+ *
+ * Pre-opening schools have no enrollment, so anything per student is
+ * meaningless until they open. Each school type gets a template ramp —
+ * utilization (% of capacity) by year of operation — and any school can
+ * override its own curve. buildSchoolData() uses the curve for the pre-opening
+ * per-student metrics and the projected health / target year (RampProjection).
+ */
+
+import type { HealthScore, SchoolType } from './facilitiesCapexData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RampCurve = number[]; // % of capacity by year of operation (year 1 first)
+
+export type RampOverrides = Record<string, RampCurve>; // keyed by school id
+
+export interface RampYear {
+  yearOfOperation: number;
+  utilizationPct: number;
+  enrollment: number;
+  pctOfTuition: number; // run-rate cost estimate as % of tuition revenue at that enrollment
+}
+
+export interface RampProjection {
+  curve: RampCurve;
+  overridden: boolean;
+  years: RampYear[];
+  openingEnrollment: number;       // year 1
+  stabilizedEnrollment: number;    // final year of the curve
+  healthScore: HealthScore;        // scored at the stabilized year
+  healthVerdict: string;
+  targetYear: number | null;       // first year of operation at or under the tuition-tier target
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export const RAMP_YEARS = 5;
+
+export const defaultRampCurves: Record<SchoolType, RampCurve> = {
+  'alpha-school': [45, 65, 80, 90, 90],
+  'growth-alpha': [40, 60, 75, 85, 90],
+  microschool: [55, 80, 90, 90, 90],
+  alternative: [35, 55, 70, 80, 85],
+  'low-dollar': [50, 70, 85, 90, 90],
+};
+
+export function rampCurveFor(schoolId: string, schoolType: SchoolType, overrides: RampOverrides = {}): RampCurve {
+  return overrides[schoolId] ?? defaultRampCurves[schoolType];
+}
+
+export const rampEnrollment = (capacity: number, utilizationPct: number) =>
+  Math.round(capacity * utilizationPct / 100);
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function isRampOverrides(value: unknown): value is RampOverrides {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(curve =>
+      Array.isArray(curve) && curve.length > 0 &&
+      curve.every(p => typeof p === 'number' && Number.isFinite(p) && p >= 0));
+}
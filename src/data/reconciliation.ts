@@ -0,0 +1,231 @@
+/**
+ * Raw Data Reconciliation
+ *
+ * transformToSixCategories() takes totalIncCapex as the grand total and derives
+ * depreciation as totalIncCapex − totalExcCapex without checking either total.
+ * This module checks every RawSchoolEntry (year-end snapshot + each dated
+ * history row) before those numbers are trusted:
+ *
+ * 1. Line items (lease … transportation) sum to totalExcCapex
+ * 2. totalIncCapex ≥ totalExcCapex (depreciation can't be negative)
+ * 3. Model W + X = Y (facilities + capex per student = total per student)
+ * 4. No negative cost line items
+ *
+ * Spreadsheet rounding leaves ±$1 on some rows, so sums are compared with a
+ * tolerance: the larger of an absolute $ amount and a % of the total.
+ */
+
+import type { RawPeriodEntry, RawSchoolEntry } from './facilitiesCapexData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiscrepancyKind =
+  | 'components-vs-total'   // line items ≠ totalExcCapex
+  | 'negative-depreciation' // totalIncCapex < totalExcCapex
+  | 'model-total'           // model W + X ≠ Y
+  | 'negative-line-item';   // a cost line below zero
+
+export type DiscrepancySeverity = 'error' | 'warning';
+
+export interface ReconciliationTolerance {
+  absolute: number; // $ allowed regardless of size
+  relative: number; // fraction of the expected total (0.001 = 0.1%)
+}
+
+export interface ReconciliationDiscrepancy {
+  schoolId: string;
+  displayName: string;
+  period: string | null; // null = year-end snapshot
+  kind: DiscrepancyKind;
+  severity: DiscrepancySeverity;
+  field: string;
+  expected: number;
+  actual: number;
+  difference: number;    // actual − expected
+  differencePct: number; // difference / expected × 100 (0 when expected is 0)
+  message: string;
+}
+
+export interface SchoolReconciliation {
+  schoolId: string;
+  displayName: string;
+  discrepancies: ReconciliationDiscrepancy[];
+  largestDifference: number; // max |difference| across discrepancies
+}
+
+export interface ReconciliationReport {
+  tolerance: ReconciliationTolerance;
+  schoolsChecked: number;
+  rowsChecked: number;
+  failing: SchoolReconciliation[]; // sorted by largestDifference desc
+  discrepancies: ReconciliationDiscrepancy[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export const defaultReconciliationTolerance: ReconciliationTolerance = {
+  absolute: 5,
+  relative: 0.001,
+};
+
+export const discrepancyKindLabels: Record<DiscrepancyKind, string> = {
+  'components-vs-total': 'Line items ≠ Total Exc. CapEx',
+  'negative-depreciation': 'Total Inc. < Total Exc. CapEx',
+  'model-total': 'Model W + X ≠ Y',
+  'negative-line-item': 'Negative line item',
+};
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+type CostLine = Exclude<keyof RawPeriodEntry, 'period' | 'currentEnrollment' | 'totalExcCapex' | 'totalIncCapex'>;
+
+const costLines: { field: CostLine; label: string }[] = [
+  { field: 'lease', label: 'Lease' },
+  { field: 'security', label: 'Security' },
+  { field: 'itMaintenance', label: 'IT Maintenance' },
+  { field: 'landscaping', label: 'Landscaping' },
+  { field: 'janitorial', label: 'Janitorial' },
+  { field: 'utilities', label: 'Utilities' },
+  { field: 'maintenance', label: 'Repairs / Maintenance' },
+  { field: 'foodServices', label: 'Food Services' },
+  { field: 'transportation', label: 'Transportation' },
+];
+
+const allowedDifference = (expected: number, tolerance: ReconciliationTolerance): number =>
+  Math.max(tolerance.absolute, Math.abs(expected) * tolerance.relative);
+
+const fmt = (n: number): string => `$${Math.round(n).toLocaleString()}`;
+
+function checkCostRow(
+  schoolId: string,
+  displayName: string,
+  period: string | null,
+  row: Pick<RawPeriodEntry, CostLine | 'totalExcCapex' | 'totalIncCapex'>,
+  tolerance: ReconciliationTolerance,
+): ReconciliationDiscrepancy[] {
+  const found: ReconciliationDiscrepancy[] = [];
+  const where = period ? `${displayName} (${period})` : displayName;
+  const push = (d: Omit<ReconciliationDiscrepancy, 'schoolId' | 'displayName' | 'period' | 'difference' | 'differencePct'>) => {
+    const difference = d.actual - d.expected;
+    found.push({
+      schoolId,
+      displayName,
+      period,
+      ...d,
+      difference,
+      differencePct: d.expected !== 0 ? (difference / d.expected) * 100 : 0,
+    });
+  };
+
+  for (const line of costLines) {
+    if (row[line.field] < 0) {
+      push({
+        kind: 'negative-line-item',
+        severity: 'warning',
+        field: line.label,
+        expected: 0,
+        actual: row[line.field],
+        message: `${where}: ${line.label} is negative (${fmt(row[line.field])})`,
+      });
+    }
+  }
+
+  const componentSum = costLines.reduce((sum, line) => sum + row[line.field], 0);
+  if (Math.abs(componentSum - row.totalExcCapex) > allowedDifference(row.totalExcCapex, tolerance)) {
+    push({
+      kind: 'components-vs-total',
+      severity: 'error',
+      field: 'Total Exc. CapEx',
+      expected: componentSum,
+      actual: row.totalExcCapex,
+      message: `${where}: line items sum to ${fmt(componentSum)} but Total Exc. CapEx is ${fmt(row.totalExcCapex)}`,
+    });
+  }
+
+  if (row.totalIncCapex < row.totalExcCapex - allowedDifference(row.totalExcCapex, tolerance)) {
+    push({
+      kind: 'negative-depreciation',
+      severity: 'error',
+      field: 'Total Inc. CapEx',
+      expected: row.totalExcCapex,
+      actual: row.totalIncCapex,
+      message: `${where}: Total Inc. CapEx ${fmt(row.totalIncCapex)} is below Total Exc. CapEx ${fmt(row.totalExcCapex)} — depreciation would be negative`,
+    });
+  }
+
+  return found;
+}
+
+// ============================================================================
+// RECONCILE
+// ============================================================================
+
+export function reconcileSchoolEntry(
+  schoolId: string,
+  raw: RawSchoolEntry,
+  tolerance: ReconciliationTolerance = defaultReconciliationTolerance,
+): ReconciliationDiscrepancy[] {
+  const found = checkCostRow(schoolId, raw.displayName, null, raw, tolerance);
+
+  const modelSum = raw.modelFacPerStudent + raw.modelCapexPerStudent;
+  if (Math.abs(modelSum - raw.modelTotalCostPerStudent) > allowedDifference(raw.modelTotalCostPerStudent, tolerance)) {
+    const difference = raw.modelTotalCostPerStudent - modelSum;
+    found.push({
+      schoolId,
+      displayName: raw.displayName,
+      period: null,
+      kind: 'model-total',
+      severity: 'warning',
+      field: 'Model Total / Student (Y)',
+      expected: modelSum,
+      actual: raw.modelTotalCostPerStudent,
+      difference,
+      differencePct: modelSum !== 0 ? (difference / modelSum) * 100 : 0,
+      message: `${raw.displayName}: model W + X = ${fmt(modelSum)}/student but Y is ${fmt(raw.modelTotalCostPerStudent)}`,
+    });
+  }
+
+  for (const h of raw.history ?? []) {
+    found.push(...checkCostRow(schoolId, raw.displayName, h.period, h, tolerance));
+  }
+
+  return found;
+}
+
+export function reconcileRawData(
+  rawData: Record<string, RawSchoolEntry>,
+  tolerance: ReconciliationTolerance = defaultReconciliationTolerance,
+): ReconciliationReport {
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+  const failing: SchoolReconciliation[] = [];
+  let rowsChecked = 0;
+
+  for (const [id, raw] of Object.entries(rawData)) {
+    rowsChecked += 1 + (raw.history?.length ?? 0);
+    const found = reconcileSchoolEntry(id, raw, tolerance);
+    if (found.length === 0) continue;
+    discrepancies.push(...found);
+    failing.push({
+      schoolId: id,
+      displayName: raw.displayName,
+      discrepancies: found,
+      largestDifference: Math.max(...found.map(d => Math.abs(d.difference))),
+    });
+  }
+
+  failing.sort((a, b) => b.largestDifference - a.largestDifference);
+
+  return {
+    tolerance,
+    schoolsChecked: Object.keys(rawData).length,
+    rowsChecked,
+    failing,
+    discrepancies,
+    errorCount: discrepancies.filter(d => d.severity === 'error').length,
+    warningCount: discrepancies.filter(d => d.severity === 'warning').length,
+  };
+}
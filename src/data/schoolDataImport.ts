@@ -0,0 +1,439 @@
+/**
+ * School Cost Data Import
+ *
+ * Reads a CSV export of the "Summary - Based on Expense down" sheet of
+ * "Facilities & Capex Costs (1).xlsx" and produces validated RawSchoolEntry
+ * records for buildSchoolData(). Workbooks are not opened directly: the npm
+ * xlsx package stops at 0.18.5, which has open prototype-pollution and ReDoS
+ * advisories, and a CSV needs no parser dependency.
+ *
+ * Validation is row-level: a bad row is reported and skipped, the rest load.
+ * Blank required numeric cells load as 0 with a row warning ('-' is an
+ * explicit zero). Missing required columns are fatal — nothing loads.
+ *
+ * An optional Period column ('FY2025', '2025-07', a date cell…) turns repeated
+ * school rows into a dated history. Rows with a blank period are the year-end
+ * snapshot; schools without one use their latest fiscal year (else TTM).
+ */
+
+import {
+  schoolTypeLabels,
+  snapshotFromHistory,
+  tuitionTierLabels,
+  tuitionTierRanges,
+  type RawPeriodEntry,
+  type RawSchoolEntry,
+  type SchoolType,
+  type TuitionTier,
+} from './facilitiesCapexData';
+
+export const SUMMARY_SHEET_NAME = 'Summary - Based on Expense down';
+
+// ============================================================================
+// COLUMN MAPPING
+// ============================================================================
+
+type NumericField = Exclude<keyof RawSchoolEntry, 'displayName' | 'schoolType' | 'tuitionTier' | 'history'>;
+type ImportField = Exclude<keyof RawSchoolEntry, 'history'> | 'id' | 'period';
+
+interface ColumnSpec {
+  field: ImportField;
+  label: string;
+  aliases: string[];
+  required: boolean;
+}
+
+// Header aliases are matched after normalizing (lowercase, alphanumerics only)
+const columnSpecs: ColumnSpec[] = [
+  { field: 'id', label: 'ID', aliases: ['id', 'schoolid', 'key'], required: false },
+  { field: 'period', label: 'Period', aliases: ['period', 'month', 'fiscalyear', 'fy', 'perioddate'], required: false },
+  { field: 'displayName', label: 'School', aliases: ['school', 'schoolname', 'name', 'displayname'], required: true },
+  { field: 'currentEnrollment', label: 'Enrollment', aliases: ['enrollment', 'currentenrollment', 'students', 'enrolled'], required: true },
+  { field: 'capacity', label: 'Capacity', aliases: ['capacity', 'seats'], required: true },
+  { field: 'schoolType', label: 'School Type', aliases: ['schooltype', 'type'], required: true },
+  { field: 'tuitionTier', label: 'Tuition Tier', aliases: ['tuitiontier', 'tier'], required: false },
+  { field: 'tuition', label: 'Tuition', aliases: ['tuition'], required: true },
+  { field: 'sqft', label: 'Sq Ft', aliases: ['sqft', 'squarefeet', 'squarefootage'], required: true },
+  { field: 'lease', label: 'Lease', aliases: ['lease', 'rent', 'leaserent'], required: true },
+  { field: 'capexBuildout', label: 'CapEx Buildout', aliases: ['capexbuildout', 'capex', 'buildout'], required: true },
+  { field: 'utilities', label: 'Utilities', aliases: ['utilities'], required: true },
+  { field: 'maintenance', label: 'Repairs / Maintenance', aliases: ['maintenance', 'repairs', 'repairsmaintenance', 'repairsandmaintenance'], required: true },
+  { field: 'itMaintenance', label: 'IT Maintenance', aliases: ['itmaintenance', 'itmaintenanceinternet', 'it'], required: true },
+  { field: 'landscaping', label: 'Landscaping', aliases: ['landscaping'], required: true },
+  { field: 'janitorial', label: 'Janitorial', aliases: ['janitorial', 'janitorialtoiletries'], required: true },
+  { field: 'security', label: 'Security', aliases: ['security', 'securityservices'], required: true },
+  { field: 'foodServices', label: 'Food Services', aliases: ['foodservices', 'food'], required: true },
+  { field: 'transportation', label: 'Transportation', aliases: ['transportation', 'transport'], required: true },
+  { field: 'totalExcCapex', label: 'Total Exc. CapEx', aliases: ['totalexccapex', 'totalexcludingcapex', 'totalexcapex'], required: true },
+  { field: 'totalIncCapex', label: 'Total Inc. CapEx', aliases: ['totalinccapex', 'totalincludingcapex', 'total'], required: true },
+  { field: 'modelFacPerStudent', label: 'Model Fac / Student (W)', aliases: ['modelfacperstudent', 'facilitiescostpsexccapex', 'facilitiescostperstudentexccapex'], required: true },
+  { field: 'modelCapexPerStudent', label: 'Model CapEx / Student (X)', aliases: ['modelcapexperstudent', 'capexcostps', 'capexcostperstudent'], required: true },
+  { field: 'modelTotalCostPerStudent', label: 'Model Total / Student (Y)', aliases: ['modeltotalcostperstudent', 'totalcostps', 'totalcostperstudent'], required: true },
+  { field: 'delta', label: 'Delta', aliases: ['delta'], required: false },
+];
+
+const normalizeHeader = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export type ImportErrorKind = 'missing-column' | 'non-numeric' | 'unknown-school-type' | 'invalid-value' | 'blank-value';
+
+export interface ImportRowError {
+  kind: ImportErrorKind;
+  row: number | null; // 1-based spreadsheet row; null for sheet-level errors
+  column: string;
+  value?: string;
+  message: string;
+  warning?: boolean; // reported, but the row still imports
+}
+
+export interface SchoolDataImportResult {
+  fileName: string;
+  sheetName: string;
+  entries: Record<string, RawSchoolEntry>;
+  errors: ImportRowError[];
+  rowsRead: number;
+  rowsImported: number;
+}
+
+// ============================================================================
+// CELL PARSING
+// ============================================================================
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').trim();
+  if (text === '-' || text === '—') return 0;
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text);
+  const cleaned = text.replace(/[$,\s()]/g, '');
+  if (!/^-?\d*\.?\d+(e-?\d+)?$/i.test(cleaned)) return null;
+  const parsed = Number(cleaned);
+  return negative ? -parsed : parsed;
+}
+
+function parseSchoolType(value: unknown): SchoolType | null {
+  const key = normalizeHeader(value);
+  for (const [type, label] of Object.entries(schoolTypeLabels) as [SchoolType, string][]) {
+    if (key === normalizeHeader(type) || key === normalizeHeader(label)) return type;
+  }
+  return null;
+}
+
+function parseTuitionTier(value: unknown, tuition: number): TuitionTier {
+  const key = normalizeHeader(value);
+  for (const [tier, label] of Object.entries(tuitionTierLabels) as [TuitionTier, string][]) {
+    if (key !== '' && (key === normalizeHeader(tier) || key === normalizeHeader(label))) return tier;
+  }
+  // Fall back to the tier range the tuition falls into
+  const match = (Object.entries(tuitionTierRanges) as [TuitionTier, { min: number; max: number }][])
+    .find(([, range]) => tuition >= range.min && tuition <= range.max);
+  return match ? match[0] : 'economy';
+}
+
+// 'FY2025' | 'FY25' | 2025 → 'FY2025'; '2025-07' | '7/2025' | 'Jul 2025' | Excel date serial → '2025-07'
+function parsePeriod(value: unknown): string | null {
+  const toMonth = (d: Date) => `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+  if (typeof value === 'number') {
+    if (value >= 1900 && value <= 2100) return `FY${value}`;
+    if (value > 20000) return toMonth(new Date(Math.round((value - 25569) * 86400 * 1000)));
+    return null;
+  }
+  const text = String(value ?? '').trim();
+  let m = text.match(/^FY\s*'?(\d{2}|\d{4})$/i);
+  if (m) return `FY${m[1].length === 2 ? `20${m[1]}` : m[1]}`;
+  if (/^\d{4}$/.test(text)) return `FY${text}`;
+  m = text.match(/^(\d{4})[-/](\d{1,2})$/);
+  if (m && Number(m[2]) >= 1 && Number(m[2]) <= 12) return `${m[1]}-${m[2].padStart(2, '0')}`;
+  m = text.match(/^(\d{1,2})[-/](\d{4})$/);
+  if (m && Number(m[1]) >= 1 && Number(m[1]) <= 12) return `${m[2]}-${m[1].padStart(2, '0')}`;
+  const parsed = Date.parse(`${text} UTC`);
+  if (!Number.isNaN(parsed)) return toMonth(new Date(parsed));
+  return null;
+}
+
+const slugify = (name: string): string =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// ============================================================================
+// ROW → RawSchoolEntry
+// ============================================================================
+
+function findHeaderRow(rows: unknown[][]): number {
+  // The sheet has title rows above the header; pick the first row that
+  // contains the School column plus most of the cost columns.
+  const scanLimit = Math.min(rows.length, 15);
+  let best = -1;
+  let bestHits = 0;
+  for (let r = 0; r < scanLimit; r++) {
+    const headers = rows[r].map(normalizeHeader);
+    const hits = columnSpecs.filter(spec => spec.aliases.some(a => headers.includes(a))).length;
+    if (hits > bestHits) {
+      best = r;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+export function parseSchoolRows(
+  rows: unknown[][],
+  fileName = '',
+  sheetName = '',
+): SchoolDataImportResult {
+  const errors: ImportRowError[] = [];
+  const entries: Record<string, RawSchoolEntry> = {};
+  const empty = { fileName, sheetName, entries, errors, rowsRead: 0, rowsImported: 0 };
+
+  const headerIdx = findHeaderRow(rows);
+  if (headerIdx < 0) {
+    errors.push({ kind: 'missing-column', row: null, column: 'School', message: 'No header row found in the first 15 rows' });
+    return empty;
+  }
+
+  // Resolve column positions
+  const headers = rows[headerIdx].map(normalizeHeader);
+  const columnIndex = new Map<ImportField, number>();
+  for (const spec of columnSpecs) {
+    const idx = headers.findIndex(h => spec.aliases.includes(h));
+    if (idx >= 0) {
+      columnIndex.set(spec.field, idx);
+    } else if (spec.required) {
+      errors.push({
+        kind: 'missing-column',
+        row: headerIdx + 1,
+        column: spec.label,
+        message: `Required column "${spec.label}" not found`,
+      });
+    }
+  }
+  if (errors.length > 0) return empty;
+
+  const cell = (row: unknown[], field: ImportField): unknown => {
+    const idx = columnIndex.get(field);
+    return idx === undefined ? undefined : row[idx];
+  };
+
+  const historyById = new Map<string, { base: RawSchoolEntry; period: RawPeriodEntry }[]>();
+  let rowsRead = 0;
+  let rowsImported = 0;
+  for (let r = headerIdx + 1; r < rows.length; r++) {
+    const row = rows[r];
+    const displayName = String(cell(row, 'displayName') ?? '').trim();
+    // Skip blank and subtotal rows
+    if (displayName === '' || /^(total|portfolio|grand total)$/i.test(displayName)) continue;
+    rowsRead++;
+
+    const rowNum = r + 1;
+    const rowErrors: ImportRowError[] = [];
+    const rowWarnings: ImportRowError[] = [];
+    const numbers: Partial<Record<NumericField, number>> = {};
+
+    for (const spec of columnSpecs) {
+      if (spec.field === 'id' || spec.field === 'period' || spec.field === 'displayName' || spec.field === 'schoolType' || spec.field === 'tuitionTier') continue;
+      const field = spec.field as NumericField;
+      const raw = cell(row, field);
+      if (raw === undefined) {
+        numbers[field] = 0;
+        continue;
+      }
+      // Blank (not '-') required cells load as 0 but are flagged — usually a missed entry
+      if (String(raw).trim() === '') {
+        numbers[field] = 0;
+        if (spec.required) {
+          rowWarnings.push({
+            kind: 'blank-value',
+            row: rowNum,
+            column: spec.label,
+            message: `${displayName}: ${spec.label} is blank — read as 0`,
+            warning: true,
+          });
+        }
+        continue;
+      }
+      const parsed = parseNumber(raw);
+      if (parsed === null) {
+        rowErrors.push({
+          kind: 'non-numeric',
+          row: rowNum,
+          column: spec.label,
+          value: String(raw),
+          message: `${displayName}: "${String(raw)}" in ${spec.label} is not a number`,
+        });
+      } else {
+        numbers[field] = parsed;
+      }
+    }
+
+    const rawType = cell(row, 'schoolType');
+    const schoolType = parseSchoolType(rawType);
+    if (!schoolType) {
+      rowErrors.push({
+        kind: 'unknown-school-type',
+        row: rowNum,
+        column: 'School Type',
+        value: String(rawType ?? ''),
+        message: `${displayName}: unknown school type "${String(rawType ?? '')}" (expected one of ${Object.values(schoolTypeLabels).join(', ')})`,
+      });
+    }
+
+    if (numbers.capacity !== undefined && numbers.capacity <= 0) {
+      rowErrors.push({ kind: 'invalid-value', row: rowNum, column: 'Capacity', value: String(numbers.capacity), message: `${displayName}: capacity must be greater than 0` });
+    }
+    if (numbers.tuition !== undefined && numbers.tuition <= 0) {
+      rowErrors.push({ kind: 'invalid-value', row: rowNum, column: 'Tuition', value: String(numbers.tuition), message: `${displayName}: tuition must be greater than 0` });
+    }
+
+    const rawPeriod = cell(row, 'period');
+    const hasPeriod = rawPeriod !== undefined && String(rawPeriod).trim() !== '';
+    const period = hasPeriod ? parsePeriod(rawPeriod) : null;
+    if (hasPeriod && !period) {
+      rowErrors.push({ kind: 'invalid-value', row: rowNum, column: 'Period', value: String(rawPeriod), message: `${displayName}: "${String(rawPeriod)}" is not a fiscal year or month` });
+    }
+
+    const explicitId = String(cell(row, 'id') ?? '').trim();
+    const id = explicitId || slugify(displayName);
+    const isDuplicate = period
+      ? (historyById.get(id) ?? []).some(h => h.period.period === period)
+      : Boolean(entries[id]);
+    if (isDuplicate) {
+      rowErrors.push({ kind: 'invalid-value', row: rowNum, column: period ? 'Period' : 'School', value: period ?? displayName, message: `${displayName}: duplicate ${period ? `period ${period}` : 'school'} (id "${id}")` });
+    }
+
+    if (rowErrors.length > 0 || !schoolType) {
+      errors.push(...rowErrors);
+      continue;
+    }
+    errors.push(...rowWarnings);
+
+    const n = numbers as Record<NumericField, number>;
+    const entry: RawSchoolEntry = {
+      displayName,
+      currentEnrollment: n.currentEnrollment,
+      capacity: n.capacity,
+      schoolType,
+      tuitionTier: parseTuitionTier(cell(row, 'tuitionTier'), n.tuition),
+      tuition: n.tuition,
+      sqft: n.sqft,
+      lease: n.lease,
+      capexBuildout: n.capexBuildout,
+      utilities: n.utilities,
+      maintenance: n.maintenance,
+      itMaintenance: n.itMaintenance,
+      landscaping: n.landscaping,
+      janitorial: n.janitorial,
+      security: n.security,
+      foodServices: n.foodServices,
+      transportation: n.transportation,
+      totalExcCapex: n.totalExcCapex,
+      totalIncCapex: n.totalIncCapex,
+      modelFacPerStudent: n.modelFacPerStudent,
+      modelCapexPerStudent: n.modelCapexPerStudent,
+      modelTotalCostPerStudent: n.modelTotalCostPerStudent,
+      delta: n.delta,
+    };
+
+    rowsImported++;
+    if (period) {
+      const periodEntry: RawPeriodEntry = {
+        period,
+        currentEnrollment: entry.currentEnrollment,
+        lease: entry.lease,
+        utilities: entry.utilities,
+        maintenance: entry.maintenance,
+        itMaintenance: entry.itMaintenance,
+        landscaping: entry.landscaping,
+        janitorial: entry.janitorial,
+        security: entry.security,
+        foodServices: entry.foodServices,
+        transportation: entry.transportation,
+        totalExcCapex: entry.totalExcCapex,
+        totalIncCapex: entry.totalIncCapex,
+      };
+      historyById.set(id, [...(historyById.get(id) ?? []), { base: entry, period: periodEntry }]);
+    } else {
+      entries[id] = entry;
+    }
+  }
+
+  // Attach dated rows; schools with no snapshot row take the latest dated row's
+  // profile (capacity, tuition, model cols) and a year-end rolled up from history
+  for (const [id, rows] of historyById) {
+    const history = rows.map(r => r.period);
+    if (entries[id]) {
+      entries[id] = { ...entries[id], history };
+    } else {
+      const latest = [...rows].sort((a, b) => b.period.period.localeCompare(a.period.period))[0];
+      entries[id] = snapshotFromHistory({ ...latest.base, history });
+    }
+  }
+
+  return {
+    fileName,
+    sheetName,
+    entries,
+    errors,
+    rowsRead,
+    rowsImported,
+  };
+}
+
+// ============================================================================
+// FILE ENTRY POINTS
+// ============================================================================
+
+// RFC 4180: quoted fields may hold commas, newlines and "" for a quote
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no row — as a spreadsheet export skips them
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export function parseSchoolCsv(text: string, fileName = 'import.csv'): SchoolDataImportResult {
+  // Cells stay text ("$1,234" etc.) so parseNumber applies one set of rules
+  return parseSchoolRows(parseCsvRows(text), fileName);
+}
+
+export async function importSchoolDataFile(file: File): Promise<SchoolDataImportResult> {
+  if (!/\.csv$/i.test(file.name)) {
+    throw new Error(`${file.name} is not a CSV — save the "${SUMMARY_SHEET_NAME}" sheet as CSV and import that`);
+  }
+  return parseSchoolCsv(await file.text(), file.name);
+}
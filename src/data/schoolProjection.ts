@@ -0,0 +1,204 @@
+/**
+ * Multi-Year School Projection
+ *
+ * calculateUnitEconomics() is one steady-state year. For board planning each
+ * school is run forward year by year: enrollment follows a ramp curve (% of
+ * capacity per year), tuition rises at a flat rate, each facilities line and
+ * staffing salaries inflate at their own rate, rent follows the lease schedule
+ * (escalators included) and depreciation follows the fixed-asset register.
+ *
+ * Year 0 is the buildout outlay, so cumulative cash starts at −capexBuildout
+ * and the payback year is the first year it gets back to zero.
+ */
+
+import {
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  facilitiesLineLabels,
+  resolveExpenseRules,
+  type ExpensePresetRef,
+  type ExpenseRuleSet,
+  type FacilitiesLine,
+  type SchoolData,
+  type StaffingModel,
+  type UnitEconomicsResult,
+} from './facilitiesCapexData';
+import { assumedFixedAsset, depreciationByYear, type FixedAsset } from './fixedAssets';
+import { currentMonth, rentBetween, resolveLeaseSchedule, type LeaseRecord } from './leaseSchedule';
+
+// ============================================================================
+// ASSUMPTIONS
+// ============================================================================
+
+export type ProjectionCostLine = FacilitiesLine | 'staffing';
+
+export const projectionCostLineLabels: Record<ProjectionCostLine, string> = {
+  ...facilitiesLineLabels,
+  staffing: 'Staffing Salaries',
+};
+
+export interface ProjectionAssumptions {
+  years: number;
+  enrollmentRamp: number[];       // % of capacity per projection year
+  tuitionIncreasePct: number;     // per year
+  costInflationPct: Record<ProjectionCostLine, number>; // per year, per line
+}
+
+export const PROJECTION_YEARS = 5;
+export const RAMP_TARGET_UTILIZATION_PCT = 85;
+
+export const defaultCostInflationPct: Record<ProjectionCostLine, number> = {
+  security: 3,
+  itMaintenance: 3,
+  landscaping: 3,
+  janitorial: 3.5,
+  utilities: 4,
+  repairs: 3.5,
+  foodServices: 4,
+  transportation: 3.5,
+  staffing: 3.5,
+};
+
+// Pre-opening schools follow their ramp curve (held at its last year). Operating
+// schools go in a straight line from today's utilization to the ramp target over
+// three years, then flat; schools already above the target hold where they are
+export function defaultEnrollmentRamp(school: SchoolData, years: number = PROJECTION_YEARS): number[] {
+  if (school.ramp) {
+    const curve = school.ramp.curve;
+    return Array.from({ length: years }, (_, i) => curve[Math.min(i, curve.length - 1)]);
+  }
+  const current = school.utilizationRate * 100;
+  const target = Math.max(current, RAMP_TARGET_UTILIZATION_PCT);
+  const rampYears = 3;
+  return Array.from({ length: years }, (_, i) =>
+    Math.round(current + (target - current) * Math.min((i + 1) / rampYears, 1)));
+}
+
+export function defaultProjectionAssumptions(school: SchoolData): ProjectionAssumptions {
+  return {
+    years: PROJECTION_YEARS,
+    enrollmentRamp: defaultEnrollmentRamp(school),
+    tuitionIncreasePct: 3,
+    costInflationPct: { ...defaultCostInflationPct },
+  };
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+export interface ProjectionYear {
+  year: number;                   // calendar year
+  utilizationPct: number;
+  lease: number;
+  facilitiesLines: Record<FacilitiesLine, number>;
+  unitEconomics: UnitEconomicsResult; // facilities = lease + lines; capexAnnual = depreciation
+  cashFlow: number;               // margin with depreciation added back
+  cumulativeCash: number;
+}
+
+export interface SchoolProjection {
+  schoolId: string;
+  startYear: number;
+  capexOutlay: number;
+  years: ProjectionYear[];
+  paybackYear: number | null;     // first year cumulative cash ≥ 0; null if not within the horizon
+  assumedLease: boolean;
+  assumedAssets: boolean;
+}
+
+export const facilitiesLineAmounts = (school: SchoolData): Record<FacilitiesLine, number> => ({
+  security: school.costs.fixedFacilities.security,
+  itMaintenance: school.costs.fixedFacilities.itMaintenance,
+  landscaping: school.costs.fixedFacilities.landscaping,
+  janitorial: school.costs.variableFacilities.janitorial,
+  utilities: school.costs.variableFacilities.utilities,
+  repairs: school.costs.variableFacilities.repairs,
+  foodServices: school.costs.studentServices.foodServices,
+  transportation: school.costs.studentServices.transportation,
+});
+
+// Each line scaled to an enrollment under the preset's fixed/variable split.
+// Pre-opening costs are run-rate estimates for an operating school, so they scale from capacity.
+export function facilitiesAtEnrollment(school: SchoolData, students: number, rules: ExpenseRuleSet): Record<FacilitiesLine, number> {
+  const baseLines = facilitiesLineAmounts(school);
+  const baseStudents = school.currentEnrollment > 0 ? school.currentEnrollment : school.capacity;
+  const ratio = students / Math.max(baseStudents, 1);
+  const lines = {} as Record<FacilitiesLine, number>;
+  for (const line of Object.keys(baseLines) as FacilitiesLine[]) {
+    lines[line] = baseLines[line] * (rules[line].fixed + rules[line].variable * ratio);
+  }
+  return lines;
+}
+
+const inflateSalaries = (model: StaffingModel, factor: number): StaffingModel => ({
+  bands: model.bands.map(band => ({
+    ...band,
+    salaries: Object.fromEntries(
+      Object.entries(band.salaries).map(([role, salary]) => [role, salary * factor]),
+    ) as typeof band.salaries,
+  })),
+});
+
+// Projection runs over the calendar years after asOf
+export function projectSchool(
+  school: SchoolData,
+  assumptions: ProjectionAssumptions,
+  leaseRecords: LeaseRecord[] = [],
+  assetRegister: FixedAsset[] = [],
+  preset: ExpensePresetRef = 'dashboard',
+  staffingModel: StaffingModel = defaultStaffingModel,
+  asOf: string = currentMonth(),
+): SchoolProjection {
+  const rules = resolveExpenseRules(preset);
+  const startYear = Number(asOf.slice(0, 4)) + 1;
+  const [lease] = resolveLeaseSchedule([school], leaseRecords, asOf);
+  const entered = assetRegister.filter(a => a.schoolId === school.id);
+  const assets = entered.length > 0
+    ? entered
+    : [assumedFixedAsset(school.id, school.costs.capexBuildout, school.costs.annualDepreciation.total, asOf)];
+  const depreciation = depreciationByYear(assets, startYear, assumptions.years);
+
+  const capexOutlay = school.costs.capexBuildout;
+  let cumulativeCash = -capexOutlay;
+  let paybackYear: number | null = null;
+
+  const years = Array.from({ length: assumptions.years }, (_, i): ProjectionYear => {
+    const year = startYear + i;
+    const utilizationPct = assumptions.enrollmentRamp[i] ?? assumptions.enrollmentRamp[assumptions.enrollmentRamp.length - 1] ?? 0;
+    const students = Math.round(school.capacity * utilizationPct / 100);
+    const inflation = (line: ProjectionCostLine) => Math.pow(1 + assumptions.costInflationPct[line] / 100, i + 1);
+
+    const facilitiesLines = facilitiesAtEnrollment(school, students, rules);
+    for (const line of Object.keys(facilitiesLines) as FacilitiesLine[]) facilitiesLines[line] *= inflation(line);
+    const rent = rentBetween(lease, `${year}-01`, `${year + 1}-01`);
+    const facilitiesTotal = rent + Object.values(facilitiesLines).reduce((s, v) => s + v, 0);
+    const tuition = school.tuition * Math.pow(1 + assumptions.tuitionIncreasePct / 100, i + 1);
+
+    // Bands and per-student rates stay on today's tuition; staffing cost growth
+    // comes from the salary inflation, not from drifting into a richer band
+    const unitEconomics = calculateUnitEconomics(
+      tuition,
+      students,
+      facilitiesTotal,
+      depreciation[i].total,
+      inflateSalaries(staffingModel, inflation('staffing')),
+      school.tuition,
+    );
+    const cashFlow = unitEconomics.margin + unitEconomics.capexAnnual;
+    cumulativeCash += cashFlow;
+    if (paybackYear === null && cumulativeCash >= 0) paybackYear = year;
+
+    return { year, utilizationPct, lease: rent, facilitiesLines, unitEconomics, cashFlow, cumulativeCash };
+  });
+
+  return {
+    schoolId: school.id,
+    startYear,
+    capexOutlay,
+    years,
+    paybackYear,
+    assumedLease: lease.assumed,
+    assumedAssets: entered.length === 0,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Unit Economics Sensitivity
+ *
+ * Which lever moves a school's margin most? Each driver is flexed ±X% on its
+ * own, everything else held, and run back through calculateUnitEconomics()
+ * (staffing via getStaffingCost(), so salary and ratio changes go through the
+ * roster rather than a flat percentage). The swing is the spread between the
+ * two margins — the tornado sorts on it. Flexing tuition moves revenue only:
+ * the staffing band and per-student rates stay on the school's own tuition.
+ *
+ * Same basis as the Unit Economics tab: students at capacity, current facility
+ * costs. Facilities are held flat when enrollment moves.
+ */
+
+import {
+  calculateUnitEconomics,
+  defaultStaffingModel,
+  type SchoolData,
+  type SchoolType,
+  type StaffingModel,
+} from './facilitiesCapexData';
+
+// ============================================================================
+// DRIVERS
+// ============================================================================
+
+export type SensitivityDriver =
+  | 'tuition'
+  | 'enrollment'
+  | 'lease'
+  | 'foodServices'
+  | 'transportation'
+  | 'guideSalary'
+  | 'guideRatio';
+
+export const sensitivityDriverLabels: Record<SensitivityDriver, string> = {
+  tuition: 'Tuition',
+  enrollment: 'Enrollment',
+  lease: 'Lease',
+  foodServices: 'Food Services',
+  transportation: 'Transportation',
+  guideSalary: 'Guide Salary',
+  guideRatio: 'Guide Ratio (students/guide)',
+};
+
+export const DEFAULT_FLEX_PCT = 10;
+
+export interface UnitEconomicsInputs {
+  tuition: number;
+  tierTuition: number;     // picks staffing band and rates — not flexed
+  students: number;
+  lease: number;
+  foodServices: number;
+  transportation: number;
+  otherFacilities: number; // fixed + variable facilities
+  capexAnnual: number;
+  staffingModel: StaffingModel;
+}
+
+export function unitEconomicsInputs(
+  school: SchoolData,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  students: number = school.capacity,
+): UnitEconomicsInputs {
+  return {
+    tuition: school.tuition,
+    tierTuition: school.tuition,
+    students,
+    lease: school.costs.lease.total,
+    foodServices: school.costs.studentServices.foodServices,
+    transportation: school.costs.studentServices.transportation,
+    otherFacilities: school.costs.fixedFacilities.total + school.costs.variableFacilities.total,
+    capexAnnual: school.costs.annualDepreciation.total,
+    staffingModel,
+  };
+}
+
+const scaleStaffingModel = (model: StaffingModel, factor: number, what: 'guideSalary' | 'guideRatio'): StaffingModel => ({
+  bands: model.bands.map(band => what === 'guideSalary'
+    ? { ...band, salaries: { ...band.salaries, guide: band.salaries.guide * factor, leadGuide: band.salaries.leadGuide * factor } }
+    : { ...band, tiers: band.tiers.map(t => ({ ...t, guideRatio: t.guideRatio * factor })) }),
+});
+
+function flexInputs(inputs: UnitEconomicsInputs, driver: SensitivityDriver, factor: number): UnitEconomicsInputs {
+  switch (driver) {
+    case 'tuition': return { ...inputs, tuition: inputs.tuition * factor };
+    case 'enrollment': return { ...inputs, students: Math.round(inputs.students * factor) };
+    case 'lease': return { ...inputs, lease: inputs.lease * factor };
+    case 'foodServices': return { ...inputs, foodServices: inputs.foodServices * factor };
+    case 'transportation': return { ...inputs, transportation: inputs.transportation * factor };
+    case 'guideSalary':
+    case 'guideRatio':
+      return { ...inputs, staffingModel: scaleStaffingModel(inputs.staffingModel, factor, driver) };
+  }
+}
+
+export function marginFor(inputs: UnitEconomicsInputs): number {
+  const facilities = inputs.lease + inputs.foodServices + inputs.transportation + inputs.otherFacilities;
+  return calculateUnitEconomics(inputs.tuition, inputs.students, facilities, inputs.capexAnnual, inputs.staffingModel, inputs.tierTuition).margin;
+}
+
+// ============================================================================
+// TORNADO
+// ============================================================================
+
+export interface SensitivityBar {
+  driver: SensitivityDriver;
+  low: number;   // margin with the driver at −flexPct
+  high: number;  // margin with the driver at +flexPct
+  swing: number; // |high − low|
+}
+
+export interface SensitivityResult {
+  flexPct: number;
+  baseMargin: number;
+  baseRevenue: number;
+  bars: SensitivityBar[]; // largest swing first
+}
+
+const drivers = Object.keys(sensitivityDriverLabels) as SensitivityDriver[];
+
+// Margins add across schools, so a segment is the sum of its schools at each flex
+export function runSensitivity(inputSets: UnitEconomicsInputs[], flexPct: number = DEFAULT_FLEX_PCT): SensitivityResult {
+  const total = (driver: SensitivityDriver | null, factor: number) =>
+    inputSets.reduce((s, inputs) => s + marginFor(driver ? flexInputs(inputs, driver, factor) : inputs), 0);
+
+  const bars = drivers.map((driver): SensitivityBar => {
+    const low = total(driver, 1 - flexPct / 100);
+    const high = total(driver, 1 + flexPct / 100);
+    return { driver, low, high, swing: Math.abs(high - low) };
+  }).sort((a, b) => b.swing - a.swing);
+
+  return {
+    flexPct,
+    baseMargin: total(null, 1),
+    baseRevenue: inputSets.reduce((s, i) => s + i.tuition * i.students, 0),
+    bars,
+  };
+}
+
+export function schoolSensitivity(
+  school: SchoolData,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  flexPct: number = DEFAULT_FLEX_PCT,
+): SensitivityResult {
+  return runSensitivity([unitEconomicsInputs(school, staffingModel)], flexPct);
+}
+
+export function segmentSensitivity(
+  schools: SchoolData[],
+  schoolType: SchoolType,
+  staffingModel: StaffingModel = defaultStaffingModel,
+  flexPct: number = DEFAULT_FLEX_PCT,
+): SensitivityResult {
+  return runSensitivity(
+    schools.filter(s => s.schoolType === schoolType).map(s => unitEconomicsInputs(s, staffingModel)),
+    flexPct,
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Runs the Monte Carlo simulation in a Web Worker.
+ *
+ * One run at a time: starting a new run or cancelling terminates the worker
+ * mid-simulation (it has no other way to stop), and responses from an older
+ * run are ignored by runId.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MonteCarloRequest, MonteCarloResponse, MonteCarloResult } from '../data/monteCarlo';
+
+export interface MonteCarloRun {
+  running: boolean;
+  done: number;
+  total: number;
+  result: MonteCarloResult | null;
+  error: string | null;
+}
+
+const idle: MonteCarloRun = { running: false, done: 0, total: 0, result: null, error: null };
+
+export function useMonteCarlo(): [MonteCarloRun, (request: Omit<MonteCarloRequest, 'runId'>) => void, () => void] {
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const [run, setRun] = useState<MonteCarloRun>(idle);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  useEffect(() => stopWorker, []);
+
+  const start = useCallback((request: Omit<MonteCarloRequest, 'runId'>) => {
+    stopWorker();
+    const runId = ++runIdRef.current;
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setRun(prev => ({ ...prev, running: true, done: 0, total: request.assumptions.draws, error: null }));
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      const message = event.data;
+      if (message.runId !== runIdRef.current) return;
+      if (message.type === 'progress') {
+        setRun(prev => ({ ...prev, done: message.done, total: message.total }));
+      } else {
+        stopWorker();
+        setRun(prev => message.type === 'result'
+          ? { ...prev, running: false, done: message.result.draws, result: message.result }
+          : { ...prev, running: false, error: message.message });
+      }
+    };
+    worker.onerror = (event) => {
+      if (runId !== runIdRef.current) return;
+      stopWorker();
+      setRun(prev => ({ ...prev, running: false, error: event.message || 'Simulation worker failed' }));
+    };
+    worker.postMessage({ ...request, runId } satisfies MonteCarloRequest);
+  }, []);
+
+  const cancel = useCallback(() => {
+    runIdRef.current++;
+    stopWorker();
+    setRun(prev => ({ ...prev, running: false }));
+  }, []);
+
+  return [run, start, cancel];
+}
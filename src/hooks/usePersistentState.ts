@@ -0,0 +1,42 @@
+/**
+ * useState backed by localStorage.
+ *
+ * Settings that finance edits between sessions (targets, presets, pipelines…)
+ * are stored per key as JSON. A missing, unparseable or invalid value falls
+ * back to the initial value; `validate` guards against stale shapes left by
+ * older versions of the dashboard.
+ */
+
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+
+const STORAGE_PREFIX = 'facilities-dashboard:';
+
+function loadPersisted<T>(key: string, fallback: T, validate?: (value: unknown) => value is T): T {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + key);
+    if (stored === null) return fallback;
+    const parsed: unknown = JSON.parse(stored);
+    if (validate && !validate(parsed)) return fallback;
+    return parsed as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+  validate?: (value: unknown) => value is T,
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => loadPersisted(key, initial, validate));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch {
+      // Storage full or disabled (private mode) — keep the in-memory value
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,19 @@
+/**
+ * Web Worker for the Monte Carlo simulation — thousands of buildSchoolData()
+ * passes would otherwise block the UI thread. Posts progress every 100 draws.
+ */
+
+import { runMonteCarlo, type MonteCarloRequest, type MonteCarloResponse } from '../data/monteCarlo';
+
+const post = (message: MonteCarloResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { runId, entries, assumptions, targetPolicy, staffingModel, preset } = event.data;
+  try {
+    const result = runMonteCarlo(entries, assumptions, targetPolicy, staffingModel, preset,
+      done => post({ type: 'progress', runId, done, total: assumptions.draws }));
+    post({ type: 'result', runId, result });
+  } catch (err) {
+    post({ type: 'error', runId, message: err instanceof Error ? err.message : String(err) });
+  }
+};